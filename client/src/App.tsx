@@ -2,6 +2,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { AuthProvider } from "@/hooks/use-auth";
+import { RealtimeProvider } from "@/hooks/use-realtime";
 import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
@@ -11,6 +12,8 @@ import Navbar from "@/components/ui/navbar";
 import ProfilePage from "@/pages/profile-page";
 import MatchesPage from "@/pages/matches-page";
 import MessagingPage from "@/pages/messaging-page";
+import MutualMatchesPage from "@/pages/mutual-matches-page";
+import VerifyEmailPage from "@/pages/verify-email-page";
 import { useEffect, useState } from 'react';
 import { supabase } from './supabaseClient.ts'; // adjust path as needed
 
@@ -18,9 +21,11 @@ function Router() {
   return (
     <Switch>
       <Route path="/auth" component={AuthPage} />
+      <Route path="/verify-email" component={VerifyEmailPage} />
       <ProtectedRoute path="/" component={MatchesPage} />
       <ProtectedRoute path="/profile" component={ProfilePage} />
       <ProtectedRoute path="/matches" component={MatchesPage} />
+      <ProtectedRoute path="/mutual-matches" component={MutualMatchesPage} />
       <ProtectedRoute path="/messaging" component={MessagingPage} />
       <Route component={NotFound} />
     </Switch>
@@ -51,13 +56,15 @@ function App()
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <Navbar />
-        <Router />
-        <Toaster />
-        <div>
-          <h1>Supabase Users</h1>
-          <pre>{JSON.stringify(users, null, 2)}</pre>
-        </div>
+        <RealtimeProvider>
+          <Navbar />
+          <Router />
+          <Toaster />
+          <div>
+            <h1>Supabase Users</h1>
+            <pre>{JSON.stringify(users, null, 2)}</pre>
+          </div>
+        </RealtimeProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
@@ -0,0 +1,125 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { updateEmailSchema, type SelfUser } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2 } from "lucide-react";
+import { VerifiedBadge } from "./verified-badge";
+
+type EmailFormData = z.infer<typeof updateEmailSchema>;
+
+// The user's email address and whether it's verified
+export function EmailSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const form = useForm<EmailFormData>({
+    resolver: zodResolver(updateEmailSchema),
+    defaultValues: { email: user?.email ?? "" },
+  });
+
+  useEffect(() => {
+    form.reset({ email: user?.email ?? "" });
+  }, [form, user?.email]);
+
+  const updateEmailMutation = useMutation({
+    mutationFn: async (data: EmailFormData) => {
+      const res = await apiRequest("PUT", "/api/user/email", data);
+      return (await res.json()) as SelfUser;
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      if (!updatedUser.emailVerifiedAt) {
+        toast({
+          title: "Check your inbox",
+          description: `We've sent a verification link to ${updatedUser.email}.`,
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving email",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/user/email/verification");
+    },
+    onSuccess: () => {
+      toast({
+        title: "Verification email sent",
+        description: `Follow the link we've sent to ${user?.email} within a day.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send verification email",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user) return null;
+
+  return (
+    <Card className="max-w-3xl mx-auto mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Email
+          {user.emailVerifiedAt && <VerifiedBadge />}
+        </CardTitle>
+        <CardDescription>
+          {!user.email
+            ? "Add an email address so you can reset your password and get a verified badge"
+            : user.emailVerifiedAt
+              ? "Your email is verified, so other people see a verified badge on your profile"
+              : "Your email isn't verified yet. Follow the link we sent you to get a verified badge."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => updateEmailMutation.mutate(data))}
+            className="flex items-start gap-2"
+          >
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormLabel className="sr-only">Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="you@example.com" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={updateEmailMutation.isPending || !form.formState.isDirty}>
+              {updateEmailMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {user.email ? "Change email" : "Add email"}
+            </Button>
+          </form>
+        </Form>
+        {user.email && !user.emailVerifiedAt && (
+          <Button variant="outline" onClick={() => resendMutation.mutate()} disabled={resendMutation.isPending}>
+            {resendMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Resend verification email
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
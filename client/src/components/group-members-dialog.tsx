@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_GROUP_MEMBERS } from "@shared/schema";
+import type { GroupCandidate } from "@/components/new-group-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LogOut, UserMinus } from "lucide-react";
+
+interface GroupMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversationId: number;
+  name: string;
+  // The other members; the current user isn't listed
+  members: GroupCandidate[];
+  // Only the group's creator can remove other members
+  isCreator: boolean;
+  // People who could be added
+  candidates: GroupCandidate[];
+  onLeft: () => void;
+}
+
+export function GroupMembersDialog({
+  open,
+  onOpenChange,
+  conversationId,
+  name,
+  members,
+  isCreator,
+  candidates,
+  onLeft,
+}: GroupMembersDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [newName, setNewName] = useState(name);
+  const [memberToAdd, setMemberToAdd] = useState<string>("");
+  useEffect(() => setNewName(name), [name, open]);
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+  const refreshConversations = () =>
+    queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
+
+  const renameMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PATCH", `/api/conversations/${conversationId}`, { name: newName.trim() });
+    },
+    onSuccess: refreshConversations,
+    onError: onError("Failed to rename group"),
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("POST", `/api/conversations/${conversationId}/members`, { userIds: [userId] });
+    },
+    onSuccess: () => {
+      setMemberToAdd("");
+      refreshConversations();
+    },
+    onError: onError("Failed to add member"),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `/api/conversations/${conversationId}/members/${userId}`);
+    },
+    onSuccess: refreshConversations,
+    onError: onError("Failed to remove member"),
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/conversations/${conversationId}/members/${user!.id}`);
+    },
+    onSuccess: () => {
+      onOpenChange(false);
+      onLeft();
+      refreshConversations();
+    },
+    onError: onError("Failed to leave group"),
+  });
+
+  const addable = candidates.filter(candidate => !members.some(member => member.id === candidate.id));
+  const isFull = members.length + 1 >= MAX_GROUP_MEMBERS;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>{name}</DialogTitle>
+          <DialogDescription>{members.length + 1} members</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <form
+            className="space-y-2"
+            onSubmit={e => {
+              e.preventDefault();
+              renameMutation.mutate();
+            }}
+          >
+            <Label htmlFor="group-rename">Group name</Label>
+            <div className="flex gap-2">
+              <Input id="group-rename" value={newName} maxLength={60} onChange={e => setNewName(e.target.value)} />
+              <Button
+                type="submit"
+                variant="outline"
+                disabled={!newName.trim() || newName.trim() === name || renameMutation.isPending}
+              >
+                Rename
+              </Button>
+            </div>
+          </form>
+
+          <div className="space-y-2">
+            <Label>Members</Label>
+            <ScrollArea className="h-[160px] rounded-md border p-2">
+              {members.map(member => (
+                <div key={member.id} className="flex items-center justify-between p-2">
+                  <span>{member.name}</span>
+                  {isCreator && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title={`Remove ${member.name}`}
+                      onClick={() => removeMemberMutation.mutate(member.id)}
+                      disabled={removeMemberMutation.isPending}
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </ScrollArea>
+          </div>
+
+          {!isFull && addable.length > 0 && (
+            <div className="flex gap-2">
+              <Select value={memberToAdd} onValueChange={setMemberToAdd}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Add someone" />
+                </SelectTrigger>
+                <SelectContent>
+                  {addable.map(candidate => (
+                    <SelectItem key={candidate.id} value={String(candidate.id)}>{candidate.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                onClick={() => addMemberMutation.mutate(parseInt(memberToAdd))}
+                disabled={!memberToAdd || addMemberMutation.isPending}
+              >
+                Add
+              </Button>
+            </div>
+          )}
+
+          <Button
+            variant="outline"
+            className="w-full text-destructive"
+            onClick={() => leaveMutation.mutate()}
+            disabled={leaveMutation.isPending}
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Leave group
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
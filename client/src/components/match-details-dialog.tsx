@@ -7,9 +7,14 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { UserProfile } from "@shared/schema";
+import type { PublicUserProfile, UserProfile } from "@shared/schema";
+import type { PublicMutualMatchScore } from "@shared/matching";
+import { isSameArea } from "@shared/gazetteer";
 import { Badge } from "@/components/ui/badge";
 import { MatchCompatibility } from "./match-compatibility";
+import { MatchGauge } from "./match-gauge";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Eye } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation } from "@tanstack/react-query";
@@ -18,11 +23,12 @@ import { useLocation } from "wouter";
 
 interface MatchDetailsDialogProps {
   userProfile: UserProfile;
-  matchProfile: UserProfile;
-  matchPercentage: number;
+  matchProfile: PublicUserProfile;
+  match: PublicMutualMatchScore;
 }
 
-export function MatchDetailsDialog({ userProfile, matchProfile, matchPercentage }: MatchDetailsDialogProps) {
+export function MatchDetailsDialog({ userProfile, matchProfile, match }: MatchDetailsDialogProps) {
+  const matchPercentage = match.percentage;
   const { toast } = useToast();
   const [, setLocation] = useLocation();
   
@@ -180,9 +186,42 @@ export function MatchDetailsDialog({ userProfile, matchProfile, matchPercentage
           </div>
 
           {/* Match Compatibility Visualization */}
-          <div className="bg-muted/50 rounded-lg p-4">
-            <MatchCompatibility userProfile={userProfile} otherProfile={matchProfile} />
-          </div>
+          <Tabs defaultValue="mutual" className="bg-muted/50 rounded-lg p-4">
+            <TabsList className="grid w-full grid-cols-3 mb-4">
+              <TabsTrigger value="mutual">Mutual</TabsTrigger>
+              <TabsTrigger value="theirs">They fit you</TabsTrigger>
+              <TabsTrigger value="yours">You fit them</TabsTrigger>
+            </TabsList>
+            <TabsContent value="mutual" className="space-y-4">
+              <div className="flex items-center gap-4">
+                <MatchGauge match={match} />
+                <p className="text-sm text-muted-foreground">
+                  Your mutual score weighs how well {matchProfile.fullName} fits what you're looking for
+                  against how well you fit what they're looking for.
+                </p>
+              </div>
+              <div className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span>How well they fit you</span>
+                  <span className="text-muted-foreground">{match.theirFit.percentage}%</span>
+                </div>
+                <Progress value={match.theirFit.percentage} className="h-1" />
+              </div>
+              <div className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span>How well you fit them</span>
+                  <span className="text-muted-foreground">{match.yourFit.percentage}%</span>
+                </div>
+                <Progress value={match.yourFit.percentage} className="h-1" />
+              </div>
+            </TabsContent>
+            <TabsContent value="theirs">
+              <MatchCompatibility match={match.theirFit} title="How well they fit you" />
+            </TabsContent>
+            <TabsContent value="yours">
+              <MatchCompatibility match={match.yourFit} title="How well you fit them" />
+            </TabsContent>
+          </Tabs>
 
           {/* What You Have in Common */}
           <div>
@@ -223,11 +262,11 @@ export function MatchDetailsDialog({ userProfile, matchProfile, matchPercentage
                 <div className="flex items-center gap-2">
                   <Badge variant="outline">Location</Badge>
                   <span>
-                    {userProfile.location.toLowerCase() === matchProfile.location.toLowerCase()
+                    {isSameArea(userProfile.location, matchProfile.location)
                       ? "You both currently live in the same area"
-                      : userProfile.idealLocation && userProfile.idealLocation.toLowerCase() === matchProfile.location.toLowerCase()
+                      : isSameArea(userProfile.idealLocation, matchProfile.location)
                         ? `${matchProfile.fullName} lives in your ideal location`
-                        : matchProfile.idealLocation && matchProfile.idealLocation.toLowerCase() === userProfile.location.toLowerCase()
+                        : isSameArea(matchProfile.idealLocation, userProfile.location)
                           ? `You live in ${matchProfile.fullName}'s ideal location`
                           : "Different locations"}
                   </span>
@@ -316,7 +355,7 @@ export function MatchDetailsDialog({ userProfile, matchProfile, matchPercentage
                 </div>
               )}
               
-              {userProfile.location && matchProfile.location && userProfile.location.toLowerCase() !== matchProfile.location.toLowerCase() && (
+              {userProfile.location && matchProfile.location && !isSameArea(userProfile.location, matchProfile.location) && (
                 <div className="flex items-center gap-2">
                   <Badge variant="outline" className="bg-red-100">Location</Badge>
                   <span>You live in {userProfile.location}, they live in {matchProfile.location}</span>
@@ -328,7 +367,7 @@ export function MatchDetailsDialog({ userProfile, matchProfile, matchPercentage
                 (!userProfile.cleanliness || !matchProfile.cleanliness || userProfile.cleanliness === matchProfile.cleanliness) &&
                 (!userProfile.smokingPreference || !matchProfile.smokingPreference || userProfile.smokingPreference === matchProfile.smokingPreference) &&
                 (!userProfile.petPreference || !matchProfile.petPreference || userProfile.petPreference === matchProfile.petPreference) &&
-                (!userProfile.location || !matchProfile.location || userProfile.location.toLowerCase() === matchProfile.location.toLowerCase())) && (
+                (!userProfile.location || !matchProfile.location || isSameArea(userProfile.location, matchProfile.location))) && (
                 <div className="text-sm text-muted-foreground">
                   Based on available information, you don't have any major lifestyle differences!
                 </div>
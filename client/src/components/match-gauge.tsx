@@ -1,19 +1,25 @@
 import React from "react";
 import { cn } from "@/lib/utils";
+import { perspectivePercentage, type MatchPerspective, type PublicMutualMatchScore } from "@shared/matching";
 
 interface MatchGaugeProps {
-  percentage: number;
+  match: PublicMutualMatchScore;
+  // Which direction to show; the mutual score unless told otherwise
+  perspective?: MatchPerspective;
   size?: "sm" | "md" | "lg";
   showValue?: boolean;
   className?: string;
 }
 
 export function MatchGauge({ 
-  percentage,
+  match,
+  perspective = "mutual",
   size = "md",
   showValue = true,
   className
 }: MatchGaugeProps) {
+  const percentage = perspectivePercentage(match, perspective);
+
   // Calculate the stroke width based on size
   const getStrokeWidth = () => {
     switch (size) {
@@ -0,0 +1,234 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { removeMessage, updateMessage } from "@/lib/message-cache";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MESSAGE_DELETE_FOR_EVERYONE_WINDOW_MS,
+  MESSAGE_REACTIONS,
+  type AttachmentInfo,
+  type ChatMessage,
+  type MessageReactionEmoji,
+} from "@shared/schema";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FileText, Flag, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+
+interface MessageBubbleProps {
+  message: ChatMessage;
+  currentUserId: number;
+  // Show the "Seen" receipt under this message
+  showSeen: boolean;
+  // In groups: who has seen this message, shown instead of the receipt
+  seenBy?: string[];
+  // In groups: the sender's name, shown above other people's messages
+  senderName?: string;
+  // Briefly outlined after jumping to the message from search
+  highlighted?: boolean;
+  onEdit: (message: ChatMessage) => void;
+  onReport: (message: ChatMessage) => void;
+}
+
+function formatTime(timestamp: Date | string | null) {
+  return timestamp ? new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : "";
+}
+
+function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Images show their thumbnail and open full size; documents are a download link
+function AttachmentPreview({ attachment }: { attachment: AttachmentInfo }) {
+  const url = `/api/attachments/${attachment.id}`;
+  if (attachment.hasThumbnail) {
+    return (
+      <a href={url} target="_blank" rel="noopener noreferrer" className="block mb-1">
+        <img
+          src={`${url}/thumbnail`}
+          alt={attachment.fileName}
+          width={attachment.width ?? undefined}
+          height={attachment.height ?? undefined}
+          className="max-h-60 w-auto rounded-md object-contain"
+          loading="lazy"
+        />
+      </a>
+    );
+  }
+  return (
+    <a href={url} className="flex items-center gap-2 mb-1 rounded-md bg-background/20 px-3 py-2 hover:underline">
+      <FileText className="h-5 w-5 shrink-0" />
+      <span className="truncate">{attachment.fileName}</span>
+      <span className="text-xs opacity-70 shrink-0">{formatFileSize(attachment.size)}</span>
+    </a>
+  );
+}
+
+export function MessageBubble({ message, currentUserId, showSeen, seenBy, senderName, highlighted, onEdit, onReport }: MessageBubbleProps) {
+  const { toast } = useToast();
+  const isCurrentUser = message.senderId === currentUserId;
+  const isDeleted = !!message.deletedAt;
+  const ownReaction = message.reactions.find(reaction => reaction.userIds.includes(currentUserId))?.emoji;
+  const canDeleteForEveryone = isCurrentUser && !isDeleted && !!message.createdAt &&
+    Date.now() - new Date(message.createdAt).getTime() < MESSAGE_DELETE_FOR_EVERYONE_WINDOW_MS;
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  // Reacting with the emoji the user already chose removes their reaction
+  const reactionMutation = useMutation({
+    mutationFn: async (emoji: MessageReactionEmoji) => {
+      if (emoji === ownReaction) {
+        await apiRequest("DELETE", `/api/messages/${message.id}/reaction`);
+        return {
+          ...message,
+          reactions: message.reactions
+            .map(reaction => ({ ...reaction, userIds: reaction.userIds.filter(id => id !== currentUserId) }))
+            .filter(reaction => reaction.userIds.length > 0),
+        };
+      }
+      const res = await apiRequest("PUT", `/api/messages/${message.id}/reaction`, { emoji });
+      return (await res.json()) as ChatMessage;
+    },
+    onSuccess: (updated) => updateMessage(message.conversationId, updated),
+    onError: onError("Failed to react"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (scope: "me" | "everyone") => {
+      await apiRequest("DELETE", `/api/messages/${message.id}?scope=${scope}`);
+      return scope;
+    },
+    onSuccess: (scope) => {
+      if (scope === "me") {
+        removeMessage(message.conversationId, message.id);
+      } else {
+        updateMessage(message.conversationId, {
+          ...message,
+          content: "",
+          deletedAt: new Date(),
+          reactions: [],
+          attachments: [],
+        });
+      }
+    },
+    onError: onError("Failed to delete message"),
+  });
+
+  // Changes to a group ("Alex added Sam") are centred notes, not bubbles
+  if (message.kind === "system") {
+    return (
+      <p id={`message-${message.id}`} className="text-center text-xs text-muted-foreground">
+        {message.content} · {formatTime(message.createdAt)}
+      </p>
+    );
+  }
+
+  return (
+    <div id={`message-${message.id}`} className={`flex flex-col ${isCurrentUser ? "items-end" : "items-start"}`}>
+      {senderName && !isCurrentUser && (
+        <span className="text-xs text-muted-foreground mb-1">{senderName}</span>
+      )}
+      <div
+        className={`max-w-[80%] rounded-lg px-4 py-2 transition-shadow ${
+          isCurrentUser
+            ? "bg-primary text-primary-foreground"
+            : "bg-muted"
+        } ${highlighted ? "ring-2 ring-yellow-400 ring-offset-2" : ""}`}
+      >
+        {isDeleted ? (
+          <p className="italic opacity-70">This message was deleted</p>
+        ) : (
+          <>
+            {message.attachments.map(attachment => (
+              <AttachmentPreview key={attachment.id} attachment={attachment} />
+            ))}
+            {message.content && <p>{message.content}</p>}
+          </>
+        )}
+        <p className="text-xs mt-1 opacity-70 flex items-center gap-2">
+          {formatTime(message.createdAt)}
+          {message.editedAt && !isDeleted && <span>· Edited</span>}
+          {showSeen && (
+            <span>
+              · Seen{message.readAt ? ` ${formatTime(message.readAt)}` : ""}
+            </span>
+          )}
+          {seenBy && seenBy.length > 0 && <span>· Seen by {seenBy.join(", ")}</span>}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button type="button" title="Message actions" className="hover:opacity-100">
+                <MoreHorizontal className="h-3 w-3" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align={isCurrentUser ? "end" : "start"}>
+              {!isDeleted && (
+                <>
+                  <div className="flex gap-1 px-1 py-1">
+                    {MESSAGE_REACTIONS.map(emoji => (
+                      <button
+                        key={emoji}
+                        type="button"
+                        className={`rounded px-1.5 py-0.5 text-lg hover:bg-accent ${emoji === ownReaction ? "bg-accent" : ""}`}
+                        onClick={() => reactionMutation.mutate(emoji)}
+                        disabled={reactionMutation.isPending}
+                      >
+                        {emoji}
+                      </button>
+                    ))}
+                  </div>
+                  <DropdownMenuSeparator />
+                </>
+              )}
+              {isCurrentUser && !isDeleted && (
+                <DropdownMenuItem onClick={() => onEdit(message)}>
+                  <Pencil className="w-4 h-4 mr-2" />
+                  Edit
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={() => deleteMutation.mutate("me")} disabled={deleteMutation.isPending}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete for me
+              </DropdownMenuItem>
+              {canDeleteForEveryone && (
+                <DropdownMenuItem onClick={() => deleteMutation.mutate("everyone")} disabled={deleteMutation.isPending}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete for everyone
+                </DropdownMenuItem>
+              )}
+              {!isCurrentUser && (
+                <DropdownMenuItem onClick={() => onReport(message)}>
+                  <Flag className="w-4 h-4 mr-2" />
+                  Report
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </p>
+      </div>
+      {message.reactions.length > 0 && (
+        <div className="flex gap-1 mt-1">
+          {message.reactions.map(reaction => (
+            <button
+              key={reaction.emoji}
+              type="button"
+              className={`rounded-full border px-2 text-sm ${
+                reaction.userIds.includes(currentUserId) ? "border-primary bg-primary/10" : "bg-background"
+              }`}
+              onClick={() => reactionMutation.mutate(reaction.emoji)}
+              disabled={reactionMutation.isPending}
+            >
+              {reaction.emoji} {reaction.userIds.length}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
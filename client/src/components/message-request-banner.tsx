@@ -0,0 +1,71 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { MESSAGE_REQUESTS_QUERY_KEY } from "@/lib/message-cache";
+import { useToast } from "@/hooks/use-toast";
+import { MESSAGE_REQUEST_ACTIONS } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Ban, Check, X } from "lucide-react";
+
+type MessageRequestAction = (typeof MESSAGE_REQUEST_ACTIONS)[number];
+
+interface MessageRequestBannerProps {
+  conversationId: number;
+  // The person who sent the request
+  name: string;
+  // Called once the request has been declined or the sender blocked
+  onDismissed: () => void;
+}
+
+// Shown instead of the message input while a message request waits for the
+// user to accept it
+export function MessageRequestBanner({ conversationId, name, onDismissed }: MessageRequestBannerProps) {
+  const { toast } = useToast();
+
+  const respondMutation = useMutation({
+    mutationFn: async (action: MessageRequestAction) => {
+      await apiRequest("POST", `/api/conversations/${conversationId}/request`, { action });
+    },
+    onSuccess: (_, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
+      queryClient.invalidateQueries({ queryKey: MESSAGE_REQUESTS_QUERY_KEY });
+      if (action === "block") {
+        queryClient.invalidateQueries({ queryKey: ["/api/blocks"] });
+      }
+      if (action !== "accept") onDismissed();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to answer message request",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3 text-center">
+      <p className="text-sm text-muted-foreground">
+        {name} wants to message you. They won't see that you've read their messages unless you accept.
+      </p>
+      <div className="flex justify-center gap-2">
+        <Button onClick={() => respondMutation.mutate("accept")} disabled={respondMutation.isPending}>
+          <Check className="h-4 w-4 mr-2" />
+          Accept
+        </Button>
+        <Button variant="outline" onClick={() => respondMutation.mutate("decline")} disabled={respondMutation.isPending}>
+          <X className="h-4 w-4 mr-2" />
+          Decline
+        </Button>
+        <Button
+          variant="outline"
+          className="text-destructive"
+          onClick={() => respondMutation.mutate("block")}
+          disabled={respondMutation.isPending}
+        >
+          <Ban className="h-4 w-4 mr-2" />
+          Block
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { MessageSearchPage, MessageSearchResult } from "@shared/search";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DEBOUNCE_MS = 300;
+const SEARCH_PAGE_SIZE = 20;
+
+interface MessageSearchResultsProps {
+  query: string;
+  onSelect: (result: MessageSearchResult) => void;
+}
+
+export function MessageSearchResults({ query, onSelect }: MessageSearchResultsProps) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfiniteQuery<
+    MessageSearchPage, Error, { pages: MessageSearchPage[] }, unknown[], number | undefined
+  >({
+    queryKey: ["/api/messages/search", debouncedQuery],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ q: debouncedQuery, limit: String(SEARCH_PAGE_SIZE) });
+      if (pageParam !== undefined) params.set("before", String(pageParam));
+      const res = await apiRequest("GET", `/api/messages/search?${params}`);
+      return await res.json();
+    },
+    initialPageParam: undefined as number | undefined,
+    getNextPageParam: (page) => page.hasMore ? page.results.at(-1)?.messageId : undefined,
+    enabled: debouncedQuery.length > 0,
+  });
+  const results = data?.pages.flatMap(page => page.results) ?? [];
+
+  if (isLoading || debouncedQuery !== query.trim()) {
+    return <div className="flex justify-center py-4">Searching...</div>;
+  }
+  if (results.length === 0) {
+    return <p className="text-center text-muted-foreground py-6">No messages found</p>;
+  }
+
+  return (
+    <ScrollArea className="h-[500px]">
+      <div className="space-y-2">
+        {results.map(result => (
+          <div
+            key={result.messageId}
+            className="p-3 rounded-md cursor-pointer hover:bg-accent"
+            onClick={() => onSelect(result)}
+          >
+            <div className="flex items-baseline justify-between gap-2">
+              <p className="font-medium truncate">{result.conversationName}</p>
+              {result.createdAt && (
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {format(new Date(result.createdAt), "d MMM yyyy")}
+                </span>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground break-words">
+              {result.snippet.map((part, index) => part.match ? (
+                <mark key={index} className="bg-yellow-200 text-foreground rounded-sm">{part.text}</mark>
+              ) : (
+                <span key={index}>{part.text}</span>
+              ))}
+            </p>
+          </div>
+        ))}
+        {hasNextPage && (
+          <Button
+            variant="ghost"
+            className="w-full"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+          >
+            {isFetchingNextPage ? "Loading..." : "Show more results"}
+          </Button>
+        )}
+      </div>
+    </ScrollArea>
+  );
+}
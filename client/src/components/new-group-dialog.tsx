@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_GROUP_MEMBERS } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+// Someone who can be added to a group
+export interface GroupCandidate {
+  id: number;
+  name: string;
+}
+
+interface NewGroupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  candidates: GroupCandidate[];
+  onCreated: (conversationId: number) => void;
+}
+
+export function NewGroupDialog({ open, onOpenChange, candidates, onCreated }: NewGroupDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [memberIds, setMemberIds] = useState<number[]>([]);
+
+  const createGroupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/conversations/groups", { name: name.trim(), memberIds });
+      return (await res.json()) as { id: number };
+    },
+    onSuccess: async (conversation) => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
+      setName("");
+      setMemberIds([]);
+      onOpenChange(false);
+      onCreated(conversation.id);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create group",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMember = (id: number, checked: boolean) => {
+    setMemberIds(ids => checked ? [...ids, id] : ids.filter(existing => existing !== id));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>New group</DialogTitle>
+          <DialogDescription>
+            Plan a shared place with up to {MAX_GROUP_MEMBERS - 1} other people
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="group-name">Name</Label>
+            <Input
+              id="group-name"
+              placeholder="e.g. Elm Street flat"
+              value={name}
+              maxLength={60}
+              onChange={e => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Members</Label>
+            <ScrollArea className="h-[200px] rounded-md border p-2">
+              {candidates.map(candidate => (
+                <label key={candidate.id} className="flex items-center gap-2 p-2 rounded-md hover:bg-accent cursor-pointer">
+                  <Checkbox
+                    checked={memberIds.includes(candidate.id)}
+                    onCheckedChange={checked => toggleMember(candidate.id, checked === true)}
+                    disabled={!memberIds.includes(candidate.id) && memberIds.length >= MAX_GROUP_MEMBERS - 1}
+                  />
+                  <span>{candidate.name}</span>
+                </label>
+              ))}
+            </ScrollArea>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => createGroupMutation.mutate()}
+            disabled={!name.trim() || memberIds.length === 0 || createGroupMutation.isPending}
+          >
+            Create group
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { getAuthErrorBody } from "@/hooks/use-auth";
+import { forgotPasswordSchema, resetPasswordSchema } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Loader2 } from "lucide-react";
+
+type ForgotPasswordData = z.infer<typeof forgotPasswordSchema>;
+
+// Asks for the account's email and sends it a reset link
+export function ForgotPasswordForm({ onBack }: { onBack: () => void }) {
+  const { toast } = useToast();
+  const form = useForm<ForgotPasswordData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: "" },
+  });
+
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordData) => {
+      await apiRequest("POST", "/api/forgot-password", data);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send reset link",
+        description: getAuthErrorBody(error)?.message ?? error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (forgotPasswordMutation.isSuccess) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          If an account uses {forgotPasswordMutation.variables.email}, we've sent it a link to reset
+          the password. The link works once, for an hour.
+        </p>
+        <Button variant="outline" className="w-full" onClick={onBack}>
+          Back to login
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => forgotPasswordMutation.mutate(data))} className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Enter the email address of your account and we'll send you a link to reset your password.
+        </p>
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={forgotPasswordMutation.isPending}>
+          {forgotPasswordMutation.isPending && (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          )}
+          Send reset link
+        </Button>
+        <Button type="button" variant="ghost" className="w-full" onClick={onBack}>
+          Back to login
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+type ResetPasswordData = z.infer<typeof resetPasswordSchema>;
+
+// Sets a new password with the token from a reset link
+export function ResetPasswordForm({ token, onDone }: { token: string; onDone: () => void }) {
+  const { toast } = useToast();
+  const form = useForm<ResetPasswordData>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { token, password: "" },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (data: ResetPasswordData) => {
+      await apiRequest("POST", "/api/reset-password", data);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Password changed",
+        description: "Log in with your new password. You've been logged out on all your devices.",
+      });
+      onDone();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't reset password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => resetPasswordMutation.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={resetPasswordMutation.isPending}>
+          {resetPasswordMutation.isPending && (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          )}
+          Set new password
+        </Button>
+        <Button type="button" variant="ghost" className="w-full" onClick={onDone}>
+          Back to login
+        </Button>
+      </form>
+    </Form>
+  );
+}
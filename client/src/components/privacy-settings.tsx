@@ -0,0 +1,57 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { PrivacySettings as PrivacySettingsValues, SelfUser } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+export function PrivacySettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const privacyMutation = useMutation({
+    mutationFn: async (settings: PrivacySettingsValues) => {
+      const res = await apiRequest("PATCH", "/api/user/privacy", settings);
+      return (await res.json()) as SelfUser;
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving privacy settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user) return null;
+
+  return (
+    <Card className="max-w-3xl mx-auto mt-6">
+      <CardHeader>
+        <CardTitle>Privacy</CardTitle>
+        <CardDescription>Control what other people can see about you</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between space-x-4">
+          <div>
+            <Label htmlFor="show-last-seen">Show when I'm online</Label>
+            <p className="text-sm text-muted-foreground">
+              When off, the people you message won't see whether you're online or when you were last active
+            </p>
+          </div>
+          <Switch
+            id="show-last-seen"
+            checked={user.showLastSeen}
+            onCheckedChange={showLastSeen => privacyMutation.mutate({ showLastSeen })}
+            disabled={privacyMutation.isPending}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { REPORT_REASONS, type InsertReport } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const REASON_LABELS: Record<InsertReport["reason"], string> = {
+  "harassment": "Harassment or threats",
+  "spam": "Spam or scam",
+  "inappropriate": "Inappropriate content",
+  "fake-profile": "Fake profile",
+  "other": "Something else",
+};
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  reportedUserId: number;
+  reportedName: string;
+  // Report a specific message instead of the user's profile
+  messageId?: number;
+}
+
+export function ReportDialog({ open, onOpenChange, reportedUserId, reportedName, messageId }: ReportDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState<InsertReport["reason"]>("harassment");
+  const [details, setDetails] = useState("");
+  const [block, setBlock] = useState(true);
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      const report: InsertReport = messageId !== undefined
+        ? { messageId, reason, details: details || undefined, block }
+        : { reportedUserId, reason, details: details || undefined, block };
+      const res = await apiRequest("POST", "/api/reports", report);
+      return await res.json();
+    },
+    onSuccess: () => {
+      if (block) {
+        queryClient.invalidateQueries({ queryKey: ["/api/blocks"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/profiles"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/matches"] });
+      }
+      toast({
+        title: "Report sent",
+        description: "Thanks for letting us know. Our moderators will review it.",
+      });
+      setDetails("");
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error sending report",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>{messageId !== undefined ? "Report message" : `Report ${reportedName}`}</DialogTitle>
+          <DialogDescription>
+            Reports are only visible to moderators. {reportedName} won't be told who reported them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={value => setReason(value as InsertReport["reason"])}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REPORT_REASONS.map(value => (
+                  <SelectItem key={value} value={value}>{REASON_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Details (optional)</Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={e => setDetails(e.target.value)}
+              maxLength={2000}
+              placeholder="Anything that will help us understand what happened"
+            />
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox id="report-block" checked={block} onCheckedChange={checked => setBlock(checked === true)} />
+            <Label htmlFor="report-block">Also block {reportedName}</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            variant="destructive"
+            onClick={() => reportMutation.mutate()}
+            disabled={reportMutation.isPending}
+          >
+            Send Report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState, type FormEvent } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { TOTP_CODE_LENGTH } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Loader2 } from "lucide-react";
+
+interface TwoFactorCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  // Offer to type a recovery code instead of the app's code
+  allowRecoveryCode?: boolean;
+}
+
+// The 6-digit code from an authenticator app, or optionally a recovery code
+export function TwoFactorCodeInput({ value, onChange, disabled, allowRecoveryCode = false }: TwoFactorCodeInputProps) {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const toggle = () => {
+    onChange("");
+    setUseRecoveryCode(!useRecoveryCode);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>{useRecoveryCode ? "Recovery code" : "Authentication code"}</Label>
+      {useRecoveryCode ? (
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="xxxxx-xxxxx"
+          autoComplete="off"
+          disabled={disabled}
+          autoFocus
+        />
+      ) : (
+        <InputOTP
+          maxLength={TOTP_CODE_LENGTH}
+          value={value}
+          onChange={onChange}
+          inputMode="numeric"
+          pattern="^[0-9]*$"
+          autoComplete="one-time-code"
+          disabled={disabled}
+          autoFocus
+        >
+          <InputOTPGroup>
+            {Array.from({ length: TOTP_CODE_LENGTH }, (_, index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      )}
+      {allowRecoveryCode && (
+        <Button type="button" variant="link" className="h-auto p-0 text-sm" onClick={toggle}>
+          {useRecoveryCode ? "Use your authenticator app" : "Use a recovery code"}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// The second login step for accounts with 2FA on, after the password
+export function TwoFactorLoginForm({ onBack }: { onBack: () => void }) {
+  const { twoFactorLoginMutation } = useAuth();
+  const [code, setCode] = useState("");
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    twoFactorLoginMutation.mutate({ code }, {
+      onError: (error) => {
+        setCode("");
+        // Too many wrong codes or too slow: start over with the password
+        if (error.message.includes("password again")) onBack();
+      },
+    });
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Enter the code from your authenticator app to finish logging in.
+      </p>
+      <TwoFactorCodeInput
+        value={code}
+        onChange={setCode}
+        disabled={twoFactorLoginMutation.isPending}
+        allowRecoveryCode
+      />
+      <Button type="submit" className="w-full" disabled={twoFactorLoginMutation.isPending || !code.trim()}>
+        {twoFactorLoginMutation.isPending && (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        )}
+        Verify
+      </Button>
+      <Button type="button" variant="ghost" className="w-full" onClick={onBack}>
+        Back to login
+      </Button>
+    </form>
+  );
+}
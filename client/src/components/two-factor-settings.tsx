@@ -0,0 +1,240 @@
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Copy, Loader2, ShieldCheck } from "lucide-react";
+import { TwoFactorCodeInput } from "./two-factor-forms";
+
+const TWO_FACTOR_QUERY_KEY = ["/api/user/2fa"];
+
+// What needs the password and a code again before it happens
+type ReauthAction = "disable" | "recovery-codes";
+
+// Lists recovery codes, which the server only shows once
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast({ title: "Recovery codes copied" });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes somewhere safe. Each one logs you in once if you lose your
+        authenticator app. You won't be able to see them again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm">
+        {codes.map(code => <li key={code}>{code}</li>)}
+      </ul>
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={copy}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+        <Button onClick={onDone}>I've saved them</Button>
+      </div>
+    </div>
+  );
+}
+
+// Opt-in TOTP two-factor authentication
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [setupCode, setSetupCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [reauthAction, setReauthAction] = useState<ReauthAction | null>(null);
+  const [password, setPassword] = useState("");
+  const [reauthCode, setReauthCode] = useState("");
+
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey: TWO_FACTOR_QUERY_KEY,
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/setup");
+      return (await res.json()) as TwoFactorSetup;
+    },
+    onSuccess: (data) => {
+      setSetupCode("");
+      setSetup(data);
+    },
+    onError: showError("Couldn't start two-factor setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/user/2fa/enable", { code });
+      return (await res.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: TWO_FACTOR_QUERY_KEY });
+    },
+    onError: (error: Error) => {
+      setSetupCode("");
+      showError("Couldn't turn on two-factor authentication")(error);
+    },
+  });
+
+  const reauthMutation = useMutation({
+    mutationFn: async (action: ReauthAction) => {
+      const res = await apiRequest("POST", `/api/user/2fa/${action}`, { password, code: reauthCode });
+      return action === "recovery-codes" ? ((await res.json()) as { recoveryCodes: string[] }) : null;
+    },
+    onSuccess: (data) => {
+      closeReauthDialog();
+      queryClient.invalidateQueries({ queryKey: TWO_FACTOR_QUERY_KEY });
+      if (data) {
+        setRecoveryCodes(data.recoveryCodes);
+      } else {
+        toast({ title: "Two-factor authentication is off" });
+      }
+    },
+    onError: (error: Error) => {
+      setReauthCode("");
+      showError("Couldn't confirm it's you")(error);
+    },
+  });
+
+  const closeReauthDialog = () => {
+    setReauthAction(null);
+    setPassword("");
+    setReauthCode("");
+  };
+
+  const submitSetupCode = (e: FormEvent) => {
+    e.preventDefault();
+    enableMutation.mutate(setupCode);
+  };
+
+  const submitReauth = (e: FormEvent) => {
+    e.preventDefault();
+    if (reauthAction) reauthMutation.mutate(reauthAction);
+  };
+
+  if (!status) return null;
+
+  return (
+    <Card className="max-w-3xl mx-auto mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-factor authentication
+          {status.enabled && <ShieldCheck className="h-5 w-5 text-primary" />}
+        </CardTitle>
+        <CardDescription>
+          {status.enabled
+            ? `On. Logging in takes a code from your authenticator app. You have ${status.recoveryCodesRemaining} unused recovery codes.`
+            : "Protect your account with a code from an authenticator app, asked for after your password"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {recoveryCodes ? (
+          <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />
+        ) : setup ? (
+          <form onSubmit={submitSetupCode} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Add RoommateFinder to your authenticator app by opening{" "}
+              <a href={setup.otpauthUri} className="underline">this setup link</a>{" "}
+              on your phone, or by entering this key:
+            </p>
+            <p className="rounded-md bg-muted p-3 font-mono text-sm break-all">
+              {setup.secret.match(/.{1,4}/g)!.join(" ")}
+            </p>
+            <TwoFactorCodeInput value={setupCode} onChange={setSetupCode} disabled={enableMutation.isPending} />
+            <div className="flex gap-2">
+              <Button type="submit" disabled={enableMutation.isPending || setupCode.length === 0}>
+                {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Turn on
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setSetup(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : status.enabled ? (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setReauthAction("recovery-codes")}>
+              New recovery codes
+            </Button>
+            <Button variant="outline" className="text-destructive" onClick={() => setReauthAction("disable")}>
+              Turn off
+            </Button>
+          </div>
+        ) : (
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+            {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Set up two-factor authentication
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={reauthAction !== null} onOpenChange={(open) => !open && closeReauthDialog()}>
+        <DialogContent className="sm:max-w-[425px]">
+          <form onSubmit={submitReauth} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>
+                {reauthAction === "disable" ? "Turn off two-factor authentication" : "Replace recovery codes"}
+              </DialogTitle>
+              <DialogDescription>
+                {reauthAction === "disable"
+                  ? "Confirm it's you with your password and a code."
+                  : "Confirm it's you with your password and a code. Your current recovery codes will stop working."}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="reauth-password">Password</Label>
+              <Input
+                id="reauth-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <TwoFactorCodeInput
+              value={reauthCode}
+              onChange={setReauthCode}
+              disabled={reauthMutation.isPending}
+              allowRecoveryCode
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closeReauthDialog}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                variant={reauthAction === "disable" ? "destructive" : "default"}
+                disabled={reauthMutation.isPending || !password || !reauthCode.trim()}
+              >
+                {reauthMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {reauthAction === "disable" ? "Turn off" : "Replace codes"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
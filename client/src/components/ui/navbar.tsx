@@ -9,7 +9,7 @@ import {
   DropdownMenuTrigger,
   DropdownMenuSeparator
 } from "./dropdown-menu";
-import { UserRound, Users, MessageSquare } from "lucide-react";
+import { UserRound, Users, MessageSquare, HeartHandshake } from "lucide-react";
 
 export default function Navbar() {
   const { user, logoutMutation } = useAuth();
@@ -36,6 +36,16 @@ export default function Navbar() {
                 <span>Matches</span>
               </Button>
             </Link>
+            <Link href="/mutual-matches">
+              <Button 
+                variant={location === "/mutual-matches" ? "default" : "ghost"}
+                size="sm"
+                className="flex gap-1 items-center"
+              >
+                <HeartHandshake className="h-4 w-4" />
+                <span>Mutual Matches</span>
+              </Button>
+            </Link>
             <Link href="/profile">
               <Button 
                 variant={location === "/profile" ? "default" : "ghost"}
@@ -90,6 +100,14 @@ export default function Navbar() {
                   </div>
                 </Link>
               </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <Link href="/mutual-matches">
+                  <div className="flex items-center cursor-pointer w-full">
+                    <HeartHandshake className="w-4 h-4 mr-2" />
+                    Mutual Matches
+                  </div>
+                </Link>
+              </DropdownMenuItem>
               <DropdownMenuItem asChild>
                 <Link href="/messaging">
                   <div className="flex items-center cursor-pointer w-full">
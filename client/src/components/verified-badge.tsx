@@ -0,0 +1,11 @@
+import { BadgeCheck } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+// Marks someone who has confirmed their email address
+export function VerifiedBadge({ className }: { className?: string }) {
+  return (
+    <span title="Verified email" className="inline-flex">
+      <BadgeCheck className={cn("h-5 w-5 shrink-0 text-primary", className)} aria-label="Verified email" />
+    </span>
+  );
+}
@@ -4,21 +4,43 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
-import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
+import {
+  insertUserSchema,
+  SelfUser as SelectUser,
+  InsertUser,
+  type AuthErrorBody,
+  type TwoFactorChallenge,
+} from "@shared/schema";
+import { getQueryFn, apiRequest, queryClient, ApiError } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  // Resolves to a challenge instead of the user when the account has 2FA on;
+  // twoFactorLoginMutation then finishes logging in
+  loginMutation: UseMutationResult<SelectUser | TwoFactorChallenge, Error, LoginData>;
+  twoFactorLoginMutation: UseMutationResult<SelectUser, Error, TwoFactorLoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
   refetchUser: () => Promise<any>;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
+type TwoFactorLoginData = { code: string };
+
+// The structured body the login and register endpoints send with errors
+export function getAuthErrorBody(error: Error): AuthErrorBody | undefined {
+  if (error instanceof ApiError && typeof error.body === "object" && error.body && "message" in error.body) {
+    return error.body as AuthErrorBody;
+  }
+  return undefined;
+}
+
+function getAuthErrorMessage(error: Error) {
+  return getAuthErrorBody(error)?.message ?? error.message;
+}
 
 export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -40,15 +62,34 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
+    onSuccess: (result: SelectUser | TwoFactorChallenge) => {
+      if ("twoFactorRequired" in result) return;
+      queryClient.setQueryData(["/api/user"], result);
+      // Invalidate the profile cache to ensure we don't show stale data from other users
+      queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: getAuthErrorMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const twoFactorLoginMutation = useMutation({
+    mutationFn: async (data: TwoFactorLoginData) => {
+      const res = await apiRequest("POST", "/api/login/2fa", data);
+      return await res.json();
+    },
     onSuccess: (user: SelectUser) => {
       queryClient.setQueryData(["/api/user"], user);
-      // Invalidate the profile cache to ensure we don't show stale data from other users
       queryClient.invalidateQueries({ queryKey: ["/api/profile"] });
     },
     onError: (error: Error) => {
       toast({
         title: "Login failed",
-        description: error.message,
+        description: getAuthErrorMessage(error),
         variant: "destructive",
       });
     },
@@ -67,7 +108,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     onError: (error: Error) => {
       toast({
         title: "Registration failed",
-        description: error.message,
+        description: getAuthErrorMessage(error),
         variant: "destructive",
       });
     },
@@ -98,6 +139,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorLoginMutation,
         logoutMutation,
         registerMutation,
         refetchUser,
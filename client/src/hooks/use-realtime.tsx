@@ -0,0 +1,165 @@
+import { createContext, ReactNode, useContext, useEffect, useRef, useState } from "react";
+import { REALTIME_PATH, TYPING_TIMEOUT_MS, type Presence, type RealtimeEvent } from "@shared/realtime";
+import { apiRequest, queryClient } from "../lib/queryClient";
+import {
+  ARCHIVED_CONVERSATIONS_QUERY_KEY,
+  MESSAGE_REQUESTS_QUERY_KEY,
+  addMessage,
+  markMessagesRead,
+  removeMessage,
+  updateMessage,
+} from "../lib/message-cache";
+import { useAuth } from "./use-auth";
+
+// Reconnect delays grow from 1s up to 30s while the server is unreachable
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+type RealtimeContextType = {
+  // False while the socket is down; pages fall back to polling then
+  connected: boolean;
+  // Conversations where someone else is currently typing
+  typingConversationIds: ReadonlySet<number>;
+  // The conversation on screen, if any; messages arriving in it are marked read
+  setOpenConversationId: (conversationId: number | null) => void;
+};
+
+export const RealtimeContext = createContext<RealtimeContextType | null>(null);
+
+function applyEvent(event: RealtimeEvent) {
+  switch (event.type) {
+    case "message:new":
+      addMessage(event.conversationId, event.message);
+      break;
+    case "message:updated":
+      updateMessage(event.conversationId, event.message);
+      break;
+    case "message:hidden":
+      removeMessage(event.conversationId, event.messageId);
+      break;
+    case "messages:read":
+      markMessagesRead(event.conversationId, event.readerId, event.readAt);
+      break;
+    case "conversation:updated":
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
+      queryClient.invalidateQueries({ queryKey: ARCHIVED_CONVERSATIONS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: MESSAGE_REQUESTS_QUERY_KEY });
+      break;
+    case "presence": {
+      type Member = { id: number; presence: Presence };
+      const withPresence = <T extends Member | null>(member: T): T =>
+        member && member.id === event.userId ? { ...member, presence: event.presence } : member;
+      for (const queryKey of [["/api/conversations"], ARCHIVED_CONVERSATIONS_QUERY_KEY, MESSAGE_REQUESTS_QUERY_KEY]) {
+        queryClient.setQueryData(
+          queryKey,
+          (conversations: { otherUser: Member | null; members: Member[] }[] | undefined) =>
+            conversations?.map(conversation => ({
+              ...conversation,
+              otherUser: withPresence(conversation.otherUser),
+              members: conversation.members.map(withPresence),
+            })),
+        );
+      }
+      break;
+    }
+  }
+}
+
+export function RealtimeProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [connected, setConnected] = useState(false);
+  const [typingConversationIds, setTypingConversationIds] = useState<ReadonlySet<number>>(new Set());
+  const openConversationIdRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectDelay = MIN_RECONNECT_DELAY_MS;
+    let stopped = false;
+    // Typing indicators expire unless the other person keeps typing
+    const typingTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+    const setTyping = (conversationId: number, typing: boolean) => {
+      clearTimeout(typingTimers.get(conversationId));
+      typingTimers.delete(conversationId);
+      if (typing) {
+        typingTimers.set(conversationId, setTimeout(() => setTyping(conversationId, false), TYPING_TIMEOUT_MS));
+      }
+      setTypingConversationIds(new Set(typingTimers.keys()));
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}`);
+
+      socket.onopen = () => {
+        reconnectDelay = MIN_RECONNECT_DELAY_MS;
+        setConnected(true);
+        // Catch up on anything that happened while the socket was down
+        queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          const realtimeEvent = JSON.parse(event.data) as RealtimeEvent;
+          if (realtimeEvent.type === "typing") {
+            setTyping(realtimeEvent.conversationId, true);
+          } else if (realtimeEvent.type === "message:new" && realtimeEvent.message.senderId !== user.id) {
+            // Their message has arrived, so they've stopped typing it
+            setTyping(realtimeEvent.conversationId, false);
+            // Nothing polls while the socket is up, so read it here if it's on screen
+            if (realtimeEvent.conversationId === openConversationIdRef.current) {
+              apiRequest("POST", `/api/conversations/${realtimeEvent.conversationId}/read`).catch(error => {
+                console.error("Failed to mark messages read:", error);
+              });
+            }
+          }
+          applyEvent(realtimeEvent);
+        } catch (error) {
+          console.error("Ignoring malformed realtime event:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        setConnected(false);
+        typingTimers.forEach(timer => clearTimeout(timer));
+        typingTimers.clear();
+        setTypingConversationIds(new Set());
+        if (stopped) return;
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+      setConnected(false);
+    };
+  }, [user?.id]);
+
+  return (
+    <RealtimeContext.Provider
+      value={{
+        connected,
+        typingConversationIds,
+        setOpenConversationId: (conversationId) => { openConversationIdRef.current = conversationId; },
+      }}
+    >
+      {children}
+    </RealtimeContext.Provider>
+  );
+}
+
+export function useRealtime() {
+  const context = useContext(RealtimeContext);
+  if (!context) {
+    throw new Error("useRealtime must be used within a RealtimeProvider");
+  }
+  return context;
+}
@@ -0,0 +1,106 @@
+import type { InfiniteData } from "@tanstack/react-query";
+import type { ChatMessage, MessagePage } from "@shared/schema";
+import { apiRequest, queryClient } from "./queryClient";
+
+// Messages are cached per conversation as an infinite query. The first page
+// holds the latest messages and each following page goes further back in
+// history, so new messages are always merged into pages[0]. After jumping to
+// an older message, pages[0] is the page around it instead and has hasNewer
+// set until the conversation is reloaded from the latest page.
+
+export const MESSAGE_PAGE_SIZE = 30;
+
+export type MessagePages = InfiniteData<MessagePage, number | undefined>;
+
+export function messagesQueryKey(conversationId: number | undefined) {
+  return ["/api/conversations", conversationId, "messages"];
+}
+
+// Archived conversations and message requests are listed apart from ["/api/conversations"]
+export const ARCHIVED_CONVERSATIONS_QUERY_KEY = ["/api/conversations?archived=true"];
+export const MESSAGE_REQUESTS_QUERY_KEY = ["/api/conversations?requests=true"];
+
+// All loaded messages, oldest first
+export function flattenMessagePages(data: MessagePages | undefined): ChatMessage[] {
+  return data ? [...data.pages].reverse().flatMap(page => page.messages) : [];
+}
+
+// Adds new messages and replaces updated copies of ones already loaded.
+// A latest page that doesn't reach back to what is cached leaves a gap, in
+// which case the conversation is reloaded from the latest page instead.
+export function mergeMessages(conversationId: number, latest: MessagePage) {
+  const queryKey = messagesQueryKey(conversationId);
+  const data = queryClient.getQueryData<MessagePages>(queryKey);
+  if (!data) return;
+
+  // New messages would land past the unloaded ones after a jump, so only the
+  // loaded copies are updated until the user goes back to the latest page
+  const detached = data.pages[0].hasNewer === true;
+  const newestCachedId = data.pages[0].messages.at(-1)?.id ?? 0;
+  const oldestFetchedId = latest.messages[0]?.id ?? 0;
+  if (!detached && latest.hasMore && oldestFetchedId > newestCachedId) {
+    queryClient.resetQueries({ queryKey, exact: true });
+    return;
+  }
+
+  queryClient.setQueryData<MessagePages>(queryKey, {
+    ...data,
+    pages: data.pages.map((page, index) => {
+      const messages = page.messages.map(message =>
+        latest.messages.find(updated => updated.id === message.id) ?? message);
+      if (index === 0 && !detached) {
+        messages.push(...latest.messages.filter(message => message.id > newestCachedId));
+      }
+      return { ...page, messages };
+    }),
+  });
+}
+
+// Replaces the loaded history with the page around a message, so jumping to
+// an old message doesn't load everything in between
+export async function loadMessagesAround(conversationId: number, messageId: number) {
+  const res = await apiRequest(
+    "GET",
+    `/api/conversations/${conversationId}/messages?around=${messageId}&limit=${MESSAGE_PAGE_SIZE}`,
+  );
+  const page: MessagePage = await res.json();
+  queryClient.setQueryData<MessagePages>(messagesQueryKey(conversationId), {
+    pages: [page],
+    pageParams: [undefined],
+  });
+}
+
+// Drops a jumped-to page and loads the conversation from the latest messages
+export function showLatestMessages(conversationId: number) {
+  queryClient.resetQueries({ queryKey: messagesQueryKey(conversationId), exact: true });
+}
+
+export function addMessage(conversationId: number, message: ChatMessage) {
+  mergeMessages(conversationId, { messages: [message], hasMore: false });
+}
+
+function updatePages(conversationId: number, update: (messages: ChatMessage[]) => ChatMessage[]) {
+  queryClient.setQueryData<MessagePages>(messagesQueryKey(conversationId), data => data && {
+    ...data,
+    pages: data.pages.map(page => ({ ...page, messages: update(page.messages) })),
+  });
+}
+
+// Replaces a loaded message after it was edited, deleted or reacted to
+export function updateMessage(conversationId: number, message: ChatMessage) {
+  updatePages(conversationId, messages =>
+    messages.map(existing => existing.id === message.id ? message : existing));
+}
+
+export function removeMessage(conversationId: number, messageId: number) {
+  updatePages(conversationId, messages => messages.filter(message => message.id !== messageId));
+}
+
+// Marks the messages sent to readerId as read at readAt
+export function markMessagesRead(conversationId: number, readerId: number, readAt: string) {
+  updatePages(conversationId, messages =>
+    messages.map(message =>
+      message.receiverId === readerId && !message.read
+        ? { ...message, read: true, readAt: new Date(readAt) }
+        : message));
+}
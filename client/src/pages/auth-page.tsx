@@ -1,4 +1,5 @@
-import { useAuth } from "@/hooks/use-auth";
+import { useState } from "react";
+import { useAuth, getAuthErrorBody } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -12,16 +13,41 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { useForm } from "react-hook-form";
+import { useForm, type FieldValues, type Path, type UseFormReturn } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertUserSchema, type InsertUser } from "@shared/schema";
+import { insertUserSchema, registerUserSchema, emailSchema, type InsertUser } from "@shared/schema";
+import { ForgotPasswordForm, ResetPasswordForm } from "@/components/password-reset-forms";
+import { TwoFactorLoginForm } from "@/components/two-factor-forms";
 import { Redirect } from "wouter";
 import { Loader2 } from "lucide-react";
 
 type AuthFormData = Pick<InsertUser, "username" | "password">;
+type RegisterFormData = AuthFormData & { email: string };
+
+// Puts the server's per-field errors next to the fields they're about
+function showFieldErrors<T extends FieldValues>(form: UseFormReturn<T>, error: Error) {
+  const fieldErrors = getAuthErrorBody(error)?.fieldErrors ?? {};
+  for (const [field, message] of Object.entries(fieldErrors)) {
+    if (field in form.getValues()) form.setError(field as Path<T>, { message });
+  }
+}
+
+// Reset links from emails open /auth?resetToken=...
+function getResetToken() {
+  return new URLSearchParams(window.location.search).get("resetToken");
+}
 
 export default function AuthPage() {
   const { user, loginMutation, registerMutation } = useAuth();
+  const [view, setView] = useState<"tabs" | "forgot-password" | "reset-password" | "two-factor">(
+    getResetToken() ? "reset-password" : "tabs",
+  );
+
+  const backToLogin = () => {
+    // Drop the used reset token from the address bar
+    window.history.replaceState(null, "", window.location.pathname);
+    setView("tabs");
+  };
 
   const loginForm = useForm<AuthFormData>({
     resolver: zodResolver(insertUserSchema.pick({ username: true, password: true })),
@@ -31,10 +57,11 @@ export default function AuthPage() {
     },
   });
 
-  const registerForm = useForm<AuthFormData>({
-    resolver: zodResolver(insertUserSchema.pick({ username: true, password: true })),
+  const registerForm = useForm<RegisterFormData>({
+    resolver: zodResolver(registerUserSchema.pick({ username: true, password: true }).extend({ email: emailSchema })),
     defaultValues: {
       username: "",
+      email: "",
       password: "",
     },
   });
@@ -48,101 +75,144 @@ export default function AuthPage() {
       <div className="flex items-center justify-center p-8">
         <Card className="w-full max-w-md">
           <CardHeader>
-            <CardTitle>Welcome to RoommateFinder</CardTitle>
+            <CardTitle>
+              {view === "tabs"
+                ? "Welcome to RoommateFinder"
+                : view === "forgot-password"
+                  ? "Forgot password"
+                  : view === "two-factor"
+                    ? "Two-factor authentication"
+                    : "Choose a new password"}
+            </CardTitle>
           </CardHeader>
           <CardContent>
-            <Tabs defaultValue="login">
-              <TabsList className="grid w-full grid-cols-2">
-                <TabsTrigger value="login">Login</TabsTrigger>
-                <TabsTrigger value="register">Register</TabsTrigger>
-              </TabsList>
+            {view === "forgot-password" ? (
+              <ForgotPasswordForm onBack={backToLogin} />
+            ) : view === "two-factor" ? (
+              <TwoFactorLoginForm onBack={backToLogin} />
+            ) : view === "reset-password" ? (
+              <ResetPasswordForm token={getResetToken() ?? ""} onDone={backToLogin} />
+            ) : (
+              <Tabs defaultValue="login">
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="login">Login</TabsTrigger>
+                  <TabsTrigger value="register">Register</TabsTrigger>
+                </TabsList>
 
-              <TabsContent value="login">
-                <Form {...loginForm}>
-                  <form onSubmit={loginForm.handleSubmit((data) => loginMutation.mutate(data))} className="space-y-4">
-                    <FormField
-                      control={loginForm.control}
-                      name="username"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Username</FormLabel>
-                          <FormControl>
-                            <Input {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={loginForm.control}
-                      name="password"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Password</FormLabel>
-                          <FormControl>
-                            <Input type="password" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <Button
-                      type="submit"
-                      className="w-full"
-                      disabled={loginMutation.isPending}
-                    >
-                      {loginMutation.isPending && (
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      )}
-                      Login
-                    </Button>
-                  </form>
-                </Form>
-              </TabsContent>
+                <TabsContent value="login">
+                  <Form {...loginForm}>
+                    <form onSubmit={loginForm.handleSubmit((data) => loginMutation.mutate(data, {
+                      onSuccess: (result) => {
+                        if ("twoFactorRequired" in result) setView("two-factor");
+                      },
+                    }))} className="space-y-4">
+                      <FormField
+                        control={loginForm.control}
+                        name="username"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Username</FormLabel>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={loginForm.control}
+                        name="password"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Password</FormLabel>
+                            <FormControl>
+                              <Input type="password" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="submit"
+                        className="w-full"
+                        disabled={loginMutation.isPending}
+                      >
+                        {loginMutation.isPending && (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Login
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="link"
+                        className="w-full"
+                        onClick={() => setView("forgot-password")}
+                      >
+                        Forgot password?
+                      </Button>
+                    </form>
+                  </Form>
+                </TabsContent>
 
-              <TabsContent value="register">
-                <Form {...registerForm}>
-                  <form onSubmit={registerForm.handleSubmit((data) => registerMutation.mutate(data))} className="space-y-4">
-                    <FormField
-                      control={registerForm.control}
-                      name="username"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Username</FormLabel>
-                          <FormControl>
-                            <Input {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={registerForm.control}
-                      name="password"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Password</FormLabel>
-                          <FormControl>
-                            <Input type="password" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <Button
-                      type="submit"
-                      className="w-full"
-                      disabled={registerMutation.isPending}
-                    >
-                      {registerMutation.isPending && (
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      )}
-                      Register
-                    </Button>
-                  </form>
-                </Form>
-              </TabsContent>
-            </Tabs>
+                <TabsContent value="register">
+                  <Form {...registerForm}>
+                    <form onSubmit={registerForm.handleSubmit((data) => registerMutation.mutate(data, {
+                      onError: (error) => showFieldErrors(registerForm, error),
+                    }))} className="space-y-4">
+                      <FormField
+                        control={registerForm.control}
+                        name="username"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Username</FormLabel>
+                            <FormControl>
+                              <Input {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={registerForm.control}
+                        name="email"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Email</FormLabel>
+                            <FormControl>
+                              <Input type="email" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={registerForm.control}
+                        name="password"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Password</FormLabel>
+                            <FormControl>
+                              <Input type="password" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <Button
+                        type="submit"
+                        className="w-full"
+                        disabled={registerMutation.isPending}
+                      >
+                        {registerMutation.isPending && (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Register
+                      </Button>
+                    </form>
+                  </Form>
+                </TabsContent>
+              </Tabs>
+            )}
           </CardContent>
         </Card>
       </div>
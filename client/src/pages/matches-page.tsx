@@ -6,102 +6,15 @@ import { useAuth } from "@/hooks/use-auth";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { UserProfile } from "@shared/schema";
-import { Loader2, UserRound, MapPin, Banknote, Heart, Filter } from "lucide-react";
+import type { MatchPage } from "@shared/matching";
+import type { MatchDecisionValue, MutualMatch } from "@shared/schema";
+import { Loader2, UserRound, MapPin, Banknote, Heart, Filter, ChevronLeft, ChevronRight, MessageSquare, X } from "lucide-react";
 import { Link } from "wouter";
 import { MatchDetailsDialog } from "@/components/match-details-dialog";
 import { MatchGauge } from "@/components/match-gauge";
+import { VerifiedBadge } from "@/components/verified-badge";
 import { useState } from "react";
 
-// Define Match type with calculated percentage
-interface MatchWithPercentage extends UserProfile {
-  calculatedMatchPercentage: number;
-}
-
-// Helper to calculate match percentage based on common interests, hobbies, etc.
-function calculateMatchPercentage(userProfile: UserProfile | null, otherProfile: UserProfile): number {
-  if (!userProfile) return 0;
-
-  let points = 0;
-  let maxPoints = 0;
-
-  // Match on lifestyle
-  if (userProfile.lifestyle && otherProfile.lifestyle) {
-    maxPoints += 20;
-    if (userProfile.lifestyle === otherProfile.lifestyle) {
-      points += 20;
-    }
-  }
-
-  // Match on cleanliness
-  if (userProfile.cleanliness && otherProfile.cleanliness) {
-    maxPoints += 15;
-    if (userProfile.cleanliness === otherProfile.cleanliness) {
-      points += 15;
-    }
-  }
-
-  // Match on smoking preference
-  if (userProfile.smokingPreference && otherProfile.smokingPreference) {
-    maxPoints += 15;
-    if (userProfile.smokingPreference === otherProfile.smokingPreference) {
-      points += 15;
-    }
-  }
-
-  // Match on pet preference
-  if (userProfile.petPreference && otherProfile.petPreference) {
-    maxPoints += 10;
-    if (userProfile.petPreference === otherProfile.petPreference) {
-      points += 10;
-    }
-  }
-
-  // Match on common hobbies
-  if (userProfile.hobbies && otherProfile.hobbies) {
-    const userHobbies = userProfile.hobbies;
-    const otherHobbies = otherProfile.hobbies;
-    
-    maxPoints += 20;
-    
-    // Calculate intersection
-    const commonHobbies = userHobbies.filter(hobby => 
-      otherHobbies.some(otherHobby => 
-        otherHobby.toLowerCase() === hobby.toLowerCase()
-      )
-    );
-    
-    // Award points based on percentage of common hobbies
-    const hobbyMatchPercentage = commonHobbies.length / Math.max(userHobbies.length, 1);
-    points += hobbyMatchPercentage * 20;
-  }
-
-  // Match on common interests
-  if (userProfile.interests && otherProfile.interests) {
-    const userInterests = userProfile.interests;
-    const otherInterests = otherProfile.interests;
-    
-    maxPoints += 20;
-    
-    // Calculate intersection
-    const commonInterests = userInterests.filter(interest => 
-      otherInterests.some(otherInterest => 
-        otherInterest.toLowerCase() === interest.toLowerCase()
-      )
-    );
-    
-    // Award points based on percentage of common interests
-    const interestMatchPercentage = commonInterests.length / Math.max(userInterests.length, 1);
-    points += interestMatchPercentage * 20;
-  }
-
-  // Ensure maxPoints is at least 1 to avoid division by zero
-  maxPoints = Math.max(maxPoints, 1);
-  
-  // Calculate and return match percentage
-  return Math.round((points / maxPoints) * 100);
-}
-
 export default function MatchesPage() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -110,6 +23,8 @@ export default function MatchesPage() {
   const [filterByLifestyle, setFilterByLifestyle] = useState<string | null>(null);
   const [filterByCleanliness, setFilterByCleanliness] = useState<string | null>(null);
   const [sortOrder, setSortOrder] = useState<"match" | "budget">("match");
+  const [page, setPage] = useState(1);
+  const hasActiveFilters = minMatchPercentage > 0 || !!filterByLifestyle || !!filterByCleanliness;
   
   // Start conversation mutation
   const startConversationMutation = useMutation({
@@ -137,6 +52,36 @@ export default function MatchesPage() {
     },
   });
 
+  // Like or pass on a candidate
+  const decisionMutation = useMutation({
+    mutationFn: async (body: { targetUserId: number; decision: MatchDecisionValue }) => {
+      const res = await apiRequest("POST", "/api/match-decisions", body);
+      return await res.json() as { mutualMatch?: MutualMatch };
+    },
+    onSuccess: (data, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/matches"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/mutual-matches"] });
+      if (decision === "like" && data.mutualMatch) {
+        toast({
+          title: "It's a match!",
+          description: "You both liked each other. You can now send them a message.",
+        });
+      } else if (decision === "pass") {
+        toast({
+          title: "Profile hidden",
+          description: "You won't see this person in your matches again",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving your choice",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Fetch current user's profile
   const { data: userProfile, isLoading: isLoadingUserProfile } = useQuery({
     queryKey: ["/api/profile"],
@@ -151,16 +96,40 @@ export default function MatchesPage() {
     },
   });
 
-  // Fetch potential matches
-  const { data: matches, isLoading: isLoadingMatches } = useQuery({
-    queryKey: ["/api/profiles"],
+  // Fetch ranked matches; filtering, sorting and scoring all happen on the server
+  const matchParams = new URLSearchParams({
+    page: String(page),
+    minScore: String(minMatchPercentage),
+    sort: sortOrder,
+    ...(filterByLifestyle ? { lifestyle: filterByLifestyle } : {}),
+    ...(filterByCleanliness ? { cleanliness: filterByCleanliness } : {}),
+  });
+  const { data: matchPage, isLoading: isLoadingMatches } = useQuery<MatchPage | null>({
+    queryKey: ["/api/matches", matchParams.toString()],
     queryFn: async ({ signal }) => {
-      const res = await fetch("/api/profiles", { signal });
-      if (!res.ok) return [];
+      const res = await fetch(`/api/matches?${matchParams}`, { signal });
+      if (!res.ok) return null;
       return await res.json();
     },
     enabled: !!userProfile, // Only fetch matches if user profile exists
+    placeholderData: (previousData) => previousData,
   });
+  const matches = matchPage?.matches ?? [];
+  const totalMatches = matchPage?.total ?? 0;
+  const pageCount = matchPage ? Math.max(1, Math.ceil(matchPage.total / matchPage.pageSize)) : 1;
+
+  // Any filter change starts again from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const resetFilters = () => {
+    setMinMatchPercentage(0);
+    setFilterByLifestyle(null);
+    setFilterByCleanliness(null);
+    setPage(1);
+  };
 
   if (isLoadingUserProfile || isLoadingMatches) {
     return (
@@ -190,29 +159,6 @@ export default function MatchesPage() {
     );
   }
 
-  // Filter and sort matches
-  const filteredAndSortedMatches = [...(matches || [])]
-    // First calculate match percentages for each
-    .map(match => ({
-      ...match,
-      calculatedMatchPercentage: calculateMatchPercentage(userProfile, match)
-    }))
-    // Apply filters
-    .filter(match => match.calculatedMatchPercentage >= minMatchPercentage)
-    .filter(match => !filterByLifestyle || match.lifestyle === filterByLifestyle)
-    .filter(match => !filterByCleanliness || match.cleanliness === filterByCleanliness)
-    // Sort by selected criteria
-    .sort((a, b) => {
-      if (sortOrder === "match") {
-        return b.calculatedMatchPercentage - a.calculatedMatchPercentage;
-      } else {
-        // Sort by budget (lowest first)
-        const budgetA = a.budget || 0;
-        const budgetB = b.budget || 0;
-        return budgetA - budgetB;
-      }
-    });
-
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="mb-8 text-center">
@@ -233,9 +179,7 @@ export default function MatchesPage() {
             variant="ghost" 
             size="sm"
             onClick={() => {
-              setMinMatchPercentage(0);
-              setFilterByLifestyle(null);
-              setFilterByCleanliness(null);
+              resetFilters();
               setSortOrder("match");
             }}
           >
@@ -256,7 +200,7 @@ export default function MatchesPage() {
               max="90" 
               step="10"
               value={minMatchPercentage}
-              onChange={e => setMinMatchPercentage(parseInt(e.target.value))}
+              onChange={e => updateFilter(setMinMatchPercentage)(parseInt(e.target.value))}
               className="w-full"
             />
           </div>
@@ -266,7 +210,7 @@ export default function MatchesPage() {
             <label className="text-sm font-medium">Lifestyle</label>
             <select 
               value={filterByLifestyle || ""}
-              onChange={e => setFilterByLifestyle(e.target.value || null)}
+              onChange={e => updateFilter(setFilterByLifestyle)(e.target.value || null)}
               className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
             >
               <option value="">Any Lifestyle</option>
@@ -282,7 +226,7 @@ export default function MatchesPage() {
             <label className="text-sm font-medium">Cleanliness</label>
             <select 
               value={filterByCleanliness || ""}
-              onChange={e => setFilterByCleanliness(e.target.value || null)}
+              onChange={e => updateFilter(setFilterByCleanliness)(e.target.value || null)}
               className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
             >
               <option value="">Any Cleanliness</option>
@@ -298,7 +242,7 @@ export default function MatchesPage() {
             <label className="text-sm font-medium">Sort By</label>
             <select 
               value={sortOrder}
-              onChange={e => setSortOrder(e.target.value as "match" | "budget")}
+              onChange={e => updateFilter(setSortOrder)(e.target.value as "match" | "budget")}
               className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
             >
               <option value="match">Match Percentage</option>
@@ -309,186 +253,242 @@ export default function MatchesPage() {
         
         {/* Results summary */}
         <div className="mt-4 text-sm text-muted-foreground">
-          Showing {filteredAndSortedMatches.length} of {matches?.length || 0} potential roommates
+          Showing {matches.length} of {totalMatches} potential roommates
         </div>
       </div>
 
-      {filteredAndSortedMatches.length === 0 ? (
+      {matches.length === 0 ? (
         <div className="text-center py-12">
           <UserRound className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
           <h2 className="text-xl font-semibold mb-2">No Matches Found</h2>
           <p className="text-muted-foreground max-w-md mx-auto mb-6">
-            {matches && matches.length > 0 
+            {hasActiveFilters
               ? "Try adjusting your filter settings to see more potential matches."
               : "We couldn't find any potential roommates yet. Check back later as more people join the platform."}
           </p>
-          {matches && matches.length === 0 ? (
+          {!hasActiveFilters ? (
             <Link href="/profile">
               <Button variant="outline">Update Your Profile</Button>
             </Link>
           ) : (
-            <Button variant="outline" onClick={() => {
-              setMinMatchPercentage(0);
-              setFilterByLifestyle(null);
-              setFilterByCleanliness(null);
-            }}>
+            <Button variant="outline" onClick={resetFilters}>
               Reset Filters
             </Button>
           )}
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredAndSortedMatches.map((match) => (
-            <Card key={match.id} className="h-full flex flex-col">
-              <CardHeader className="pb-2">
-                <div className="flex justify-between items-start mb-2">
-                  <div>
-                    <CardTitle className="text-xl">{match.fullName}</CardTitle>
-                    {match.occupation && (
-                      <CardDescription>{match.occupation}</CardDescription>
-                    )}
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {matches.map(({ profile: match, ...score }) => (
+              <Card key={match.id} className="h-full flex flex-col">
+                <CardHeader className="pb-2">
+                  <div className="flex justify-between items-start mb-2">
+                    <div>
+                      <CardTitle className="text-xl flex items-center gap-1.5">
+                        {match.fullName}
+                        {score.verified && <VerifiedBadge />}
+                      </CardTitle>
+                      {match.occupation && (
+                        <CardDescription>{match.occupation}</CardDescription>
+                      )}
+                    </div>
+                    <div className="flex flex-col items-center gap-1">
+                      <MatchGauge 
+                        match={score} 
+                        size="sm"
+                      />
+                      <div className="text-xs text-muted-foreground text-center">
+                        <div>Fits you: {score.theirFit.percentage}%</div>
+                        <div>You fit: {score.yourFit.percentage}%</div>
+                      </div>
+                    </div>
                   </div>
-                  <MatchGauge 
-                    percentage={match.calculatedMatchPercentage} 
-                    size="sm"
-                  />
-                </div>
-              </CardHeader>
-              <CardContent className="flex-1 pt-2">
-                <div className="space-y-4">
-                  {/* Basic Info */}
-                  <div className="flex justify-between items-center">
-                    <div className="space-y-2">
-                      {match.age && <div className="text-sm">Age: {match.age}</div>}
+                </CardHeader>
+                <CardContent className="flex-1 pt-2">
+                  <div className="space-y-4">
+                    {/* Basic Info */}
+                    <div className="flex justify-between items-center">
+                      <div className="space-y-2">
+                        {match.age && <div className="text-sm">Age: {match.age}</div>}
                       
-                      {match.location && (
-                        <div className="flex items-center text-sm">
-                          <MapPin className="h-4 w-4 mr-1 text-muted-foreground" />
-                          {match.location}
-                        </div>
-                      )}
+                        {match.location && (
+                          <div className="flex items-center text-sm">
+                            <MapPin className="h-4 w-4 mr-1 text-muted-foreground" />
+                            {match.location}
+                          </div>
+                        )}
                       
-                      {match.budget && (
-                        <div className="flex items-center text-sm">
-                          <Banknote className="h-4 w-4 mr-1 text-muted-foreground" />
-                          Budget: ${match.budget}/month
-                        </div>
-                      )}
+                        {match.budget && (
+                          <div className="flex items-center text-sm">
+                            <Banknote className="h-4 w-4 mr-1 text-muted-foreground" />
+                            Budget: ${match.budget}/month
+                          </div>
+                        )}
+                      </div>
                     </div>
-                  </div>
 
-                  {/* Preferences */}
-                  <div className="grid grid-cols-2 gap-2 text-sm">
-                    {match.lifestyle && (
-                      <div className={filterByLifestyle === match.lifestyle ? "font-medium" : ""}>
-                        <span className="text-muted-foreground">Lifestyle:</span>{" "}
-                        {match.lifestyle === "early-bird" ? "Early Bird" : 
-                         match.lifestyle === "night-owl" ? "Night Owl" : 
-                         match.lifestyle === "social" ? "Social" : "Quiet"}
-                      </div>
-                    )}
+                    {/* Preferences */}
+                    <div className="grid grid-cols-2 gap-2 text-sm">
+                      {match.lifestyle && (
+                        <div className={filterByLifestyle === match.lifestyle ? "font-medium" : ""}>
+                          <span className="text-muted-foreground">Lifestyle:</span>{" "}
+                          {match.lifestyle === "early-bird" ? "Early Bird" : 
+                           match.lifestyle === "night-owl" ? "Night Owl" : 
+                           match.lifestyle === "social" ? "Social" : "Quiet"}
+                        </div>
+                      )}
                     
-                    {match.cleanliness && (
-                      <div className={filterByCleanliness === match.cleanliness ? "font-medium" : ""}>
-                        <span className="text-muted-foreground">Cleanliness:</span>{" "}
-                        {match.cleanliness === "very-clean" ? "Very Clean" : 
-                         match.cleanliness === "clean" ? "Clean" : 
-                         match.cleanliness === "casual" ? "Casual" : "Messy"}
-                      </div>
-                    )}
+                      {match.cleanliness && (
+                        <div className={filterByCleanliness === match.cleanliness ? "font-medium" : ""}>
+                          <span className="text-muted-foreground">Cleanliness:</span>{" "}
+                          {match.cleanliness === "very-clean" ? "Very Clean" : 
+                           match.cleanliness === "clean" ? "Clean" : 
+                           match.cleanliness === "casual" ? "Casual" : "Messy"}
+                        </div>
+                      )}
                     
-                    {match.smokingPreference && (
-                      <div>
-                        <span className="text-muted-foreground">Smoking:</span>{" "}
-                        {match.smokingPreference === "non-smoker" ? "Non-Smoker" : 
-                         match.smokingPreference === "outside-only" ? "Outside Only" : "Smoker"}
-                      </div>
-                    )}
+                      {match.smokingPreference && (
+                        <div>
+                          <span className="text-muted-foreground">Smoking:</span>{" "}
+                          {match.smokingPreference === "non-smoker" ? "Non-Smoker" : 
+                           match.smokingPreference === "outside-only" ? "Outside Only" : "Smoker"}
+                        </div>
+                      )}
                     
-                    {match.petPreference && (
-                      <div>
-                        <span className="text-muted-foreground">Pets:</span>{" "}
-                        {match.petPreference === "no-pets" ? "No Pets" : 
-                         match.petPreference === "has-pets" ? "Has Pets" : "Pet Friendly"}
-                      </div>
-                    )}
-                  </div>
+                      {match.petPreference && (
+                        <div>
+                          <span className="text-muted-foreground">Pets:</span>{" "}
+                          {match.petPreference === "no-pets" ? "No Pets" : 
+                           match.petPreference === "has-pets" ? "Has Pets" : "Pet Friendly"}
+                        </div>
+                      )}
+                    </div>
 
-                  {/* Hobbies and Interests */}
-                  <div className="grid grid-cols-2 gap-4">
-                    {match.hobbies && match.hobbies.length > 0 && (
-                      <div>
-                        <div className="text-sm font-medium mb-1">Hobbies</div>
-                        <div className="flex flex-wrap gap-1">
-                          {match.hobbies.slice(0, 3).map((hobby: string, index: number) => (
-                            <Badge key={index} variant="outline" className="text-xs">
-                              {hobby}
-                            </Badge>
-                          ))}
-                          {match.hobbies.length > 3 && (
-                            <Badge variant="outline" className="text-xs">
-                              +{match.hobbies.length - 3} more
-                            </Badge>
-                          )}
+                    {/* Hobbies and Interests */}
+                    <div className="grid grid-cols-2 gap-4">
+                      {match.hobbies && match.hobbies.length > 0 && (
+                        <div>
+                          <div className="text-sm font-medium mb-1">Hobbies</div>
+                          <div className="flex flex-wrap gap-1">
+                            {match.hobbies.slice(0, 3).map((hobby: string, index: number) => (
+                              <Badge key={index} variant="outline" className="text-xs">
+                                {hobby}
+                              </Badge>
+                            ))}
+                            {match.hobbies.length > 3 && (
+                              <Badge variant="outline" className="text-xs">
+                                +{match.hobbies.length - 3} more
+                              </Badge>
+                            )}
+                          </div>
                         </div>
-                      </div>
-                    )}
+                      )}
                     
-                    {match.interests && match.interests.length > 0 && (
-                      <div>
-                        <div className="text-sm font-medium mb-1">Interests</div>
-                        <div className="flex flex-wrap gap-1">
-                          {match.interests.slice(0, 3).map((interest: string, index: number) => (
-                            <Badge key={index} variant="outline" className="text-xs">
-                              {interest}
-                            </Badge>
-                          ))}
-                          {match.interests.length > 3 && (
-                            <Badge variant="outline" className="text-xs">
-                              +{match.interests.length - 3} more
-                            </Badge>
-                          )}
+                      {match.interests && match.interests.length > 0 && (
+                        <div>
+                          <div className="text-sm font-medium mb-1">Interests</div>
+                          <div className="flex flex-wrap gap-1">
+                            {match.interests.slice(0, 3).map((interest: string, index: number) => (
+                              <Badge key={index} variant="outline" className="text-xs">
+                                {interest}
+                              </Badge>
+                            ))}
+                            {match.interests.length > 3 && (
+                              <Badge variant="outline" className="text-xs">
+                                +{match.interests.length - 3} more
+                              </Badge>
+                            )}
+                          </div>
                         </div>
+                      )}
+                    </div>
+
+                    {/* Additional Info */}
+                    {match.additionalInfo && (
+                      <div>
+                        <div className="text-sm font-medium mb-1">About</div>
+                        <p className="text-sm text-muted-foreground line-clamp-2">
+                          {match.additionalInfo}
+                        </p>
                       </div>
                     )}
                   </div>
-
-                  {/* Additional Info */}
-                  {match.additionalInfo && (
-                    <div>
-                      <div className="text-sm font-medium mb-1">About</div>
-                      <p className="text-sm text-muted-foreground line-clamp-2">
-                        {match.additionalInfo}
-                      </p>
-                    </div>
-                  )}
-                </div>
-              </CardContent>
-              <CardFooter className="flex gap-2">
-                <MatchDetailsDialog 
-                  userProfile={userProfile}
-                  matchProfile={match}
-                  matchPercentage={match.calculatedMatchPercentage}
-                />
-                <Button 
-                  className="flex-1"
-                  onClick={() => {
-                    console.log(`Connecting with user ID: ${match.userId}`);
-                    startConversationMutation.mutate(match.userId);
-                  }}
-                  disabled={startConversationMutation.isPending}
-                >
-                  {startConversationMutation.isPending ? (
-                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                </CardContent>
+                <CardFooter className="flex gap-2">
+                  <MatchDetailsDialog 
+                    userProfile={userProfile}
+                    matchProfile={match}
+                    match={score}
+                  />
+                  {score.matched ? (
+                    <Button 
+                      className="flex-1"
+                      onClick={() => {
+                        console.log(`Connecting with user ID: ${match.userId}`);
+                        startConversationMutation.mutate(match.userId);
+                      }}
+                      disabled={startConversationMutation.isPending}
+                    >
+                      {startConversationMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <MessageSquare className="h-4 w-4 mr-2" />
+                      )}
+                      {startConversationMutation.isPending ? "Connecting..." : "Message"}
+                    </Button>
                   ) : (
-                    <Heart className="h-4 w-4 mr-2" />
+                    <>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        title="Pass"
+                        onClick={() => decisionMutation.mutate({ targetUserId: match.userId, decision: "pass" })}
+                        disabled={decisionMutation.isPending}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                      <Button 
+                        className="flex-1"
+                        onClick={() => decisionMutation.mutate({ targetUserId: match.userId, decision: "like" })}
+                        disabled={decisionMutation.isPending || score.liked}
+                      >
+                        <Heart className={`h-4 w-4 mr-2 ${score.liked ? "fill-current" : ""}`} />
+                        {score.liked ? "Liked" : "Like"}
+                      </Button>
+                    </>
                   )}
-                  {startConversationMutation.isPending ? "Connecting..." : "Connect"}
-                </Button>
-              </CardFooter>
-            </Card>
-          ))}
-        </div>
+                </CardFooter>
+              </Card>
+            ))}
+          </div>
+
+          {/* Pagination */}
+          {pageCount > 1 && (
+            <div className="flex items-center justify-center gap-4 mt-8">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page} of {pageCount}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pageCount}
+              >
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          )}
+        </>
       )}
     </div>
   );
@@ -1,8 +1,34 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useLayoutEffect, useRef } from "react";
 import { useAuth } from "@/hooks/use-auth";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useInfiniteQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Conversation, Message, UserProfile } from "@shared/schema";
+import {
+  ARCHIVED_CONVERSATIONS_QUERY_KEY,
+  MESSAGE_REQUESTS_QUERY_KEY,
+  MESSAGE_PAGE_SIZE,
+  addMessage,
+  flattenMessagePages,
+  loadMessagesAround,
+  mergeMessages,
+  messagesQueryKey,
+  showLatestMessages,
+  updateMessage,
+  type MessagePages,
+} from "@/lib/message-cache";
+import {
+  ATTACHMENT_MIME_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  MESSAGE_REQUEST_MESSAGE_LIMIT,
+  ChatMessage,
+  Conversation,
+  ConversationSettings,
+  MessagePage,
+  PublicUser,
+  PublicUserProfile,
+} from "@shared/schema";
+import { TYPING_REPORT_INTERVAL_MS, type Presence } from "@shared/realtime";
+import type { MessageSearchResult } from "@shared/search";
+import { formatDistanceToNow } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -10,105 +36,281 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
-import { ChevronLeft, Send, User } from "lucide-react";
+import { useRealtime } from "@/hooks/use-realtime";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ReportDialog } from "@/components/report-dialog";
+import { MessageBubble } from "@/components/message-bubble";
+import { MessageSearchResults } from "@/components/message-search-results";
+import { NewGroupDialog } from "@/components/new-group-dialog";
+import { GroupMembersDialog } from "@/components/group-members-dialog";
+import { MessageRequestBanner } from "@/components/message-request-banner";
+import {
+  Archive,
+  ArchiveRestore,
+  Ban,
+  Bell,
+  BellOff,
+  ChevronLeft,
+  Flag,
+  Inbox,
+  MoreVertical,
+  Paperclip,
+  Pin,
+  Search,
+  Send,
+  User,
+  Users,
+  X,
+} from "lucide-react";
+
+interface ConversationMember extends PublicUser {
+  presence: Presence;
+  // The latest message they have seen
+  lastReadMessageId: number | null;
+}
 
 // Types for enhanced conversation with user data
-interface EnhancedConversation extends Conversation {
-  otherUser: {
-    id: number;
-    username: string;
-    fullName: string | null;
-    avatarUrl: string | null;
-  };
+interface EnhancedConversation extends Omit<Conversation, "directKey"> {
+  // The current user's own unread count and list settings
+  unreadCount: number;
+  archived: boolean;
+  muted: boolean;
+  pinnedAt: string | null;
+  // Everyone in the conversation except the current user
+  members: ConversationMember[];
+  // The other member of a one-to-one conversation; null for groups
+  otherUser: ConversationMember | null;
 }
 
 export default function MessagingPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const isMobile = useIsMobile();
+  // New messages and read state arrive over the realtime socket; polling is
+  // only a fallback for when it is down
+  const { connected, typingConversationIds, setOpenConversationId } = useRealtime();
   const [selectedConversation, setSelectedConversation] = useState<EnhancedConversation | null>(null);
   const [messageInput, setMessageInput] = useState("");
+  // While set, the input edits this message instead of sending a new one
+  const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(null);
+  // File chosen to go with the next message
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Open report dialog: undefined messageId reports the user themselves
+  const [reportTarget, setReportTarget] = useState<{ userId: number; name: string; messageId?: number } | null>(null);
+  const [isNewGroupOpen, setIsNewGroupOpen] = useState(false);
+  const [isMembersOpen, setIsMembersOpen] = useState(false);
+  // While non-empty, the sidebar shows message search results
+  const [searchQuery, setSearchQuery] = useState("");
+  // Search result to scroll to once its message is loaded
+  const [jumpToMessageId, setJumpToMessageId] = useState<number | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<number | null>(null);
+  // Which conversations the sidebar lists
+  const [folder, setFolder] = useState<"inbox" | "archived" | "requests">("inbox");
   
   // Fetch conversations
   const { data: conversations, isLoading: isLoadingConversations, refetch: refetchConversations } = useQuery<EnhancedConversation[]>({
     queryKey: ["/api/conversations"],
     staleTime: 5000, // 5 seconds
-    refetchInterval: 5000, // Poll for new conversations every 5 seconds
+    refetchInterval: connected ? false : 5000, // Poll for new conversations every 5 seconds
     retry: 3, // Retry 3 times if the query fails
     retryDelay: 1000, // Wait 1 second between retries
   });
+  const { data: archivedConversations, isLoading: isLoadingArchived } = useQuery<EnhancedConversation[]>({
+    queryKey: ARCHIVED_CONVERSATIONS_QUERY_KEY,
+    enabled: folder === "archived",
+    staleTime: 5000,
+  });
+  // Always fetched, so the number of waiting requests can be shown
+  const { data: messageRequests, isLoading: isLoadingRequests } = useQuery<EnhancedConversation[]>({
+    queryKey: MESSAGE_REQUESTS_QUERY_KEY,
+    staleTime: 5000,
+    refetchInterval: connected ? false : 5000,
+  });
+  const listedConversations = { inbox: conversations, archived: archivedConversations, requests: messageRequests }[folder];
+  const isLoadingListed = { inbox: isLoadingConversations, archived: isLoadingArchived, requests: isLoadingRequests }[folder];
+  const allConversations = [...(conversations ?? []), ...(archivedConversations ?? []), ...(messageRequests ?? [])];
   
   // Create a ref for the messages container to enable auto-scrolling
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Sentinel at the top of the history; older messages load when it scrolls into view
+  const historyStartRef = useRef<HTMLDivElement>(null);
+  // Distance from the bottom of the history before an older page was loaded
+  const scrollAnchorRef = useRef<number | null>(null);
   
-  // Fetch messages for selected conversation
+  // Fetch messages for selected conversation, latest page first. Older pages
+  // are only fetched as the user scrolls up.
   const { 
-    data: messages, 
+    data: messagePages, 
     isLoading: isLoadingMessages, 
-    refetch: refetchMessages 
-  } = useQuery<Message[]>({
-    queryKey: ["/api/conversations", selectedConversation?.id, "messages"],
+    hasNextPage: hasOlderMessages,
+    isFetchingNextPage: isLoadingOlderMessages,
+    fetchNextPage: fetchOlderMessages,
+  } = useInfiniteQuery<MessagePage, Error, MessagePages, unknown[], number | undefined>({
+    queryKey: messagesQueryKey(selectedConversation?.id),
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: String(MESSAGE_PAGE_SIZE) });
+      if (pageParam !== undefined) params.set("before", String(pageParam));
+      const res = await apiRequest("GET", `/api/conversations/${selectedConversation!.id}/messages?${params}`);
+      return await res.json();
+    },
+    initialPageParam: undefined as number | undefined,
+    getNextPageParam: (page) => page.hasMore ? page.messages[0]?.id : undefined,
     enabled: !!selectedConversation,
-    staleTime: 1000, // 1 second
-    refetchInterval: 1500, // Poll for new messages every 1.5 seconds
+    staleTime: Infinity, // Kept up to date by the realtime socket or the poll below
     retry: 3, // Retry 3 times if the query fails
     retryDelay: 1000, // Wait 1 second between retries
   });
+  const messages = flattenMessagePages(messagePages);
+  const newestMessageId = messages.at(-1)?.id;
+  // After jumping to an older message the latest ones aren't loaded
+  const hasNewerMessages = messagePages?.pages[0]?.hasNewer === true;
+  
+  useEffect(() => {
+    setOpenConversationId(selectedConversation?.id ?? null);
+    return () => setOpenConversationId(null);
+  }, [selectedConversation?.id]);
+  
+  // Without the realtime socket, poll the latest page every 1.5 seconds for
+  // new messages and read receipts
+  useEffect(() => {
+    if (connected || !selectedConversation) return;
+    const conversationId = selectedConversation.id;
+    const interval = setInterval(async () => {
+      try {
+        const res = await apiRequest("GET", `/api/conversations/${conversationId}/messages?limit=${MESSAGE_PAGE_SIZE}`);
+        mergeMessages(conversationId, await res.json());
+      } catch (error) {
+        console.error("Failed to poll messages:", error);
+      }
+    }, 1500);
+    return () => clearInterval(interval);
+  }, [connected, selectedConversation?.id]);
+  
+  // Scroll to the bottom of the messages container whenever a new message
+  // arrives. Jump straight there when a conversation is opened, so the top of
+  // the history isn't briefly in view and doesn't trigger loading older pages.
+  const hasScrolledToEndRef = useRef(false);
+  useEffect(() => {
+    hasScrolledToEndRef.current = false;
+    lastTypingReportRef.current = 0;
+    if (editingMessage) cancelEditing();
+    setPendingFile(null);
+  }, [selectedConversation?.id]);
+  useEffect(() => {
+    if (messagesEndRef.current && !hasNewerMessages) {
+      messagesEndRef.current.scrollIntoView({ behavior: hasScrolledToEndRef.current ? 'smooth' : 'auto' });
+      hasScrolledToEndRef.current = true;
+    }
+  }, [newestMessageId, hasNewerMessages]);
   
-  // Scroll to the bottom of the messages container whenever messages change
+  // Load older messages when the top of the history scrolls into view
   useEffect(() => {
-    if (messagesEndRef.current) {
-      messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
+    const sentinel = historyStartRef.current;
+    const viewport = sentinel?.closest<HTMLElement>("[data-radix-scroll-area-viewport]");
+    if (!sentinel || !viewport || !hasOlderMessages) return;
+    
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting && !isLoadingOlderMessages) {
+        scrollAnchorRef.current = viewport.scrollHeight - viewport.scrollTop;
+        fetchOlderMessages();
+      }
+    }, { root: viewport });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasOlderMessages, isLoadingOlderMessages, selectedConversation?.id, fetchOlderMessages]);
+  
+  // Keep the same messages in view when an older page is prepended
+  useLayoutEffect(() => {
+    const viewport = historyStartRef.current?.closest<HTMLElement>("[data-radix-scroll-area-viewport]");
+    if (viewport && scrollAnchorRef.current !== null) {
+      viewport.scrollTop = viewport.scrollHeight - scrollAnchorRef.current;
+      scrollAnchorRef.current = null;
+    }
+  }, [messagePages?.pages.length]);
+  
+  // Jump to a search result: if its message isn't loaded, replace the history
+  // with the page around it, then scroll to it and outline it for a moment
+  const jumpPageLoadedRef = useRef(false);
+  useEffect(() => {
+    if (jumpToMessageId === null || !messagePages || !selectedConversation) return;
+    
+    const element = document.getElementById(`message-${jumpToMessageId}`);
+    if (element) {
+      element.scrollIntoView({ block: "center" });
+      setHighlightedMessageId(jumpToMessageId);
+      setJumpToMessageId(null);
+    } else if (!jumpPageLoadedRef.current) {
+      jumpPageLoadedRef.current = true;
+      loadMessagesAround(selectedConversation.id, jumpToMessageId).catch(error => {
+        console.error("Failed to load the message:", error);
+        setJumpToMessageId(null);
+      });
+    } else {
+      // Deleted since the search ran
+      setJumpToMessageId(null);
     }
-  }, [messages]);
+  }, [jumpToMessageId, messagePages]);
+  useEffect(() => {
+    if (highlightedMessageId === null) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+  
+  const handleSearchResultSelected = (result: MessageSearchResult) => {
+    const conversation = allConversations.find(c => c.id === result.conversationId);
+    if (!conversation) return;
+    setSelectedConversation(conversation);
+    jumpPageLoadedRef.current = false;
+    setJumpToMessageId(result.messageId);
+  };
   
   // Send message mutation
   const sendMessageMutation = useMutation({
-    mutationFn: async (content: string) => {
+    mutationFn: async ({ content, file }: { content: string; file: File | null }) => {
       if (!selectedConversation) throw new Error("No conversation selected");
       
-      console.log("Sending message to user ID:", selectedConversation.otherUser.id);
+      console.log("Sending message to conversation ID:", selectedConversation.id);
       console.log("Message content:", content);
       
+      // Messages with a file go up as a multipart form
+      if (file) {
+        const form = new FormData();
+        form.append("conversationId", String(selectedConversation.id));
+        form.append("content", content);
+        form.append("file", file);
+        const res = await apiRequest("POST", "/api/messages/attachments", form);
+        return await res.json();
+      }
+      
       const message = {
         content,
-        receiverId: selectedConversation.otherUser.id,
+        conversationId: selectedConversation.id,
       };
       
       const res = await apiRequest("POST", "/api/messages", message);
       return await res.json();
     },
-    onSuccess: (data) => {
+    onSuccess: (data: ChatMessage) => {
       console.log("Message sent successfully:", data);
       // Clear input
       setMessageInput("");
+      setPendingFile(null);
       
-      // Optimistically update the UI by adding new message to the cache immediately
-      if (messages) {
-        const updatedMessages = [...messages, data];
-        console.log("Updated messages after send:", updatedMessages);
-        
-        // Update the cache with the new message
-        queryClient.setQueryData(
-          ["/api/conversations", selectedConversation?.id, "messages"], 
-          updatedMessages
-        );
-      }
+      // Add the new message to the cache immediately
+      // (the realtime socket may already have delivered it)
+      addMessage(data.conversationId, data);
+      // Sent from further back in the history: go down to the new message
+      if (hasNewerMessages) showLatestMessages(data.conversationId);
       
-      // Wait a moment for UI to update before refetching
-      setTimeout(() => {
-        // Explicitly call refetch functions after a short delay
-        refetchMessages();
-        refetchConversations();
-        
-        // Invalidate relevant queries
-        queryClient.invalidateQueries({ 
-          queryKey: ["/api/conversations", selectedConversation?.id, "messages"]
-        });
-        queryClient.invalidateQueries({ 
-          queryKey: ["/api/conversations"]
-        });
-      }, 300);
+      // Refresh the conversation list so it reorders by last message
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
     },
     onError: (error: Error) => {
       console.error("Failed to send message:", error);
@@ -120,6 +322,36 @@ export default function MessagingPage() {
     },
   });
   
+  // Edit message mutation
+  const editMessageMutation = useMutation({
+    mutationFn: async ({ id, content }: { id: number; content: string }) => {
+      const res = await apiRequest("PATCH", `/api/messages/${id}`, { content });
+      return (await res.json()) as ChatMessage;
+    },
+    onSuccess: (data) => {
+      updateMessage(data.conversationId, data);
+      setEditingMessage(null);
+      setMessageInput("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to edit message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const startEditing = (message: ChatMessage) => {
+    setEditingMessage(message);
+    setMessageInput(message.content);
+  };
+  
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setMessageInput("");
+  };
+  
   // Start new conversation mutation
   const startConversationMutation = useMutation({
     mutationFn: async (otherUserId: number) => {
@@ -148,7 +380,7 @@ export default function MessagingPage() {
       
       toast({
         title: "Conversation started",
-        description: `You can now message ${newConversation.otherUser.fullName || newConversation.otherUser.username}`,
+        description: `You can now message ${getDisplayName(newConversation)}`,
       });
     },
     onError: (error: Error) => {
@@ -161,22 +393,136 @@ export default function MessagingPage() {
     },
   });
   
+  // Archive, mute or pin a conversation in the user's own list
+  const updateSettingsMutation = useMutation({
+    mutationFn: async ({ conversationId, settings }: { conversationId: number; settings: ConversationSettings }) => {
+      await apiRequest("PATCH", `/api/conversations/${conversationId}/settings`, settings);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"], exact: true });
+      queryClient.invalidateQueries({ queryKey: ARCHIVED_CONVERSATIONS_QUERY_KEY });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update conversation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const updateSettings = (conversation: EnhancedConversation, settings: ConversationSettings) => {
+    updateSettingsMutation.mutate({ conversationId: conversation.id, settings });
+    // Archiving closes the conversation
+    if (settings.archived) setSelectedConversation(null);
+  };
+  
+  // Block the other participant of the selected conversation
+  const blockUserMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const res = await apiRequest("POST", "/api/blocks", { userId });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/blocks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/profiles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/matches"] });
+      toast({
+        title: "User blocked",
+        description: "You won't see each other in matches and neither of you can send messages",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to block user",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // Let the other participant know the user is typing, at most once per interval
+  const lastTypingReportRef = useRef(0);
+  const reportTyping = () => {
+    if (!selectedConversation || Date.now() - lastTypingReportRef.current < TYPING_REPORT_INTERVAL_MS) return;
+    lastTypingReportRef.current = Date.now();
+    apiRequest("POST", `/api/conversations/${selectedConversation.id}/typing`).catch(() => {
+      // Typing indicators are best effort
+    });
+  };
+  
   // Fetch all user profiles for potential new conversations
-  const { data: userProfiles } = useQuery<UserProfile[]>({
+  const { data: userProfiles } = useQuery<PublicUserProfile[]>({
     queryKey: ["/api/profiles"],
   });
+  // Mutual matches can be added to groups, as can anyone with an accepted
+  // one-to-one conversation
+  const { data: mutualMatches } = useQuery<{ otherUser: PublicUser; profile: PublicUserProfile | null }[]>({
+    queryKey: ["/api/mutual-matches"],
+  });
   
   // Handle sending a message
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!messageInput.trim()) return;
     
-    sendMessageMutation.mutate(messageInput.trim());
+    if (editingMessage) {
+      if (!messageInput.trim()) return;
+      editMessageMutation.mutate({ id: editingMessage.id, content: messageInput.trim() });
+      return;
+    }
+    if (!messageInput.trim() && !pendingFile) return;
+    sendMessageMutation.mutate({ content: messageInput.trim(), file: pendingFile });
+    lastTypingReportRef.current = 0;
+  };
+  
+  // Check the chosen file before it is attached; the server validates it again
+  const handleFileChosen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    
+    if (!(ATTACHMENT_MIME_TYPES as readonly string[]).includes(file.type)) {
+      toast({
+        title: "Unsupported file",
+        description: "You can attach JPEG, PNG, GIF or WebP images and PDF documents",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      toast({
+        title: "File too large",
+        description: `Attachments can be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setPendingFile(file);
   };
   
   // Get the display name for the conversation
-  const getDisplayName = (conversation: EnhancedConversation) => {
-    return conversation.otherUser.fullName || conversation.otherUser.username;
+  function getDisplayName(conversation: EnhancedConversation) {
+    return conversation.isGroup
+      ? conversation.name ?? "Group"
+      : getMemberName(conversation.otherUser);
+  }
+  
+  function getMemberName(member: ConversationMember | null | undefined) {
+    return member ? member.fullName || member.username : "Unknown user";
+  }
+  
+  // "typing…", a group's member count, or "Online" or "Last seen …" under a
+  // conversation's name
+  const getStatusText = (conversation: EnhancedConversation) => {
+    if (typingConversationIds.has(conversation.id)) return "typing…";
+    if (conversation.isGroup) return `${conversation.members.length + 1} members`;
+    if (!conversation.otherUser) return null;
+    const { presence } = conversation.otherUser;
+    if (presence.online) return "Online";
+    if (presence.lastSeenAt) {
+      return `Last seen ${formatDistanceToNow(new Date(presence.lastSeenAt), { addSuffix: true })}`;
+    }
+    return null;
   };
   
   // Get initials for avatar fallback
@@ -190,12 +536,58 @@ export default function MessagingPage() {
   };
   
   // Format message timestamp
-  const formatMessageTime = (timestamp: Date | null) => {
+  const formatMessageTime = (timestamp: Date | string | null) => {
     if (!timestamp) return "";
     const date = new Date(timestamp);
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
   
+  // The selected conversation as last fetched, so presence and members stay current
+  const currentConversation = allConversations.find(conversation => conversation.id === selectedConversation?.id)
+    ?? selectedConversation;
+  
+  // A message request waiting for the user's answer, or the state of one they sent
+  const isIncomingRequest = currentConversation?.requestStatus === "pending" && currentConversation.createdBy !== user?.id;
+  const outgoingRequestStatus = currentConversation?.createdBy === user?.id ? currentConversation?.requestStatus : null;
+  
+  // "Seen" is shown once, under the latest of the user's messages the other
+  // person has read. In groups it lists who has seen the user's latest message.
+  const lastSeenMessageId = messages
+    .filter(message => message.senderId === user?.id && message.read)
+    .at(-1)?.id;
+  const lastOwnMessageId = messages
+    .filter(message => message.senderId === user?.id && message.kind === "text")
+    .at(-1)?.id;
+  const lastOwnMessageSeenBy = currentConversation?.isGroup && lastOwnMessageId !== undefined
+    ? currentConversation.members
+      .filter(member => member.lastReadMessageId !== null && member.lastReadMessageId >= lastOwnMessageId)
+      .map(getMemberName)
+    : [];
+  
+  // People the user can add to groups, which skip message requests
+  const groupCandidates = Array.from(new Map([
+    ...(mutualMatches ?? []).map(match =>
+      [match.otherUser.id, match.profile?.fullName || match.otherUser.username] as const),
+    ...[...(conversations ?? []), ...(archivedConversations ?? [])]
+      .filter(c => !c.isGroup && c.otherUser && (!c.requestStatus || c.requestStatus === "accepted"))
+      .map(c => [c.otherUser!.id, getMemberName(c.otherUser)] as const),
+  ]), ([id, name]) => ({ id, name }));
+  
+  // Leave a conversation the user has been removed from
+  useEffect(() => {
+    if (!selectedConversation || !conversations || !messageRequests || (folder === "archived" && !archivedConversations)) return;
+    if (!allConversations.some(c => c.id === selectedConversation.id)) {
+      setSelectedConversation(null);
+    }
+  }, [conversations, archivedConversations, messageRequests, folder, selectedConversation?.id]);
+  
+  // Open a group as soon as it has been created
+  const handleGroupCreated = (conversationId: number) => {
+    const created = queryClient.getQueryData<EnhancedConversation[]>(["/api/conversations"])
+      ?.find(conversation => conversation.id === conversationId);
+    if (created) setSelectedConversation(created);
+  };
+  
   // Back to conversation list (mobile)
   const handleBackToList = () => {
     setSelectedConversation(null);
@@ -211,16 +603,49 @@ export default function MessagingPage() {
           <div className="md:col-span-1">
             <Card>
               <CardHeader>
-                <CardTitle>Conversations</CardTitle>
+                <div className="flex items-center justify-between">
+                  <CardTitle>
+                    {{ inbox: "Conversations", archived: "Archived", requests: "Message requests" }[folder]}
+                  </CardTitle>
+                  {folder === "inbox" ? (
+                    <div className="flex">
+                      <Button variant="ghost" size="sm" onClick={() => setFolder("requests")}>
+                        <Inbox className="h-4 w-4 mr-1" />
+                        Requests{messageRequests?.length ? ` (${messageRequests.length})` : ""}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setFolder("archived")}>
+                        <Archive className="h-4 w-4 mr-1" />
+                        Archived
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button variant="ghost" size="sm" onClick={() => setFolder("inbox")}>
+                      <ChevronLeft className="h-4 w-4 mr-1" />
+                      Back
+                    </Button>
+                  )}
+                </div>
                 <CardDescription>Chat with potential roommates</CardDescription>
+                <div className="relative pt-2">
+                  <Search className="absolute left-3 top-1/2 mt-1 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                  <Input
+                    placeholder="Search messages"
+                    value={searchQuery}
+                    onChange={e => setSearchQuery(e.target.value)}
+                    onKeyDown={e => e.key === "Escape" && setSearchQuery("")}
+                    className="pl-9"
+                  />
+                </div>
               </CardHeader>
               <CardContent>
-                {isLoadingConversations ? (
+                {searchQuery.trim() ? (
+                  <MessageSearchResults query={searchQuery} onSelect={handleSearchResultSelected} />
+                ) : isLoadingListed ? (
                   <div className="flex justify-center py-4">Loading conversations...</div>
-                ) : conversations && conversations.length > 0 ? (
+                ) : listedConversations && listedConversations.length > 0 ? (
                   <ScrollArea className="h-[500px]">
                     <div className="space-y-2">
-                      {conversations.map(conversation => (
+                      {listedConversations.map(conversation => (
                         <div
                           key={conversation.id}
                           className={`p-3 rounded-md cursor-pointer flex items-center space-x-3 hover:bg-accent ${
@@ -228,15 +653,26 @@ export default function MessagingPage() {
                           }`}
                           onClick={() => setSelectedConversation(conversation)}
                         >
-                          <Avatar>
-                            <AvatarImage src={conversation.otherUser.avatarUrl || undefined} />
-                            <AvatarFallback>
-                              {getInitials(getDisplayName(conversation))}
-                            </AvatarFallback>
-                          </Avatar>
+                          <div className="relative">
+                            <Avatar>
+                              <AvatarImage src={conversation.otherUser?.avatarUrl || undefined} />
+                              <AvatarFallback>
+                                {conversation.isGroup ? <Users className="h-5 w-5" /> : getInitials(getDisplayName(conversation))}
+                              </AvatarFallback>
+                            </Avatar>
+                            {conversation.otherUser?.presence.online && (
+                              <span className="absolute bottom-0 right-0 h-3 w-3 rounded-full bg-green-500 ring-2 ring-background" />
+                            )}
+                          </div>
                           <div className="flex-1 min-w-0">
-                            <p className="font-medium truncate">{getDisplayName(conversation)}</p>
-                            {conversation.unreadCount ? (
+                            <div className="flex items-center gap-1">
+                              <p className="font-medium truncate">{getDisplayName(conversation)}</p>
+                              {conversation.muted && <BellOff className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                              {conversation.pinnedAt && <Pin className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                            </div>
+                            {typingConversationIds.has(conversation.id) ? (
+                              <p className="text-sm text-primary italic">typing…</p>
+                            ) : conversation.unreadCount && !conversation.muted ? (
                               <div className="flex items-center">
                                 <div className="h-2 w-2 bg-blue-500 rounded-full mr-2"></div>
                                 <p className="text-sm text-muted-foreground">
@@ -245,7 +681,7 @@ export default function MessagingPage() {
                               </div>
                             ) : (
                               <p className="text-sm text-muted-foreground truncate">
-                                {formatMessageTime(conversation.lastMessageAt as unknown as Date)}
+                                {formatMessageTime(conversation.lastMessageAt)}
                               </p>
                             )}
                           </div>
@@ -253,6 +689,10 @@ export default function MessagingPage() {
                       ))}
                     </div>
                   </ScrollArea>
+                ) : folder !== "inbox" ? (
+                  <p className="text-center text-muted-foreground py-6">
+                    {folder === "archived" ? "No archived conversations" : "No message requests"}
+                  </p>
                 ) : (
                   <div className="text-center py-6">
                     <p className="text-muted-foreground mb-4">No conversations yet</p>
@@ -263,13 +703,19 @@ export default function MessagingPage() {
                 {/* New conversation section */}
                 {userProfiles && userProfiles.length > 0 && (
                   <div className="mt-6 pt-6 border-t">
-                    <h3 className="font-medium mb-3">Start a new conversation</h3>
+                    <div className="flex items-center justify-between mb-3">
+                      <h3 className="font-medium">Start a new conversation</h3>
+                      <Button variant="outline" size="sm" onClick={() => setIsNewGroupOpen(true)}>
+                        <Users className="h-4 w-4 mr-2" />
+                        New group
+                      </Button>
+                    </div>
                     <ScrollArea className="h-[200px]">
                       <div className="space-y-2">
                         {userProfiles.map(profile => {
                           // Check if we already have a conversation with this user
                           const hasConversation = conversations?.some(
-                            c => c.user1Id === profile.userId || c.user2Id === profile.userId
+                            c => c.otherUser?.id === profile.userId
                           );
                           
                           if (hasConversation) return null;
@@ -317,15 +763,104 @@ export default function MessagingPage() {
                         </Button>
                       )}
                       <Avatar className="h-10 w-10 mr-3">
-                        <AvatarImage src={selectedConversation.otherUser.avatarUrl || undefined} />
+                        <AvatarImage src={selectedConversation.otherUser?.avatarUrl || undefined} />
                         <AvatarFallback>
-                          {getInitials(getDisplayName(selectedConversation))}
+                          {selectedConversation.isGroup ? <Users className="h-5 w-5" /> : getInitials(getDisplayName(selectedConversation))}
                         </AvatarFallback>
                       </Avatar>
-                      <div>
-                        <CardTitle>{getDisplayName(selectedConversation)}</CardTitle>
+                      <div className="flex-1">
+                        <CardTitle>{currentConversation && getDisplayName(currentConversation)}</CardTitle>
+                        {currentConversation && getStatusText(currentConversation) && (
+                          <CardDescription>{getStatusText(currentConversation)}</CardDescription>
+                        )}
                       </div>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <MoreVertical className="h-5 w-5" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {currentConversation && (
+                            <>
+                              <DropdownMenuItem
+                                onClick={() => updateSettings(currentConversation, { pinned: !currentConversation.pinnedAt })}
+                              >
+                                <Pin className="w-4 h-4 mr-2" />
+                                {currentConversation.pinnedAt ? "Unpin" : "Pin to top"}
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => updateSettings(currentConversation, { muted: !currentConversation.muted })}
+                              >
+                                {currentConversation.muted ? (
+                                  <Bell className="w-4 h-4 mr-2" />
+                                ) : (
+                                  <BellOff className="w-4 h-4 mr-2" />
+                                )}
+                                {currentConversation.muted ? "Unmute" : "Mute"}
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => updateSettings(currentConversation, { archived: !currentConversation.archived })}
+                              >
+                                {currentConversation.archived ? (
+                                  <ArchiveRestore className="w-4 h-4 mr-2" />
+                                ) : (
+                                  <Archive className="w-4 h-4 mr-2" />
+                                )}
+                                {currentConversation.archived ? "Unarchive" : "Archive"}
+                              </DropdownMenuItem>
+                              <DropdownMenuSeparator />
+                            </>
+                          )}
+                          {currentConversation?.isGroup ? (
+                            <DropdownMenuItem onClick={() => setIsMembersOpen(true)}>
+                              <Users className="w-4 h-4 mr-2" />
+                              Members
+                            </DropdownMenuItem>
+                          ) : currentConversation?.otherUser && (
+                            <>
+                              <DropdownMenuItem
+                                onClick={() => setReportTarget({
+                                  userId: currentConversation.otherUser!.id,
+                                  name: getDisplayName(currentConversation),
+                                })}
+                              >
+                                <Flag className="w-4 h-4 mr-2" />
+                                Report
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => blockUserMutation.mutate(currentConversation.otherUser!.id)}
+                                disabled={blockUserMutation.isPending}
+                              >
+                                <Ban className="w-4 h-4 mr-2" />
+                                Block
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
                     </div>
+                    {reportTarget && (
+                      <ReportDialog
+                        open
+                        onOpenChange={open => !open && setReportTarget(null)}
+                        reportedUserId={reportTarget.userId}
+                        reportedName={reportTarget.name}
+                        messageId={reportTarget.messageId}
+                      />
+                    )}
+                    {currentConversation?.isGroup && (
+                      <GroupMembersDialog
+                        open={isMembersOpen}
+                        onOpenChange={setIsMembersOpen}
+                        conversationId={currentConversation.id}
+                        name={currentConversation.name ?? ""}
+                        members={currentConversation.members.map(member => ({ id: member.id, name: getMemberName(member) }))}
+                        isCreator={currentConversation.createdBy === user?.id}
+                        candidates={groupCandidates}
+                        onLeft={() => setSelectedConversation(null)}
+                      />
+                    )}
                   </CardHeader>
                   
                   <CardContent className="flex-1 p-0 flex flex-col h-[500px]">
@@ -333,31 +868,42 @@ export default function MessagingPage() {
                     <ScrollArea className="flex-1 p-4">
                       {isLoadingMessages ? (
                         <div className="flex justify-center py-4">Loading messages...</div>
-                      ) : messages && messages.length > 0 ? (
+                      ) : messages.length > 0 ? (
                         <div className="space-y-4">
-                          {messages.map(message => {
-                            const isCurrentUser = message.senderId === user?.id;
-                            
-                            return (
-                              <div
-                                key={message.id}
-                                className={`flex ${isCurrentUser ? "justify-end" : "justify-start"}`}
-                              >
-                                <div
-                                  className={`max-w-[80%] rounded-lg px-4 py-2 ${
-                                    isCurrentUser 
-                                      ? "bg-primary text-primary-foreground" 
-                                      : "bg-muted"
-                                  }`}
-                                >
-                                  <p>{message.content}</p>
-                                  <p className="text-xs mt-1 opacity-70">
-                                    {formatMessageTime(message.createdAt as unknown as Date)}
-                                  </p>
-                                </div>
-                              </div>
-                            );
-                          })}
+                          <div ref={historyStartRef} />
+                          {isLoadingOlderMessages && (
+                            <div className="flex justify-center text-sm text-muted-foreground">
+                              Loading earlier messages...
+                            </div>
+                          )}
+                          {messages.map(message => (
+                            <MessageBubble
+                              key={message.id}
+                              message={message}
+                              currentUserId={user!.id}
+                              showSeen={!currentConversation?.isGroup && message.id === lastSeenMessageId}
+                              seenBy={message.id === lastOwnMessageId ? lastOwnMessageSeenBy : undefined}
+                              senderName={currentConversation?.isGroup
+                                ? getMemberName(currentConversation.members.find(member => member.id === message.senderId))
+                                : undefined}
+                              highlighted={message.id === highlightedMessageId}
+                              onEdit={startEditing}
+                              onReport={reported => setReportTarget({
+                                userId: reported.senderId,
+                                name: currentConversation?.isGroup
+                                  ? getMemberName(currentConversation.members.find(member => member.id === reported.senderId))
+                                  : getDisplayName(selectedConversation),
+                                messageId: reported.id,
+                              })}
+                            />
+                          ))}
+                          {hasNewerMessages && (
+                            <div className="flex justify-center">
+                              <Button variant="outline" size="sm" onClick={() => showLatestMessages(selectedConversation.id)}>
+                                Show latest messages
+                              </Button>
+                            </div>
+                          )}
                           {/* Invisible element to scroll to */}
                           <div ref={messagesEndRef} />
                         </div>
@@ -374,21 +920,85 @@ export default function MessagingPage() {
                     
                     {/* Message input */}
                     <div className="p-4 border-t">
-                      <form onSubmit={handleSendMessage} className="flex gap-2">
-                        <Input
-                          placeholder="Type your message..."
-                          value={messageInput}
-                          onChange={e => setMessageInput(e.target.value)}
-                          className="flex-1"
+                      {isIncomingRequest ? (
+                        <MessageRequestBanner
+                          conversationId={selectedConversation.id}
+                          name={getDisplayName(selectedConversation)}
+                          onDismissed={() => setSelectedConversation(null)}
                         />
-                        <Button 
-                          type="submit" 
-                          disabled={!messageInput.trim() || sendMessageMutation.isPending}
-                        >
-                          <Send className="h-4 w-4 mr-2" />
-                          Send
-                        </Button>
-                      </form>
+                      ) : outgoingRequestStatus === "declined" ? (
+                        <p className="text-sm text-center text-muted-foreground">
+                          {getDisplayName(selectedConversation)} declined your message request
+                        </p>
+                      ) : (
+                        <>
+                          {outgoingRequestStatus === "pending" && (
+                            <p className="text-sm text-muted-foreground mb-2">
+                              Message request sent. You can send up to {MESSAGE_REQUEST_MESSAGE_LIMIT} messages until it is accepted.
+                            </p>
+                          )}
+                          {editingMessage && (
+                            <div className="flex items-center justify-between text-sm text-muted-foreground mb-2">
+                              <span>Editing message</span>
+                              <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={cancelEditing}>
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
+                          {pendingFile && !editingMessage && (
+                            <div className="flex items-center justify-between text-sm text-muted-foreground mb-2">
+                              <span className="flex items-center gap-2 truncate">
+                                <Paperclip className="h-4 w-4 shrink-0" />
+                                <span className="truncate">{pendingFile.name}</span>
+                              </span>
+                              <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => setPendingFile(null)}>
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
+                          <form onSubmit={handleSendMessage} className="flex gap-2">
+                            <input
+                              ref={fileInputRef}
+                              type="file"
+                              accept={ATTACHMENT_MIME_TYPES.join(",")}
+                              className="hidden"
+                              onChange={handleFileChosen}
+                            />
+                            {!editingMessage && outgoingRequestStatus !== "pending" && (
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="icon"
+                                title="Attach a photo or document"
+                                onClick={() => fileInputRef.current?.click()}
+                              >
+                                <Paperclip className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Input
+                              placeholder="Type your message..."
+                              value={messageInput}
+                              onChange={e => {
+                                setMessageInput(e.target.value);
+                                if (e.target.value && !editingMessage) reportTyping();
+                              }}
+                              onKeyDown={e => e.key === "Escape" && editingMessage && cancelEditing()}
+                              className="flex-1"
+                            />
+                            <Button 
+                              type="submit" 
+                              disabled={
+                                (!messageInput.trim() && (!pendingFile || !!editingMessage)) ||
+                                sendMessageMutation.isPending ||
+                                editMessageMutation.isPending
+                              }
+                            >
+                              <Send className="h-4 w-4 mr-2" />
+                              {editingMessage ? "Save" : "Send"}
+                            </Button>
+                          </form>
+                        </>
+                      )}
                     </div>
                   </CardContent>
                 </>
@@ -407,6 +1017,13 @@ export default function MessagingPage() {
           </div>
         )}
       </div>
+      
+      <NewGroupDialog
+        open={isNewGroupOpen}
+        onOpenChange={setIsNewGroupOpen}
+        candidates={groupCandidates}
+        onCreated={handleGroupCreated}
+      />
     </div>
   );
 }
\ No newline at end of file
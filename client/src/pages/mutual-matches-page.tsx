@@ -0,0 +1,164 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Link, useLocation } from "wouter";
+import type { MutualMatch, PublicUser, PublicUserProfile } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { HeartHandshake, Loader2, MapPin, MessageSquare, X } from "lucide-react";
+
+// Mutual match with the other user's details, as returned by GET /api/mutual-matches
+interface EnhancedMutualMatch extends MutualMatch {
+  otherUser: PublicUser;
+  profile: PublicUserProfile | null;
+  percentage: number | null;
+}
+
+export default function MutualMatchesPage() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const { data: mutualMatches, isLoading } = useQuery<EnhancedMutualMatch[]>({
+    queryKey: ["/api/mutual-matches"],
+  });
+
+  const startConversationMutation = useMutation({
+    mutationFn: async (otherUserId: number) => {
+      const res = await apiRequest("POST", "/api/conversations", { otherUserId });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setLocation("/messaging");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error starting conversation",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Passing on a mutual match removes it for both people
+  const unmatchMutation = useMutation({
+    mutationFn: async (targetUserId: number) => {
+      await apiRequest("POST", "/api/match-decisions", { targetUserId, decision: "pass" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mutual-matches"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/matches"] });
+      toast({
+        title: "Unmatched",
+        description: "You won't see this person in your matches again",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error unmatching",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8 text-center">
+        <h1 className="text-3xl font-bold mb-2">Mutual Matches</h1>
+        <p className="text-muted-foreground max-w-xl mx-auto">
+          People you've liked who liked you back
+        </p>
+      </div>
+
+      {!mutualMatches || mutualMatches.length === 0 ? (
+        <div className="text-center py-12">
+          <HeartHandshake className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+          <h2 className="text-xl font-semibold mb-2">No mutual matches yet</h2>
+          <p className="text-muted-foreground mb-6">
+            Like people from your matches; when they like you back they'll show up here
+          </p>
+          <Link href="/matches">
+            <Button>Browse Matches</Button>
+          </Link>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {mutualMatches.map(mutualMatch => {
+            const name = mutualMatch.otherUser.fullName || mutualMatch.otherUser.username;
+            return (
+              <Card key={mutualMatch.id} className="flex flex-col">
+                <CardHeader className="pb-2">
+                  <div className="flex items-center gap-3">
+                    <Avatar>
+                      <AvatarImage src={mutualMatch.otherUser.avatarUrl ?? undefined} />
+                      <AvatarFallback>{name.slice(0, 2).toUpperCase()}</AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1">
+                      <CardTitle className="text-xl">{name}</CardTitle>
+                      {mutualMatch.createdAt && (
+                        <CardDescription>
+                          Matched {new Date(mutualMatch.createdAt).toLocaleDateString()}
+                        </CardDescription>
+                      )}
+                    </div>
+                    {mutualMatch.percentage !== null && (
+                      <Badge variant={mutualMatch.percentage >= 75 ? "default" : "secondary"}>
+                        {mutualMatch.percentage}% Match
+                      </Badge>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent className="flex-1 pt-2 space-y-2">
+                  {mutualMatch.profile?.location && (
+                    <div className="flex items-center text-sm">
+                      <MapPin className="h-4 w-4 mr-1 text-muted-foreground" />
+                      {mutualMatch.profile.location}
+                    </div>
+                  )}
+                  {mutualMatch.profile?.additionalInfo && (
+                    <p className="text-sm text-muted-foreground line-clamp-2">
+                      {mutualMatch.profile.additionalInfo}
+                    </p>
+                  )}
+                </CardContent>
+                <CardFooter className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    title="Unmatch"
+                    onClick={() => unmatchMutation.mutate(mutualMatch.otherUser.id)}
+                    disabled={unmatchMutation.isPending}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    className="flex-1"
+                    onClick={() => startConversationMutation.mutate(mutualMatch.otherUser.id)}
+                    disabled={startConversationMutation.isPending}
+                  >
+                    {startConversationMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <MessageSquare className="h-4 w-4 mr-2" />
+                    )}
+                    Message
+                  </Button>
+                </CardFooter>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
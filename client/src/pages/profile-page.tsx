@@ -1,7 +1,13 @@
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertUserProfileSchema, type InsertUserProfile } from "@shared/schema";
+import {
+  insertUserProfileSchema,
+  DEALBREAKER_ATTRIBUTES,
+  MATCH_CATEGORY_KEYS,
+  type InsertUserProfile,
+  type DealbreakerAttribute,
+} from "@shared/schema";
 import {
   Form,
   FormControl,
@@ -28,28 +34,18 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Plus, X, Loader2 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
-
-// Predefined options for selection
-const HOBBY_OPTIONS = [
-  "Reading", "Gaming", "Cooking", "Baking", "Hiking", "Biking", 
-  "Photography", "Painting", "Drawing", "Playing Music", "Dancing",
-  "Yoga", "Meditation", "Gardening", "DIY Projects", "Watching Movies",
-  "Sports", "Traveling", "Writing", "Woodworking", "Knitting"
-];
-
-const INTEREST_OPTIONS = [
-  "Technology", "Science", "History", "Politics", "Philosophy",
-  "Art", "Music", "Film", "Literature", "Theater", "Fashion",
-  "Food & Drink", "Health & Fitness", "Environment", "Animals",
-  "Education", "Business", "Economics", "Psychology", "Sociology"
-];
-
-const ROOMMATE_QUALITY_OPTIONS = [
-  "Respectful", "Clean", "Organized", "Communicative", "Considerate",
-  "Reliable", "Responsible", "Trustworthy", "Easygoing", "Quiet",
-  "Fun", "Social", "Friendly", "Financially stable", "Mature",
-  "Non-judgmental", "Adaptable", "Open-minded", "Supportive", "Independent"
-];
+import { PrivacySettings } from "@/components/privacy-settings";
+import { EmailSettings } from "@/components/email-settings";
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import {
+  HOBBY_OPTIONS,
+  INTEREST_OPTIONS,
+  ROOMMATE_QUALITY_OPTIONS,
+  PREFERENCE_LABELS,
+  DEALBREAKER_OPTIONS,
+  MATCH_CATEGORY_LABELS,
+} from "@shared/profile-options";
+import { DEFAULT_IMPORTANCE, IMPORTANCE_LABELS } from "@shared/matching";
 
 export default function ProfilePage() {
   const { toast } = useToast();
@@ -93,6 +89,8 @@ export default function ProfilePage() {
       petPreference: undefined,
       roommateQualities: [],
       additionalInfo: "",
+      dealbreakers: {},
+      matchImportance: {},
     },
   });
 
@@ -115,6 +113,8 @@ export default function ProfilePage() {
         petPreference: profile.petPreference ?? undefined,
         roommateQualities: profile.roommateQualities ?? [],
         additionalInfo: profile.additionalInfo ?? "",
+        dealbreakers: profile.dealbreakers ?? {},
+        matchImportance: profile.matchImportance ?? {},
       });
     } else {
       // Reset form to empty values if no profile exists
@@ -133,6 +133,8 @@ export default function ProfilePage() {
         petPreference: undefined,
         roommateQualities: [],
         additionalInfo: "",
+        dealbreakers: {},
+        matchImportance: {},
       });
     }
   }, [profile, form, user?.id]); // Add user.id to dependencies to re-run when user changes
@@ -141,6 +143,8 @@ export default function ProfilePage() {
   const hobbies = form.watch("hobbies") || [];
   const interests = form.watch("interests") || [];
   const roommateQualities = form.watch("roommateQualities") || [];
+  const dealbreakers = form.watch("dealbreakers") || {};
+  const matchImportance = form.watch("matchImportance") || {};
 
   // Add/remove functions for array fields
   const addHobby = (hobby: string) => {
@@ -188,6 +192,14 @@ export default function ProfilePage() {
     form.setValue("roommateQualities", currentQualities);
   };
 
+  const toggleDealbreaker = (attribute: DealbreakerAttribute, value: string) => {
+    const current = dealbreakers[attribute] ?? [];
+    const updated = current.includes(value)
+      ? current.filter(existing => existing !== value)
+      : [...current, value];
+    form.setValue("dealbreakers", { ...dealbreakers, [attribute]: updated });
+  };
+
   // Save profile mutation
   const saveProfileMutation = useMutation({
     mutationFn: async (data: InsertUserProfile) => {
@@ -644,6 +656,78 @@ export default function ProfilePage() {
                 </div>
               </div>
 
+              {/* Matching Preferences Section */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-medium">Matching Preferences</h3>
+
+                <FormField
+                  control={form.control}
+                  name="dealbreakers"
+                  render={() => (
+                    <FormItem>
+                      <FormLabel>Dealbreakers</FormLabel>
+                      <p className="text-sm text-muted-foreground">
+                        You'll never be matched with anyone who has one of the selected values
+                      </p>
+                      <div className="space-y-2 mt-2">
+                        {DEALBREAKER_ATTRIBUTES.map(attribute => (
+                          <div key={attribute} className="flex flex-wrap items-center gap-2">
+                            <span className="text-sm w-24">{DEALBREAKER_OPTIONS[attribute].label}</span>
+                            {DEALBREAKER_OPTIONS[attribute].values.map(value => {
+                              const selected = (dealbreakers[attribute] ?? []).includes(value);
+                              return (
+                                <Badge
+                                  key={value}
+                                  variant={selected ? "destructive" : "outline"}
+                                  className="cursor-pointer"
+                                  onClick={() => toggleDealbreaker(attribute, value)}
+                                >
+                                  {PREFERENCE_LABELS[value]}
+                                </Badge>
+                              );
+                            })}
+                          </div>
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="matchImportance"
+                  render={() => (
+                    <FormItem>
+                      <FormLabel>What Matters To You</FormLabel>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-2">
+                        {MATCH_CATEGORY_KEYS.map(key => (
+                          <div key={key} className="flex items-center justify-between gap-2">
+                            <span className="text-sm">{MATCH_CATEGORY_LABELS[key]}</span>
+                            <Select
+                              value={String(matchImportance[key] ?? DEFAULT_IMPORTANCE)}
+                              onValueChange={value =>
+                                form.setValue("matchImportance", { ...matchImportance, [key]: parseInt(value) })
+                              }
+                            >
+                              <SelectTrigger className="w-44">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {IMPORTANCE_LABELS.map((label, level) => (
+                                  <SelectItem key={level} value={String(level)}>{label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
               <Button
                 type="submit"
                 className="w-full"
@@ -658,6 +742,10 @@ export default function ProfilePage() {
           </Form>
         </CardContent>
       </Card>
+
+      <EmailSettings />
+      <TwoFactorSettings />
+      <PrivacySettings />
     </div>
   );
 }
\ No newline at end of file
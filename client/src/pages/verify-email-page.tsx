@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, Loader2 } from "lucide-react";
+import { VerifiedBadge } from "@/components/verified-badge";
+
+// Verification links from emails open /verify-email?token=...
+function getVerificationToken() {
+  return new URLSearchParams(window.location.search).get("token");
+}
+
+export default function VerifyEmailPage() {
+  const { user } = useAuth();
+  const [token] = useState(getVerificationToken);
+  const sent = useRef(false);
+
+  const verifyMutation = useMutation({
+    mutationFn: async (token: string) => {
+      await apiRequest("POST", "/api/verify-email", { token });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+  });
+
+  useEffect(() => {
+    // The token works once, so send it once and drop it from the address bar
+    if (!token || sent.current) return;
+    sent.current = true;
+    verifyMutation.mutate(token);
+    window.history.replaceState(null, "", window.location.pathname);
+  }, [token]);
+
+  const failed = !token || verifyMutation.isError;
+
+  return (
+    <div className="container mx-auto px-4 py-16">
+      <Card className="max-w-md mx-auto">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {verifyMutation.isSuccess && <VerifiedBadge />}
+            {failed && <AlertCircle className="h-5 w-5 text-destructive" />}
+            {verifyMutation.isSuccess ? "Email verified" : failed ? "Couldn't verify email" : "Verifying email"}
+          </CardTitle>
+          <CardDescription>
+            {verifyMutation.isSuccess
+              ? "Thanks for confirming your email address. Your profile now shows a verified badge."
+              : failed
+                ? verifyMutation.error?.message ?? "This verification link is incomplete."
+                : "One moment while we confirm your email address."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {verifyMutation.isPending ? (
+            <Loader2 className="mx-auto h-8 w-8 animate-spin" />
+          ) : (
+            <Link href={user ? "/profile" : "/auth"}>
+              <Button className="w-full">{user ? "Go to your profile" : "Log in"}</Button>
+            </Link>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+CREATE TABLE "conversations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user1_id" integer NOT NULL,
+	"user2_id" integer NOT NULL,
+	"last_message_at" timestamp DEFAULT now(),
+	"unread_count" integer DEFAULT 0
+);
+--> statement-breakpoint
+CREATE TABLE "messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"sender_id" integer NOT NULL,
+	"receiver_id" integer NOT NULL,
+	"content" text NOT NULL,
+	"read" boolean DEFAULT false,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "properties" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"title" text NOT NULL,
+	"description" text NOT NULL,
+	"price" integer NOT NULL,
+	"location" text NOT NULL,
+	"image_urls" text[],
+	"room_type" text NOT NULL,
+	"amenities" text[],
+	"available" boolean DEFAULT true NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "session" (
+	"sid" varchar PRIMARY KEY NOT NULL,
+	"sess" json NOT NULL,
+	"expire" timestamp (6) NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "user_profiles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"full_name" text,
+	"age" integer,
+	"occupation" text,
+	"location" text,
+	"ideal_location" text,
+	"budget" integer,
+	"hobbies" text[],
+	"interests" text[],
+	"lifestyle" text,
+	"cleanliness" text,
+	"smoking_preference" text,
+	"pet_preference" text,
+	"roommate_qualities" text[],
+	"additional_info" text,
+	"profile_complete" boolean DEFAULT false
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"avatar_url" text,
+	"bio" text,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+CREATE INDEX "IDX_session_expire" ON "session" USING btree ("expire");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "user_profiles" ADD COLUMN "dealbreakers" json DEFAULT '{}'::json;--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN "match_importance" json DEFAULT '{}'::json;
\ No newline at end of file
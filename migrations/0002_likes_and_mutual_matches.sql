@@ -0,0 +1,17 @@
+CREATE TABLE "match_decisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"target_user_id" integer NOT NULL,
+	"decision" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "mutual_matches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user1_id" integer NOT NULL,
+	"user2_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "match_decisions_user_target_idx" ON "match_decisions" USING btree ("user_id","target_user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "mutual_matches_users_idx" ON "mutual_matches" USING btree ("user1_id","user2_id");
\ No newline at end of file
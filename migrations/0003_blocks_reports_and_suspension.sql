@@ -0,0 +1,27 @@
+CREATE TABLE "blocks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"blocker_id" integer NOT NULL,
+	"blocked_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "reports" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"reporter_id" integer NOT NULL,
+	"reported_user_id" integer NOT NULL,
+	"message_id" integer,
+	"reason" text NOT NULL,
+	"details" text,
+	"snapshot" json,
+	"status" text DEFAULT 'open' NOT NULL,
+	"reviewed_by" integer,
+	"reviewed_at" timestamp,
+	"resolution_note" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "role" text DEFAULT 'user' NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "suspended_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "suspension_reason" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "blocks_blocker_blocked_idx" ON "blocks" USING btree ("blocker_id","blocked_id");--> statement-breakpoint
+CREATE INDEX "reports_status_idx" ON "reports" USING btree ("status");
\ No newline at end of file
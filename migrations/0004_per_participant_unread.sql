@@ -0,0 +1,7 @@
+ALTER TABLE "conversations" ADD COLUMN "user1_unread_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "user2_unread_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "read_at" timestamp;--> statement-breakpoint
+UPDATE "conversations" SET
+  "user1_unread_count" = (SELECT count(*) FROM "messages" WHERE "messages"."receiver_id" = "conversations"."user1_id" AND "messages"."sender_id" = "conversations"."user2_id" AND "messages"."read" IS NOT TRUE),
+  "user2_unread_count" = (SELECT count(*) FROM "messages" WHERE "messages"."receiver_id" = "conversations"."user2_id" AND "messages"."sender_id" = "conversations"."user1_id" AND "messages"."read" IS NOT TRUE);--> statement-breakpoint
+ALTER TABLE "conversations" DROP COLUMN "unread_count";
\ No newline at end of file
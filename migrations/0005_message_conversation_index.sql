@@ -0,0 +1,15 @@
+ALTER TABLE "messages" ADD COLUMN "conversation_id" integer;--> statement-breakpoint
+-- Every message pair should already have a conversation; create any that are missing
+INSERT INTO "conversations" ("user1_id", "user2_id", "last_message_at")
+SELECT LEAST("sender_id", "receiver_id"), GREATEST("sender_id", "receiver_id"), MAX("created_at")
+FROM "messages" m
+WHERE NOT EXISTS (
+  SELECT 1 FROM "conversations" c
+  WHERE c."user1_id" = LEAST(m."sender_id", m."receiver_id") AND c."user2_id" = GREATEST(m."sender_id", m."receiver_id")
+)
+GROUP BY LEAST("sender_id", "receiver_id"), GREATEST("sender_id", "receiver_id");--> statement-breakpoint
+UPDATE "messages" m SET "conversation_id" = c."id"
+FROM "conversations" c
+WHERE c."user1_id" = LEAST(m."sender_id", m."receiver_id") AND c."user2_id" = GREATEST(m."sender_id", m."receiver_id");--> statement-breakpoint
+ALTER TABLE "messages" ALTER COLUMN "conversation_id" SET NOT NULL;--> statement-breakpoint
+CREATE INDEX "messages_conversation_id_idx" ON "messages" USING btree ("conversation_id","id");
@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "last_seen_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "show_last_seen" boolean DEFAULT true NOT NULL;
\ No newline at end of file
@@ -0,0 +1,27 @@
+CREATE TABLE "hidden_messages" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"message_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "message_edits" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"message_id" integer NOT NULL,
+	"previous_content" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "message_reactions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"message_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"emoji" text NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "edited_at" timestamp;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+CREATE UNIQUE INDEX "hidden_messages_message_user_idx" ON "hidden_messages" USING btree ("message_id","user_id");--> statement-breakpoint
+CREATE INDEX "message_edits_message_id_idx" ON "message_edits" USING btree ("message_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "message_reactions_message_user_idx" ON "message_reactions" USING btree ("message_id","user_id");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "attachments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"message_id" integer NOT NULL,
+	"uploader_id" integer NOT NULL,
+	"file_name" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"storage_key" text NOT NULL,
+	"thumbnail_key" text,
+	"width" integer,
+	"height" integer,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "attachments_message_id_idx" ON "attachments" USING btree ("message_id");
\ No newline at end of file
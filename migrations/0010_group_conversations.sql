@@ -0,0 +1,30 @@
+CREATE TABLE "conversation_participants" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"conversation_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"unread_count" integer DEFAULT 0 NOT NULL,
+	"last_read_message_id" integer,
+	"joined_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "messages" ALTER COLUMN "receiver_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "is_group" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "name" text;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "direct_key" text;--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "created_by" integer;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "kind" text DEFAULT 'text' NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "conversation_participants_conversation_user_idx" ON "conversation_participants" USING btree ("conversation_id","user_id");--> statement-breakpoint
+CREATE INDEX "conversation_participants_user_id_idx" ON "conversation_participants" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_direct_key_unique" UNIQUE("direct_key");--> statement-breakpoint
+-- Move each one-to-one conversation's pair and unread counts into participants
+UPDATE "conversations" SET "direct_key" = "user1_id" || ':' || "user2_id";--> statement-breakpoint
+INSERT INTO "conversation_participants" ("conversation_id", "user_id", "unread_count", "last_read_message_id")
+SELECT c."id", p."user_id", p."unread_count",
+  (SELECT max(m."id") FROM "messages" m
+   WHERE m."conversation_id" = c."id" AND NOT (m."receiver_id" = p."user_id" AND m."read" IS NOT TRUE))
+FROM "conversations" c
+CROSS JOIN LATERAL (VALUES (c."user1_id", c."user1_unread_count"), (c."user2_id", c."user2_unread_count")) AS p("user_id", "unread_count");--> statement-breakpoint
+ALTER TABLE "conversations" DROP COLUMN "user1_id";--> statement-breakpoint
+ALTER TABLE "conversations" DROP COLUMN "user2_id";--> statement-breakpoint
+ALTER TABLE "conversations" DROP COLUMN "user1_unread_count";--> statement-breakpoint
+ALTER TABLE "conversations" DROP COLUMN "user2_unread_count";
\ No newline at end of file
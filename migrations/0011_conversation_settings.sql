@@ -0,0 +1,3 @@
+ALTER TABLE "conversation_participants" ADD COLUMN "archived" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversation_participants" ADD COLUMN "muted" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "conversation_participants" ADD COLUMN "pinned_at" timestamp;
\ No newline at end of file
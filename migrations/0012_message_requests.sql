@@ -0,0 +1 @@
+ALTER TABLE "conversations" ADD COLUMN "request_status" text;
\ No newline at end of file
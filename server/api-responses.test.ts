@@ -0,0 +1,141 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { getTotpCode } from "./totp";
+
+// Runs the API against the memory backend, which storage picks when first imported
+process.env.STORAGE_BACKEND = "memory";
+process.env.APP_URL = "http://localhost:5000";
+process.env.SESSION_SECRET ??= "test-session-secret";
+
+// Keys that hold credentials, wherever they turn up in a response
+const CREDENTIAL_KEYS = new Set(["password", "secret", "totpSecret", "otpauthUri", "recoveryCodes", "codeHash", "tokenHash"]);
+
+let server: Server;
+let baseUrl: string;
+
+// A logged-in browser: keeps the session cookie between requests
+class Client {
+  private cookie = "";
+
+  async request(method: string, path: string, body?: unknown) {
+    const res = await fetch(baseUrl + path, {
+      method,
+      headers: { ...(body !== undefined && { "Content-Type": "application/json" }), Cookie: this.cookie },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const setCookie = res.headers.get("set-cookie");
+    if (setCookie) this.cookie = setCookie.split(";")[0];
+    const text = await res.text();
+    assert.ok(res.ok, `${method} ${path}: ${res.status} ${text}`);
+    return { text, body: text ? JSON.parse(text) : undefined };
+  }
+}
+
+// Fails on any credential key, and on an email other than ownEmail, which
+// only the user's own account details may carry
+function assertNoCredentials(path: string, value: unknown, ownEmail?: string) {
+  if (Array.isArray(value)) {
+    value.forEach(item => assertNoCredentials(path, item, ownEmail));
+  } else if (value && typeof value === "object") {
+    for (const [key, field] of Object.entries(value)) {
+      assert.equal(CREDENTIAL_KEYS.has(key), false, `${path} sent ${key}`);
+      if (key === "email") {
+        assert.ok(ownEmail !== undefined && field === ownEmail, `${path} sent an email address`);
+      }
+      assertNoCredentials(path, field, ownEmail);
+    }
+  }
+}
+
+const profile = {
+  fullName: "Sam Jones",
+  age: 28,
+  lifestyle: "quiet",
+  cleanliness: "clean",
+  hobbies: ["Reading"],
+  interests: ["Art"],
+  dealbreakers: { smokingPreference: ["smoker"] },
+  matchImportance: { cleanliness: 3 },
+};
+
+before(async () => {
+  const { registerRoutes } = await import("./routes");
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+describe("API responses", () => {
+  it("never carry credentials or other people's emails", async () => {
+    const alice = new Client();
+    const bob = new Client();
+    const secrets: string[] = [];
+    const check = (path: string, response: { text: string; body: unknown }, ownEmail?: string) => {
+      for (const secret of secrets) {
+        assert.ok(!response.text.includes(secret), `${path} sent a secret`);
+      }
+      assertNoCredentials(path, response.body, ownEmail);
+    };
+
+    check("/api/register", await alice.request("POST", "/api/register", {
+      username: "alice", password: "password-alice", email: "alice@example.com",
+    }), "alice@example.com");
+    const { body: bobUser } = await bob.request("POST", "/api/register", {
+      username: "bobby", password: "password-bob", email: "bob@example.com",
+    });
+    await alice.request("POST", "/api/profile", profile);
+    await bob.request("POST", "/api/profile", profile);
+
+    // Alice turns on two-factor authentication
+    const { body: setup } = await alice.request("POST", "/api/user/2fa/setup");
+    const { body: enabled } = await alice.request("POST", "/api/user/2fa/enable", { code: getTotpCode(setup.secret) });
+    secrets.push("password-alice", "password-bob", setup.secret, ...enabled.recoveryCodes);
+
+    // A mutual match and a conversation between them
+    const { body: aliceUser } = await alice.request("GET", "/api/user");
+    await alice.request("POST", "/api/match-decisions", { targetUserId: bobUser.id, decision: "like" });
+    await bob.request("POST", "/api/match-decisions", { targetUserId: aliceUser.id, decision: "like" });
+    const { body: conversation } = await alice.request("POST", "/api/conversations", { otherUserId: bobUser.id });
+    await bob.request("POST", "/api/messages", { conversationId: conversation.id, content: "Hi Alice" });
+
+    // Logging in again, with and without a second factor
+    const aliceAgain = new Client();
+    check("/api/login", await aliceAgain.request("POST", "/api/login", { username: "alice", password: "password-alice" }));
+    check("/api/login/2fa", await aliceAgain.request("POST", "/api/login/2fa", { code: enabled.recoveryCodes[0] }), "alice@example.com");
+    check("/api/login", await new Client().request("POST", "/api/login", { username: "bobby", password: "password-bob" }), "bob@example.com");
+
+    for (const client of [aliceAgain, bob]) {
+      const ownEmail = client === bob ? "bob@example.com" : "alice@example.com";
+      check("/api/user", await client.request("GET", "/api/user"), ownEmail);
+      for (const path of [
+        "/api/profiles",
+        "/api/matches",
+        "/api/mutual-matches",
+        "/api/conversations",
+        `/api/conversations/${conversation.id}/messages`,
+      ]) {
+        const response = await client.request("GET", path);
+        check(path, response);
+        for (const privateField of ["dealbreakers", "matchImportance"]) {
+          assert.ok(!response.text.includes(`"${privateField}"`), `${path} sent ${privateField}`);
+        }
+      }
+
+      // Match scores show the user's own importance levels, never the candidate's
+      const { body: matchPage } = await client.request("GET", "/api/matches");
+      assert.equal(matchPage.matches.length, 1);
+      for (const match of matchPage.matches) {
+        assert.ok(match.yourFit.categories.every((category: object) => !("importance" in category)));
+      }
+    }
+  });
+});
@@ -0,0 +1,211 @@
+import type { Express, Request, Response } from "express";
+import { randomUUID } from "crypto";
+import multer from "multer";
+import sharp from "sharp";
+import { storage, type NewAttachment } from "./storage";
+import { blobStore } from "./blob-store";
+import { parseIdParam } from "./route-params";
+import {
+  MAX_ATTACHMENT_BYTES,
+  type Attachment,
+  type AttachmentInfo,
+  type AttachmentMimeType,
+} from "@shared/schema";
+
+// Thumbnails fit within this many pixels on each side
+const THUMBNAIL_SIZE = 320;
+
+// Files are held in memory until they are validated and written to the blob store
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: 1 },
+  defParamCharset: "utf8",
+}).single("file");
+
+// Parses a multipart request with a single "file" field. Sends the error and
+// resolves to false if the upload is malformed or too large.
+export function receiveUpload(req: Request, res: Response): Promise<boolean> {
+  return new Promise((resolve) => {
+    upload(req, res, (error: unknown) => {
+      if (!error) return resolve(true);
+
+      if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+        res.status(413).send(`Attachments can be at most ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`);
+      } else if (error instanceof multer.MulterError) {
+        res.status(400).send(error.message);
+      } else {
+        console.error("Error receiving upload:", error);
+        res.status(500).send("Internal server error");
+      }
+      resolve(false);
+    });
+  });
+}
+
+// Identifies the file from its first bytes; the client's declared type is ignored
+function detectMimeType(data: Buffer): AttachmentMimeType | undefined {
+  const startsWith = (signature: number[], offset = 0) =>
+    signature.every((byte, index) => data[offset + index] === byte);
+
+  if (startsWith([0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (data.subarray(0, 6).toString("ascii") === "GIF87a" || data.subarray(0, 6).toString("ascii") === "GIF89a") return "image/gif";
+  if (data.subarray(0, 4).toString("ascii") === "RIFF" && data.subarray(8, 12).toString("ascii") === "WEBP") return "image/webp";
+  if (data.subarray(0, 5).toString("ascii") === "%PDF-") return "application/pdf";
+  return undefined;
+}
+
+function isImage(mimeType: AttachmentMimeType) {
+  return mimeType.startsWith("image/");
+}
+
+// Keeps the client's file name readable but free of paths and control characters
+function cleanFileName(name: string) {
+  const cleaned = name.replace(/^.*[\\/]/, "").replace(/[\u0000-\u001f\u007f"]/g, "").trim();
+  return cleaned.slice(0, 200) || "attachment";
+}
+
+// Returns why the file can't be attached, or undefined if it's acceptable
+export async function getAttachmentProblem(file: Express.Multer.File): Promise<string | undefined> {
+  if (file.size === 0) {
+    return "The file is empty";
+  }
+
+  const mimeType = detectMimeType(file.buffer);
+  if (!mimeType) {
+    return "Only JPEG, PNG, GIF and WebP images and PDF documents can be attached";
+  }
+
+  if (isImage(mimeType)) {
+    try {
+      await sharp(file.buffer).metadata();
+    } catch {
+      return "The image could not be read";
+    }
+  }
+  return undefined;
+}
+
+// A file in the blob store, ready to be recorded against its message
+export type StoredAttachment = Omit<NewAttachment, "messageId">;
+
+// Writes a validated file (and, for images, its thumbnail) to the blob store.
+// This is the part that can fail on a bad image, so it runs before the
+// message is created; storage.createAttachment then records it.
+export async function storeAttachment(file: Express.Multer.File, uploaderId: number): Promise<StoredAttachment> {
+  const mimeType = detectMimeType(file.buffer)!;
+  const storageKey = `attachments/${randomUUID()}`;
+  let thumbnailKey: string | null = null;
+  let width: number | null = null;
+  let height: number | null = null;
+
+  await blobStore.put(storageKey, file.buffer);
+
+  if (isImage(mimeType)) {
+    // rotate() applies the EXIF orientation so photos aren't shown sideways
+    const image = sharp(file.buffer).rotate();
+    const metadata = await image.metadata();
+    width = metadata.width ?? null;
+    height = metadata.height ?? null;
+
+    thumbnailKey = `${storageKey}-thumb.webp`;
+    const thumbnail = await image
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+      .webp()
+      .toBuffer();
+    await blobStore.put(thumbnailKey, thumbnail);
+  }
+
+  return {
+    uploaderId,
+    fileName: cleanFileName(file.originalname),
+    mimeType,
+    size: file.size,
+    storageKey,
+    thumbnailKey,
+    width,
+    height,
+  };
+}
+
+export function toAttachmentInfo(attachment: Attachment): AttachmentInfo {
+  return {
+    id: attachment.id,
+    fileName: attachment.fileName,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    width: attachment.width,
+    height: attachment.height,
+    hasThumbnail: attachment.thumbnailKey !== null,
+  };
+}
+
+// Sends the right error and returns undefined unless the user may download
+// the attachment: the members of its message's conversation can until the
+// message is deleted for everyone, admins always can
+async function getDownloadableAttachment(req: Request, res: Response): Promise<Attachment | undefined> {
+  if (!req.isAuthenticated()) {
+    res.status(401).send("Unauthorized");
+    return undefined;
+  }
+
+  const attachmentId = parseIdParam(req, res, "id");
+  if (attachmentId === undefined) return undefined;
+
+  const attachment = await storage.getAttachment(attachmentId);
+  const message = attachment && await storage.getMessage(attachment.messageId);
+  const participants = message ? await storage.getConversationParticipants(message.conversationId) : [];
+  const isParticipant = participants.some(participant => participant.userId === req.user!.id);
+  const isAdmin = req.user!.role === "admin";
+
+  if (!attachment || !message || !(isAdmin || (isParticipant && !message.deletedAt))) {
+    res.status(404).send("Attachment not found");
+    return undefined;
+  }
+  return attachment;
+}
+
+// Downloads of attachments and their thumbnails
+export function setupAttachments(app: Express) {
+  app.get("/api/attachments/:id", async (req, res, next) => {
+    try {
+      const attachment = await getDownloadableAttachment(req, res);
+      if (!attachment) return;
+
+      const data = await blobStore.get(attachment.storageKey);
+      if (!data) {
+        res.status(404).send("Attachment not found");
+        return;
+      }
+
+      // Images open in the browser; documents are downloaded
+      if (!isImage(attachment.mimeType)) {
+        res.attachment(attachment.fileName);
+      }
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      res.type(attachment.mimeType).send(data);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get("/api/attachments/:id/thumbnail", async (req, res, next) => {
+    try {
+      const attachment = await getDownloadableAttachment(req, res);
+      if (!attachment) return;
+
+      const data = attachment.thumbnailKey && await blobStore.get(attachment.thumbnailKey);
+      if (!data) {
+        res.status(404).send("Thumbnail not found");
+        return;
+      }
+
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      res.type("image/webp").send(data);
+    } catch (err) {
+      next(err);
+    }
+  });
+}
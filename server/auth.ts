@@ -1,11 +1,22 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type Request, type RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
+import type { ZodError } from "zod";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { broadcastPresence, disconnectSession, disconnectUser } from "./realtime";
+import { sendVerificationEmail } from "./email-verification";
+import { toSelfUser } from "./serializers";
+import { rejectIfLoginThrottled, recordLoginFailure, clearLoginFailures } from "./login-throttle";
+import {
+  User as SelectUser,
+  privacySettingsSchema,
+  registerUserSchema,
+  type AuthErrorBody,
+  type TwoFactorChallenge,
+} from "@shared/schema";
 
 declare global {
   namespace Express {
@@ -13,22 +24,61 @@ declare global {
   }
 }
 
+// Extra details kept on each login session so users can tell them apart
+declare module "express-session" {
+  interface SessionData {
+    loginAt: string;
+    userAgent: string;
+    // Written by passport once the user logs in
+    passport: { user: number };
+    // Between a correct password and the second factor, for users with 2FA on
+    pendingTwoFactor: { userId: number; expiresAt: number; attempts: number };
+    // A secret generated for 2FA setup, kept until the user confirms it
+    pendingTotpSecret: string;
+  }
+}
+
+// How long after entering their password the user has to enter their code
+const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
+function fieldErrorBody(field: string, message: string): AuthErrorBody {
+  return { message, fieldErrors: { [field]: message } };
+}
+
+// The first problem with each field, for the register form to show next to it
+function toFieldErrorBody(error: ZodError): AuthErrorBody {
+  const fieldErrors: Record<string, string> = {};
+  for (const issue of error.issues) {
+    const field = String(issue.path[0] ?? "");
+    fieldErrors[field] ??= issue.message;
+  }
+  return { message: "Check the highlighted fields", fieldErrors };
+}
+
+// Record when and from what client a session was started
+export function recordSessionDetails(req: Request) {
+  req.session.loginAt = new Date().toISOString();
+  req.session.userAgent = req.get("user-agent") ?? "Unknown client";
+}
+
+// Returns the session middleware so other entry points (the realtime socket)
+// can resolve the same login sessions
+export function setupAuth(app: Express): RequestHandler {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET!,
     resave: false,
@@ -43,7 +93,8 @@ export function setupAuth(app: Express) {
   };
 
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  const sessionMiddleware = session(sessionSettings);
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -52,6 +103,8 @@ export function setupAuth(app: Express) {
       const user = await storage.getUserByUsername(username);
       if (!user || !(await comparePasswords(password, user.password))) {
         return done(null, false);
+      } else if (user.suspendedAt) {
+        return done(null, false, { message: "This account has been suspended" });
       } else {
         return done(null, user);
       }
@@ -61,58 +114,172 @@ export function setupAuth(app: Express) {
   passport.serializeUser((user: Express.User, done: any) => done(null, user.id));
   passport.deserializeUser(async (id: number, done: any) => {
     const user = await storage.getUser(id);
-    done(null, user);
+    // Suspended users lose any session that survived the suspension
+    done(null, user && !user.suspendedAt ? user : false);
   });
 
   app.post("/api/register", async (req, res, next) => {
-    const existingUser = await storage.getUserByUsername(req.body.username);
-    if (existingUser) {
-      return res.status(400).send("Username already exists");
+    const parseResult = registerUserSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      return res.status(400).json(toFieldErrorBody(parseResult.error));
     }
+    // Email is optional, but without one a forgotten password can't be reset
+    const { email, ...fields } = parseResult.data;
 
-    const user = await storage.createUser({
-      ...req.body,
-      password: await hashPassword(req.body.password),
-    });
+    try {
+      if (await storage.getUserByUsername(fields.username)) {
+        return res.status(400).json(fieldErrorBody("username", "Username already exists"));
+      }
+      if (email && await storage.getUserByEmail(email)) {
+        return res.status(400).json(fieldErrorBody("email", "An account with this email already exists"));
+      }
 
-    req.login(user, (err: any) => {
-      if (err) return next(err);
-      res.status(201).json(user);
-    });
+      const user = await storage.createUser({
+        ...fields,
+        email: email || null,
+        password: await hashPassword(fields.password),
+      });
+      // The account exists either way; the user can ask for another link later
+      sendVerificationEmail(user).catch(err => console.error("Failed to send verification email:", err));
+
+      req.login(user, (err: any) => {
+        if (err) return next(err);
+        recordSessionDetails(req);
+        res.status(201).json(toSelfUser(user));
+      });
+    } catch (err) {
+      next(err);
+    }
   });
 
   app.post("/api/login", (req, res, next) => {
     console.log("Login attempt for user:", req.body.username);
-    passport.authenticate("local", (err: any, user: Express.User | false, info: any) => {
+    const username = typeof req.body.username === "string" ? req.body.username : "";
+    if (rejectIfLoginThrottled(req, res, username)) return;
+
+    passport.authenticate("local", async (err: any, user: Express.User | false, info: any) => {
       if (err) {
         console.error("Login error:", err);
         return next(err);
       }
       if (!user) {
         console.log("Login failed, no user found or invalid password");
-        return res.status(401).json({ message: info?.message || "Invalid username or password" });
+        // Suspended accounts come back with a message; they guessed nothing wrong
+        if (!info?.message) recordLoginFailure(req, username);
+        return res.status(401).json({ message: info?.message || "Invalid username or password" } satisfies AuthErrorBody);
+      }
+
+      // With 2FA on, the password alone doesn't log in: the session only
+      // remembers who got it right until they enter a code
+      try {
+        if (await storage.getTotpCredential(user.id)) {
+          req.session.pendingTwoFactor = {
+            userId: user.id,
+            expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS,
+            attempts: 0,
+          };
+          const challenge: TwoFactorChallenge = { twoFactorRequired: true };
+          return res.status(200).json(challenge);
+        }
+      } catch (totpErr) {
+        return next(totpErr);
       }
-      
+
       req.login(user, (loginErr: any) => {
         if (loginErr) {
           console.error("Login session error:", loginErr);
           return next(loginErr);
         }
         console.log("Login successful for user ID:", user.id);
-        return res.status(200).json(user);
+        clearLoginFailures(username);
+        recordSessionDetails(req);
+        return res.status(200).json(toSelfUser(user));
       });
     })(req, res, next);
   });
 
   app.post("/api/logout", (req, res, next) => {
+    const userId = req.user?.id;
+    const sid = req.sessionID;
     req.logout((err: any) => {
       if (err) return next(err);
+      if (userId !== undefined) disconnectSession(userId, sid);
       res.sendStatus(200);
     });
   });
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toSelfUser(req.user!));
   });
+
+  app.patch("/api/user/privacy", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const parseResult = privacySettingsSchema.safeParse(req.body);
+    if (!parseResult.success) return res.status(400).json(parseResult.error);
+
+    try {
+      const user = await storage.updatePrivacySettings(req.user!.id, parseResult.data);
+      // Show or hide the user's presence for everyone currently watching it
+      await broadcastPresence(req.user!.id);
+      res.json(toSelfUser(user!));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // List the current user's active sessions
+  app.get("/api/sessions", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const sessions = await storage.getUserSessions(req.user!.id);
+      res.json(sessions.map(userSession => ({
+        ...userSession,
+        current: userSession.sid === req.sessionID,
+      })));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Revoke every session except the one making the request
+  app.delete("/api/sessions", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const revoked = await storage.revokeAllUserSessions(req.user!.id, req.sessionID);
+      disconnectUser(req.user!.id, req.sessionID);
+      res.json({ revoked });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Revoke a single session; revoking the current one logs the user out
+  app.delete("/api/sessions/:sid", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const userId = req.user!.id;
+      const { sid } = req.params;
+      if (sid === req.sessionID) {
+        return req.logout((err: any) => {
+          if (err) return next(err);
+          disconnectSession(userId, sid);
+          res.sendStatus(200);
+        });
+      }
+
+      const revoked = await storage.revokeUserSession(userId, sid);
+      if (!revoked) return res.status(404).send("Session not found");
+      disconnectSession(userId, sid);
+      res.sendStatus(200);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  return sessionMiddleware;
 }
@@ -0,0 +1,59 @@
+import fs from "fs/promises";
+import path from "path";
+
+// Where uploaded files are kept. Keys are generated by the server, never
+// taken from the client.
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  // Resolves to undefined if nothing is stored under the key
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+const KEY_PATTERN = /^[a-z0-9-]+(\/[a-z0-9-]+)*(\.[a-z0-9]+)?$/;
+
+// Stores each blob as a file under rootDir, using the key as its relative path
+export class LocalBlobStore implements BlobStore {
+  constructor(private rootDir: string) {}
+
+  private pathFor(key: string) {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid blob key "${key}"`);
+    }
+    return path.join(this.rootDir, key);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.pathFor(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(this.pathFor(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+}
+
+// BLOB_STORE selects the implementation. Only "local" (the default) exists
+// so far; it writes to UPLOAD_DIR, or ./uploads when that isn't set.
+function createBlobStore(): BlobStore {
+  const backend = process.env.BLOB_STORE ?? "local";
+
+  switch (backend) {
+    case "local":
+      return new LocalBlobStore(path.resolve(process.env.UPLOAD_DIR ?? "uploads"));
+    default:
+      throw new Error(`Unknown BLOB_STORE "${backend}", expected "local"`);
+  }
+}
+
+export const blobStore = createBlobStore();
@@ -0,0 +1,358 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { notifyUsers, getPresence } from "./realtime";
+import { getPublicUser, toConversationView } from "./serializers";
+import { parseIdParam } from "./route-params";
+import {
+  createGroupSchema,
+  renameGroupSchema,
+  addGroupMembersSchema,
+  MAX_GROUP_MEMBERS,
+  MESSAGE_REQUEST_MESSAGE_LIMIT,
+  type ChatMessage,
+  type Conversation,
+} from "@shared/schema";
+
+// When set, users can only start conversations with or message people they
+// have a mutual match with
+const MESSAGING_REQUIRES_MUTUAL_MATCH = process.env.MESSAGING_REQUIRES_MUTUAL_MATCH === "true";
+
+// Why userId may not message otherUserId, or undefined if they may
+export async function getMessagingRestriction(userId: number, otherUserId: number): Promise<string | undefined> {
+  if (await storage.isBlocked(userId, otherUserId)) {
+    return "You can't message this user";
+  }
+  if (MESSAGING_REQUIRES_MUTUAL_MATCH && !(await storage.getMutualMatch(userId, otherUserId))) {
+    return "You can only message your mutual matches";
+  }
+  return undefined;
+}
+
+// Why userId may not add otherUserId to a group, or undefined if they may.
+// Groups don't go through message requests, so they are limited to people
+// the user can already talk to: mutual matches, and people with an accepted
+// one-to-one conversation with the user. A declined request stays declined.
+export async function getGroupMemberRestriction(userId: number, otherUserId: number): Promise<string | undefined> {
+  const restriction = await getMessagingRestriction(userId, otherUserId);
+  if (restriction) return restriction;
+  if (await storage.getMutualMatch(userId, otherUserId)) return undefined;
+  const conversation = await storage.getDirectConversation(userId, otherUserId);
+  if (conversation && (!conversation.requestStatus || conversation.requestStatus === "accepted")) {
+    return undefined;
+  }
+  return "You can only add people to a group once you've matched or they've accepted your message request";
+}
+
+// Why the user may not post in the conversation, or undefined if they may.
+// One-to-one conversations follow getMessagingRestriction. In groups, only a
+// block with another member stops the user; the match rule applies when
+// someone is added instead.
+export async function getConversationRestriction(conversation: Conversation, userId: number): Promise<string | undefined> {
+  if (conversation.requestStatus === "declined" && conversation.createdBy === userId) {
+    return "Your message request was declined";
+  }
+  const otherUserIds = (await getParticipantIds(conversation.id)).filter(id => id !== userId);
+  if (conversation.isGroup) {
+    const blockedUserIds = await getBlockedUserIds(userId);
+    return otherUserIds.some(id => blockedUserIds.has(id))
+      ? "You can't message this group while you and one of its members have a block between you"
+      : undefined;
+  }
+  return otherUserIds.length === 0 ? undefined : getMessagingRestriction(userId, otherUserIds[0]);
+}
+
+// IDs of everyone on either side of a block with the user
+async function getBlockedUserIds(userId: number): Promise<Set<number>> {
+  const blocks = await storage.getBlocksInvolving(userId);
+  return new Set(blocks.map(block => block.blockerId === userId ? block.blockedId : block.blockerId));
+}
+
+// The members a message is pushed to: everyone in its conversation except
+// people on either side of a block with the sender
+export async function getMessageRecipientIds(conversationId: number, senderId: number): Promise<number[]> {
+  const blockedUserIds = await getBlockedUserIds(senderId);
+  return (await getParticipantIds(conversationId)).filter(id => !blockedUserIds.has(id));
+}
+
+// Starts a one-to-one conversation, or returns the existing one. Without a
+// mutual match, a new conversation is a message request to the other user.
+export async function startDirectConversation(initiatorId: number, otherUserId: number): Promise<Conversation> {
+  const isMutualMatch = !!(await storage.getMutualMatch(initiatorId, otherUserId));
+  return storage.getOrCreateDirectConversation(initiatorId, otherUserId, !isMutualMatch);
+}
+
+// True if the conversation is a message request waiting for the user to accept it
+export function isIncomingRequest(conversation: Pick<Conversation, "requestStatus" | "createdBy">, userId: number): boolean {
+  return conversation.requestStatus === "pending" && conversation.createdBy !== userId;
+}
+
+// Messaging or starting a conversation with someone whose message request the
+// user received accepts it, even if they declined it before
+export async function acceptRequestOnReply(conversation: Conversation, userId: number): Promise<Conversation> {
+  if (!conversation.requestStatus || conversation.requestStatus === "accepted" || conversation.createdBy === userId) {
+    return conversation;
+  }
+  return (await storage.updateConversationRequestStatus(conversation.id, "accepted"))!;
+}
+
+// Why the sender may not send this message while their message request is
+// pending, or undefined if they may
+export async function getMessageRequestRestriction(
+  conversation: Conversation,
+  senderId: number,
+  withAttachment: boolean,
+): Promise<string | undefined> {
+  if (conversation.requestStatus !== "pending" || conversation.createdBy !== senderId) {
+    return undefined;
+  }
+  if (withAttachment) {
+    return "You can send attachments once your message request is accepted";
+  }
+  if ((await storage.countUserMessages(conversation.id, senderId)) >= MESSAGE_REQUEST_MESSAGE_LIMIT) {
+    return `You can send up to ${MESSAGE_REQUEST_MESSAGE_LIMIT} messages until your message request is accepted`;
+  }
+  return undefined;
+}
+
+export async function getParticipantIds(conversationId: number): Promise<number[]> {
+  const participants = await storage.getConversationParticipants(conversationId);
+  return participants.map(participant => participant.userId);
+}
+
+// Looks up a conversation the user is a participant of
+export async function getUserConversation(conversationId: number, userId: number): Promise<Conversation | undefined> {
+  const conversation = await storage.getConversationById(conversationId);
+  if (!conversation || !(await getParticipantIds(conversation.id)).includes(userId)) {
+    return undefined;
+  }
+  return conversation;
+}
+
+// A user's profile name, or their username if they haven't given one
+export async function getDisplayName(userId: number): Promise<string> {
+  const profile = await storage.getUserProfile(userId);
+  const user = await storage.getUser(userId);
+  return profile?.fullName || user?.username || "Someone";
+}
+
+// "Sam", "Sam and Jo", "Sam, Jo and Alex"
+function formatNames(names: string[]) {
+  return names.length > 1 ? `${names.slice(0, -1).join(", ")} and ${names.at(-1)}` : names[0] ?? "";
+}
+
+// A conversation as the viewer sees it in their list: their own unread count
+// and settings, and the other members. otherUser is the other member of a
+// one-to-one conversation, and null for groups.
+export async function toConversationSummary(conversation: Conversation, viewerId: number) {
+  const participants = await storage.getConversationParticipants(conversation.id);
+  const viewer = participants.find(participant => participant.userId === viewerId);
+  const members = await Promise.all(participants
+    .filter(participant => participant.userId !== viewerId)
+    .map(async (participant) => {
+      const user = await storage.getUser(participant.userId);
+      return {
+        ...await getPublicUser(participant.userId),
+        presence: user ? await getPresence(user, viewerId) : { online: false, lastSeenAt: null },
+        lastReadMessageId: participant.lastReadMessageId,
+      };
+    }));
+
+  return {
+    ...toConversationView(conversation, viewer),
+    members,
+    otherUser: conversation.isGroup ? null : members[0] ?? null,
+  };
+}
+
+// Records a change to a group in its history and pushes it to the members.
+// alsoNotify is for people who were just removed, so their lists update.
+async function sendSystemMessage(conversationId: number, actorId: number, content: string, alsoNotify: number[] = []) {
+  const message = await storage.sendMessage({ conversationId, senderId: actorId, content, kind: "system" });
+  const chatMessage: ChatMessage = { ...message, reactions: [], attachments: [] };
+  const participantIds = await getParticipantIds(conversationId);
+  notifyUsers(participantIds, { type: "message:new", conversationId, message: chatMessage });
+  notifyUsers([...participantIds, ...alsoNotify], { type: "conversation:updated", conversationId });
+}
+
+// Group conversations: creating, renaming, and adding and removing members
+export function setupGroupConversations(app: Express) {
+  app.post("/api/conversations/groups", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+
+    const parseResult = createGroupSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json(parseResult.error);
+      return;
+    }
+    const { name } = parseResult.data;
+    const memberIds = Array.from(new Set(parseResult.data.memberIds)).filter(id => id !== req.user!.id);
+    if (memberIds.length === 0) {
+      res.status(400).send("A group needs at least one other member");
+      return;
+    }
+
+    try {
+      for (const memberId of memberIds) {
+        if (!(await storage.getUser(memberId))) {
+          res.status(404).send("User not found");
+          return;
+        }
+        const restriction = await getGroupMemberRestriction(req.user!.id, memberId);
+        if (restriction) {
+          res.status(403).send(restriction);
+          return;
+        }
+      }
+
+      const conversation = await storage.createGroupConversation(req.user!.id, name, memberIds);
+      await sendSystemMessage(conversation.id, req.user!.id, `${await getDisplayName(req.user!.id)} created the group "${name}"`);
+      res.status(201).json(await toConversationSummary(conversation, req.user!.id));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.patch("/api/conversations/:conversationId", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+    const conversationId = parseIdParam(req, res, "conversationId");
+    if (conversationId === undefined) return;
+
+    try {
+      const conversation = await getUserConversation(conversationId, req.user!.id);
+      if (!conversation) {
+        res.status(404).send("Conversation not found");
+        return;
+      }
+      if (!conversation.isGroup) {
+        res.status(400).send("Only groups can be renamed");
+        return;
+      }
+
+      const parseResult = renameGroupSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        res.status(400).json(parseResult.error);
+        return;
+      }
+      const { name } = parseResult.data;
+
+      if (name === conversation.name) {
+        res.json(await toConversationSummary(conversation, req.user!.id));
+        return;
+      }
+
+      const renamed = await storage.renameConversation(conversation.id, name);
+      await sendSystemMessage(conversation.id, req.user!.id, `${await getDisplayName(req.user!.id)} renamed the group to "${name}"`);
+      res.json(await toConversationSummary(renamed!, req.user!.id));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Any member can add people they can already talk to
+  app.post("/api/conversations/:conversationId/members", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+    const conversationId = parseIdParam(req, res, "conversationId");
+    if (conversationId === undefined) return;
+
+    try {
+      const conversation = await getUserConversation(conversationId, req.user!.id);
+      if (!conversation) {
+        res.status(404).send("Conversation not found");
+        return;
+      }
+      if (!conversation.isGroup) {
+        res.status(400).send("Members can only be added to groups");
+        return;
+      }
+
+      const parseResult = addGroupMembersSchema.safeParse(req.body);
+      if (!parseResult.success) {
+        res.status(400).json(parseResult.error);
+        return;
+      }
+
+      const participantIds = await getParticipantIds(conversation.id);
+      const newMemberIds = Array.from(new Set(parseResult.data.userIds)).filter(id => !participantIds.includes(id));
+      if (participantIds.length + newMemberIds.length > MAX_GROUP_MEMBERS) {
+        res.status(400).send(`Groups can have at most ${MAX_GROUP_MEMBERS} members`);
+        return;
+      }
+
+      for (const memberId of newMemberIds) {
+        if (!(await storage.getUser(memberId))) {
+          res.status(404).send("User not found");
+          return;
+        }
+        const restriction = await getGroupMemberRestriction(req.user!.id, memberId);
+        if (restriction) {
+          res.status(403).send(restriction);
+          return;
+        }
+      }
+
+      const added = await storage.addConversationParticipants(conversation.id, newMemberIds);
+      if (added.length > 0) {
+        const names = await Promise.all(added.map(participant => getDisplayName(participant.userId)));
+        await sendSystemMessage(conversation.id, req.user!.id, `${await getDisplayName(req.user!.id)} added ${formatNames(names)}`);
+      }
+      res.json(await toConversationSummary(conversation, req.user!.id));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Members can leave; only the group's creator can remove someone else
+  app.delete("/api/conversations/:conversationId/members/:userId", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+    const conversationId = parseIdParam(req, res, "conversationId");
+    if (conversationId === undefined) return;
+    const memberId = parseIdParam(req, res, "userId");
+    if (memberId === undefined) return;
+
+    try {
+      const conversation = await getUserConversation(conversationId, req.user!.id);
+      if (!conversation) {
+        res.status(404).send("Conversation not found");
+        return;
+      }
+      if (!conversation.isGroup) {
+        res.status(400).send("Members can only be removed from groups");
+        return;
+      }
+
+      const isLeaving = memberId === req.user!.id;
+      if (!isLeaving && conversation.createdBy !== req.user!.id) {
+        res.status(403).send("Only the group's creator can remove members");
+        return;
+      }
+
+      if (!(await storage.removeConversationParticipant(conversation.id, memberId))) {
+        res.status(404).send("Member not found");
+        return;
+      }
+
+      const memberName = await getDisplayName(memberId);
+      await sendSystemMessage(
+        conversation.id,
+        req.user!.id,
+        isLeaving ? `${memberName} left` : `${await getDisplayName(req.user!.id)} removed ${memberName}`,
+        [memberId],
+      );
+      res.sendStatus(204);
+    } catch (err) {
+      next(err);
+    }
+  });
+}
@@ -0,0 +1,209 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import { sessions } from "@shared/schema";
+import { DbStorage } from "./db-storage";
+import type { Database } from "./db";
+
+// Runs DbStorage against an in-process Postgres with the real migrations applied
+async function createTestStorage() {
+  const db = drizzle(new PGlite(), { schema });
+  await migrate(db, { migrationsFolder: "migrations" });
+  return { db, storage: new DbStorage(db as unknown as Database) };
+}
+
+const profile = {
+  fullName: "Sam Jones",
+  age: 28,
+  lifestyle: "moderate",
+  cleanliness: "clean",
+  hobbies: ["Reading"],
+  interests: ["Art"],
+};
+
+let storage: DbStorage;
+let db: Awaited<ReturnType<typeof createTestStorage>>["db"];
+let nextUser = 0;
+
+function createUser(email: string | null = null) {
+  nextUser++;
+  return storage.createUser({ username: `user${nextUser}`, password: "hash", email });
+}
+
+before(async () => {
+  ({ db, storage } = await createTestStorage());
+});
+
+describe("users", () => {
+  it("creates and looks up users", async () => {
+    const user = await createUser("sam@example.com");
+    assert.equal((await storage.getUser(user.id))?.username, user.username);
+    assert.equal((await storage.getUserByUsername(user.username))?.id, user.id);
+    assert.equal((await storage.getUserByEmail("sam@example.com"))?.id, user.id);
+    assert.deepEqual((await storage.getUsers([user.id])).map(found => found.id), [user.id]);
+    assert.equal(await storage.getUser(999_999), undefined);
+  });
+
+  it("only verifies the email the token was sent to", async () => {
+    const user = await createUser("old@example.com");
+    await storage.updateUserEmail(user.id, "new@example.com");
+    assert.equal(await storage.markEmailVerified(user.id, "old@example.com"), undefined);
+    const verified = await storage.markEmailVerified(user.id, "new@example.com");
+    assert.ok(verified?.emailVerifiedAt);
+  });
+
+  it("suspends and lifts suspensions", async () => {
+    const user = await createUser();
+    assert.equal((await storage.setUserSuspension(user.id, "spam"))?.suspensionReason, "spam");
+    assert.equal((await storage.setUserSuspension(user.id, null))?.suspendedAt, null);
+  });
+});
+
+describe("profiles", () => {
+  it("creates a profile and marks it complete", async () => {
+    const user = await createUser();
+    const created = await storage.createUserProfile(user.id, profile);
+    assert.equal(created.userId, user.id);
+    assert.equal(created.profileComplete, true);
+    assert.equal((await storage.getUserProfile(user.id))?.fullName, "Sam Jones");
+  });
+
+  it("updates part of a profile and recomputes completeness", async () => {
+    const user = await createUser();
+    await storage.createUserProfile(user.id, profile);
+    const updated = await storage.updateUserProfile(user.id, { hobbies: [] });
+    assert.equal(updated.fullName, "Sam Jones");
+    assert.equal(updated.profileComplete, false);
+  });
+
+  it("lists every profile", async () => {
+    const user = await createUser();
+    await storage.createUserProfile(user.id, profile);
+    assert.ok((await storage.getAllUserProfiles()).some(found => found.userId === user.id));
+  });
+});
+
+describe("conversations and messages", () => {
+  it("reuses the direct conversation between two users", async () => {
+    const a = await createUser();
+    const b = await createUser();
+    const first = await storage.getOrCreateDirectConversation(a.id, b.id);
+    const second = await storage.getOrCreateDirectConversation(b.id, a.id);
+    assert.equal(second.id, first.id);
+    assert.equal((await storage.getDirectConversation(a.id, b.id))?.id, first.id);
+    assert.deepEqual(
+      (await storage.getConversationParticipants(first.id)).map(participant => participant.userId).sort(),
+      [a.id, b.id].sort(),
+    );
+  });
+
+  it("starts a pending message request when asked to", async () => {
+    const a = await createUser();
+    const b = await createUser();
+    const conversation = await storage.getOrCreateDirectConversation(a.id, b.id, true);
+    assert.equal(conversation.requestStatus, "pending");
+    const accepted = await storage.updateConversationRequestStatus(conversation.id, "accepted");
+    assert.equal(accepted?.requestStatus, "accepted");
+  });
+
+  it("counts unread messages per participant until they are read", async () => {
+    const a = await createUser();
+    const b = await createUser();
+    const conversation = await storage.getOrCreateDirectConversation(a.id, b.id);
+    const message = await storage.sendMessage({ conversationId: conversation.id, senderId: a.id, content: "hi" });
+
+    const unread = async (userId: number) => (await storage.getConversationParticipants(conversation.id))
+      .find(participant => participant.userId === userId)!.unreadCount;
+    assert.equal(await unread(a.id), 0);
+    assert.equal(await unread(b.id), 1);
+    assert.ok((await storage.getConversationById(conversation.id))?.lastMessageAt);
+
+    assert.ok(await storage.markMessagesAsRead(conversation.id, b.id));
+    assert.equal(await unread(b.id), 0);
+    assert.equal(await storage.markMessagesAsRead(conversation.id, b.id), null);
+    assert.equal((await storage.getMessage(message.id))?.content, "hi");
+  });
+
+  it("pages through messages by cursor", async () => {
+    const a = await createUser();
+    const b = await createUser();
+    const conversation = await storage.getOrCreateDirectConversation(a.id, b.id);
+    const sent = [];
+    for (let i = 0; i < 5; i++) {
+      sent.push(await storage.sendMessage({ conversationId: conversation.id, senderId: a.id, content: `m${i}` }));
+    }
+
+    const latest = await storage.getMessages(conversation.id, a.id, { limit: 2 });
+    assert.deepEqual(latest.messages.map(message => message.content), ["m3", "m4"]);
+    assert.equal(latest.hasMore, true);
+
+    const older = await storage.getMessages(conversation.id, a.id, { before: sent[3].id, limit: 10 });
+    assert.deepEqual(older.messages.map(message => message.content), ["m0", "m1", "m2"]);
+    assert.equal(older.hasMore, false);
+
+    const newer = await storage.getMessages(conversation.id, a.id, { after: sent[3].id, limit: 10 });
+    assert.deepEqual(newer.messages.map(message => message.content), ["m4"]);
+
+    const around = await storage.getMessages(conversation.id, a.id, { around: sent[2].id, limit: 3 });
+    assert.deepEqual(around.messages.map(message => message.content), ["m1", "m2", "m3"]);
+    assert.equal(around.hasMore, true);
+    assert.equal(around.hasNewer, true);
+  });
+
+  it("keeps the edit history and hides messages per user", async () => {
+    const a = await createUser();
+    const b = await createUser();
+    const conversation = await storage.getOrCreateDirectConversation(a.id, b.id);
+    const message = await storage.sendMessage({ conversationId: conversation.id, senderId: a.id, content: "helo" });
+
+    assert.equal((await storage.editMessage(message.id, "hello"))?.content, "hello");
+    assert.deepEqual((await storage.getMessageEdits(message.id)).map(edit => edit.previousContent), ["helo"]);
+
+    await storage.hideMessage(message.id, b.id);
+    assert.equal((await storage.getMessages(conversation.id, b.id, { limit: 10 })).messages.length, 0);
+    assert.equal((await storage.getMessages(conversation.id, a.id, { limit: 10 })).messages.length, 1);
+  });
+
+  it("adds and removes group members", async () => {
+    const creator = await createUser();
+    const member = await createUser();
+    const late = await createUser();
+    const group = await storage.createGroupConversation(creator.id, "Flat", [member.id]);
+    assert.equal(group.isGroup, true);
+
+    const added = await storage.addConversationParticipants(group.id, [member.id, late.id]);
+    assert.deepEqual(added.map(participant => participant.userId), [late.id]);
+    assert.equal(await storage.removeConversationParticipant(group.id, late.id), true);
+    assert.equal(await storage.removeConversationParticipant(group.id, late.id), false);
+    assert.ok((await storage.getUserConversations(member.id)).some(conversation => conversation.id === group.id));
+  });
+});
+
+describe("sessions", () => {
+  const expire = () => new Date(Date.now() + 60 * 60 * 1000);
+  const sess = (userId: number) => ({ cookie: {}, passport: { user: userId }, userAgent: "test" });
+
+  it("lists and revokes only the user's own sessions", async () => {
+    const user = await createUser();
+    const other = await createUser();
+    await db.insert(sessions).values([
+      { sid: `s${user.id}-1`, sess: sess(user.id), expire: expire() },
+      { sid: `s${user.id}-2`, sess: sess(user.id), expire: expire() },
+      { sid: `s${other.id}-1`, sess: sess(other.id), expire: expire() },
+      { sid: `s${user.id}-old`, sess: sess(user.id), expire: new Date(Date.now() - 1000) },
+    ]);
+
+    assert.deepEqual(
+      (await storage.getUserSessions(user.id)).map(userSession => userSession.sid).sort(),
+      [`s${user.id}-1`, `s${user.id}-2`],
+    );
+    assert.equal(await storage.revokeUserSession(user.id, `s${other.id}-1`), false);
+    assert.equal(await storage.revokeUserSession(user.id, `s${user.id}-1`), true);
+    assert.equal(await storage.revokeAllUserSessions(user.id, `s${user.id}-2`), 1);
+    assert.deepEqual((await storage.getUserSessions(user.id)).map(userSession => userSession.sid), [`s${user.id}-2`]);
+    assert.equal((await storage.getUserSessions(other.id)).length, 1);
+  });
+});
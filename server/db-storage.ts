@@ -0,0 +1,936 @@
+import {
+  users,
+  userProfiles,
+  properties,
+  messages,
+  conversations,
+  conversationParticipants,
+  matchDecisions,
+  mutualMatches,
+  blocks,
+  reports,
+  messageEdits,
+  hiddenMessages,
+  messageReactions,
+  attachments,
+  passwordResetTokens,
+  emailVerificationTokens,
+  totpCredentials,
+  recoveryCodes,
+  sessions,
+  User,
+  Property,
+  InsertUser,
+  InsertProperty,
+  UserProfile,
+  InsertUserProfile,
+  Message,
+  InsertMessage,
+  MessagePage,
+  MessagePageQuery,
+  MessageEdit,
+  MessageReaction,
+  MessageReactionEmoji,
+  Attachment,
+  Conversation,
+  ConversationParticipant,
+  ConversationSettings,
+  PasswordResetToken,
+  EmailVerificationToken,
+  TotpCredential,
+  MessageRequestStatus,
+  MatchDecision,
+  MatchDecisionValue,
+  MutualMatch,
+  Block,
+  Report,
+  ReportStatus,
+  UserRole,
+  PrivacySettings,
+  toDirectKey,
+} from "@shared/schema";
+import { and, asc, count, desc, eq, gt, gte, inArray, isNull, lt, max, ne, notExists, or, sql } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import type { Database } from "./db";
+import type { IStorage, MatchDecisionResult, MessageSearchPageQuery, NewAttachment, NewReport, ReportResolution } from "./storage";
+import { toUserSession, type UserSession } from "./user-sessions";
+
+const MemoryStore = createMemoryStore(session);
+
+// Same rule MemStorage applies: a profile is complete once it has a name,
+// at least one interest and at least one hobby.
+function isProfileComplete(profile: Pick<UserProfile, "fullName" | "interests" | "hobbies">): boolean {
+  return Boolean(
+    profile.fullName &&
+    profile.interests && profile.interests.length > 0 &&
+    profile.hobbies && profile.hobbies.length > 0
+  );
+}
+
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+
+  // The Postgres session store is passed in by createStorage; without one
+  // (e.g. against pglite) sessions fall back to memory and the session
+  // methods below only see rows that happen to be in the session table.
+  constructor(private db: Database, sessionStore?: session.Store) {
+    this.sessionStore = sessionStore ?? new MemoryStore({
+      checkPeriod: 86400000,
+    });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUsers(ids: number[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+    return this.db.select().from(users).where(inArray(users.id, ids));
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    // Only copy the insertable fields: the register route passes the request
+    // body through, and role or suspension must never come from there
+    const [user] = await this.db
+      .insert(users)
+      .values({
+        username: insertUser.username,
+        password: insertUser.password,
+        email: insertUser.email,
+        avatarUrl: insertUser.avatarUrl,
+        bio: insertUser.bio,
+      })
+      .returning();
+    return user;
+  }
+
+  async updateUserPassword(userId: number, password: string): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set({ password }).where(eq(users.id, userId)).returning();
+    return user;
+  }
+
+  async updateUserEmail(userId: number, email: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set({ email, emailVerifiedAt: null })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async markEmailVerified(userId: number, email: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set({ emailVerifiedAt: sql`coalesce(${users.emailVerifiedAt}, now())` })
+      .where(and(eq(users.id, userId), eq(users.email, email)))
+      .returning();
+    return user;
+  }
+
+  async setUserRole(userId: number, role: UserRole): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set({ role }).where(eq(users.id, userId)).returning();
+    return user;
+  }
+
+  async setUserSuspension(userId: number, reason: string | null): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set({ suspendedAt: reason === null ? null : new Date(), suspensionReason: reason })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async setUserLastSeen(userId: number, lastSeenAt: Date): Promise<void> {
+    await this.db.update(users).set({ lastSeenAt }).where(eq(users.id, userId));
+  }
+
+  async updatePrivacySettings(userId: number, settings: PrivacySettings): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set({ showLastSeen: settings.showLastSeen })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async getUserProfile(userId: number): Promise<UserProfile | undefined> {
+    const [profile] = await this.db
+      .select()
+      .from(userProfiles)
+      .where(eq(userProfiles.userId, userId))
+      .limit(1);
+    return profile;
+  }
+
+  async createUserProfile(userId: number, insertProfile: InsertUserProfile): Promise<UserProfile> {
+    const hobbies = insertProfile.hobbies ?? [];
+    const interests = insertProfile.interests ?? [];
+    const roommateQualities = insertProfile.roommateQualities ?? [];
+
+    const [profile] = await this.db
+      .insert(userProfiles)
+      .values({
+        ...insertProfile,
+        userId,
+        hobbies,
+        interests,
+        roommateQualities,
+        profileComplete: isProfileComplete({ fullName: insertProfile.fullName ?? null, interests, hobbies }),
+      })
+      .returning();
+    return profile;
+  }
+
+  async updateUserProfile(userId: number, updateData: Partial<InsertUserProfile>): Promise<UserProfile> {
+    const existingProfile = await this.getUserProfile(userId);
+
+    // Mirror MemStorage: updating a missing profile creates it
+    if (!existingProfile) {
+      return this.createUserProfile(userId, updateData as InsertUserProfile);
+    }
+
+    const merged = { ...existingProfile, ...updateData };
+    const hobbies = merged.hobbies ?? [];
+    const interests = merged.interests ?? [];
+    const roommateQualities = merged.roommateQualities ?? [];
+
+    const [profile] = await this.db
+      .update(userProfiles)
+      .set({
+        ...updateData,
+        hobbies,
+        interests,
+        roommateQualities,
+        profileComplete: isProfileComplete({ fullName: merged.fullName, interests, hobbies }),
+      })
+      .where(eq(userProfiles.id, existingProfile.id))
+      .returning();
+    return profile;
+  }
+
+  async getAllUserProfiles(): Promise<UserProfile[]> {
+    return this.db.select().from(userProfiles);
+  }
+
+  async getProperties(): Promise<Property[]> {
+    return this.db.select().from(properties);
+  }
+
+  async getProperty(id: number): Promise<Property | undefined> {
+    const [property] = await this.db.select().from(properties).where(eq(properties.id, id));
+    return property;
+  }
+
+  async createProperty(userId: number, insertProperty: InsertProperty): Promise<Property> {
+    const [property] = await this.db
+      .insert(properties)
+      .values({
+        ...insertProperty,
+        userId,
+        imageUrls: insertProperty.imageUrls ?? [],
+        amenities: insertProperty.amenities ?? [],
+      })
+      .returning();
+    return property;
+  }
+
+  // Messaging methods
+
+  async getDirectConversation(user1Id: number, user2Id: number): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .select()
+      .from(conversations)
+      .where(eq(conversations.directKey, toDirectKey(user1Id, user2Id)));
+    return conversation;
+  }
+
+  async getConversationById(id: number): Promise<Conversation | undefined> {
+    const [conversation] = await this.db.select().from(conversations).where(eq(conversations.id, id));
+    return conversation;
+  }
+
+  async getUserConversations(userId: number): Promise<Conversation[]> {
+    return this.db
+      .select()
+      .from(conversations)
+      .where(inArray(conversations.id, this.userConversationIds(userId)));
+  }
+
+  async getOrCreateDirectConversation(initiatorId: number, otherUserId: number, asRequest = false): Promise<Conversation> {
+    const directKey = toDirectKey(initiatorId, otherUserId);
+
+    // The unique direct key settles races between two users starting the same conversation
+    const created = await this.db.transaction(async (tx) => {
+      const [conversation] = await tx
+        .insert(conversations)
+        .values({
+          directKey,
+          createdBy: initiatorId,
+          requestStatus: asRequest ? "pending" : null,
+          lastMessageAt: new Date(),
+        })
+        .onConflictDoNothing({ target: conversations.directKey })
+        .returning();
+      if (conversation) {
+        await tx.insert(conversationParticipants).values([
+          { conversationId: conversation.id, userId: initiatorId },
+          { conversationId: conversation.id, userId: otherUserId },
+        ]);
+        console.log(`Created new conversation ${conversation.id} between users ${initiatorId} and ${otherUserId}`);
+      }
+      return conversation;
+    });
+
+    return created ?? (await this.getDirectConversation(initiatorId, otherUserId))!;
+  }
+
+  async createGroupConversation(creatorId: number, name: string, memberIds: number[]): Promise<Conversation> {
+    return this.db.transaction(async (tx) => {
+      const [conversation] = await tx
+        .insert(conversations)
+        .values({ isGroup: true, name, createdBy: creatorId, lastMessageAt: new Date() })
+        .returning();
+      await tx
+        .insert(conversationParticipants)
+        .values(Array.from(new Set([creatorId, ...memberIds]), userId => ({ conversationId: conversation.id, userId })));
+      return conversation;
+    });
+  }
+
+  async renameConversation(id: number, name: string): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .update(conversations)
+      .set({ name })
+      .where(eq(conversations.id, id))
+      .returning();
+    return conversation;
+  }
+
+  async updateConversationRequestStatus(id: number, requestStatus: MessageRequestStatus): Promise<Conversation | undefined> {
+    const [conversation] = await this.db
+      .update(conversations)
+      .set({ requestStatus })
+      .where(eq(conversations.id, id))
+      .returning();
+    return conversation;
+  }
+
+  async getConversationParticipants(conversationId: number): Promise<ConversationParticipant[]> {
+    return this.db
+      .select()
+      .from(conversationParticipants)
+      .where(eq(conversationParticipants.conversationId, conversationId))
+      .orderBy(asc(conversationParticipants.id));
+  }
+
+  async addConversationParticipants(conversationId: number, userIds: number[]): Promise<ConversationParticipant[]> {
+    // New members have read everything sent before they joined
+    const [{ lastMessageId }] = await this.db
+      .select({ lastMessageId: max(messages.id) })
+      .from(messages)
+      .where(eq(messages.conversationId, conversationId));
+
+    return this.db
+      .insert(conversationParticipants)
+      .values(Array.from(new Set(userIds), userId => ({ conversationId, userId, lastReadMessageId: lastMessageId })))
+      .onConflictDoNothing({ target: [conversationParticipants.conversationId, conversationParticipants.userId] })
+      .returning();
+  }
+
+  async removeConversationParticipant(conversationId: number, userId: number): Promise<boolean> {
+    const removed = await this.db
+      .delete(conversationParticipants)
+      .where(and(eq(conversationParticipants.conversationId, conversationId), eq(conversationParticipants.userId, userId)))
+      .returning({ id: conversationParticipants.id });
+    return removed.length > 0;
+  }
+
+  async updateConversationSettings(conversationId: number, userId: number, settings: ConversationSettings): Promise<ConversationParticipant | undefined> {
+    const { pinned, ...flags } = settings;
+    const [participant] = await this.db
+      .update(conversationParticipants)
+      .set({
+        ...flags,
+        // Pinning an already pinned conversation keeps its place
+        ...(pinned === undefined ? {} : {
+          pinnedAt: pinned ? sql`coalesce(${conversationParticipants.pinnedAt}, now())` : null,
+        }),
+      })
+      .where(and(eq(conversationParticipants.conversationId, conversationId), eq(conversationParticipants.userId, userId)))
+      .returning();
+    return participant;
+  }
+
+  private userConversationIds(userId: number) {
+    return this.db
+      .select({ id: conversationParticipants.conversationId })
+      .from(conversationParticipants)
+      .where(eq(conversationParticipants.userId, userId));
+  }
+
+  async getMessage(id: number): Promise<Message | undefined> {
+    const [message] = await this.db.select().from(messages).where(eq(messages.id, id));
+    return message;
+  }
+
+  async countUserMessages(conversationId: number, senderId: number): Promise<number> {
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(messages)
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        eq(messages.senderId, senderId),
+        eq(messages.kind, "text"),
+      ));
+    return total;
+  }
+
+  async getMessages(conversationId: number, viewerId: number, page: MessagePageQuery): Promise<MessagePage<Message>> {
+    const visible = and(
+      eq(messages.conversationId, conversationId),
+      notExists(this.db
+        .select({ id: hiddenMessages.id })
+        .from(hiddenMessages)
+        .where(and(eq(hiddenMessages.messageId, messages.id), eq(hiddenMessages.userId, viewerId)))),
+    );
+
+    // One extra row tells whether there is more beyond this page
+    if (page.around !== undefined) {
+      // Half the page before the message, and the message and the rest after it
+      const olderLimit = Math.floor(page.limit / 2);
+      const newerLimit = page.limit - olderLimit;
+      const older = await this.db
+        .select()
+        .from(messages)
+        .where(and(visible, lt(messages.id, page.around)))
+        .orderBy(desc(messages.id))
+        .limit(olderLimit + 1);
+      const newer = await this.db
+        .select()
+        .from(messages)
+        .where(and(visible, gte(messages.id, page.around)))
+        .orderBy(asc(messages.id))
+        .limit(newerLimit + 1);
+      return {
+        messages: [...older.slice(0, olderLimit).reverse(), ...newer.slice(0, newerLimit)],
+        hasMore: older.length > olderLimit,
+        hasNewer: newer.length > newerLimit,
+      };
+    }
+
+    if (page.after !== undefined) {
+      const rows = await this.db
+        .select()
+        .from(messages)
+        .where(and(visible, gt(messages.id, page.after)))
+        .orderBy(asc(messages.id))
+        .limit(page.limit + 1);
+      return { messages: rows.slice(0, page.limit), hasMore: rows.length > page.limit };
+    }
+
+    const rows = await this.db
+      .select()
+      .from(messages)
+      .where(page.before !== undefined ? and(visible, lt(messages.id, page.before)) : visible)
+      .orderBy(desc(messages.id))
+      .limit(page.limit + 1);
+    return { messages: rows.slice(0, page.limit).reverse(), hasMore: rows.length > page.limit };
+  }
+
+  async searchMessages(userId: number, terms: string[], page: MessageSearchPageQuery): Promise<MessagePage<Message>> {
+    // Every term must prefix a word; the terms are letters and digits only,
+    // so they are safe to join into tsquery syntax
+    const query = terms.map(term => `${term}:*`).join(" & ");
+    const conditions = [
+      inArray(messages.conversationId, this.userConversationIds(userId)),
+      eq(messages.kind, "text"),
+      isNull(messages.deletedAt),
+      notExists(this.db
+        .select({ id: hiddenMessages.id })
+        .from(hiddenMessages)
+        .where(and(eq(hiddenMessages.messageId, messages.id), eq(hiddenMessages.userId, userId)))),
+      sql`to_tsvector('simple', ${messages.content}) @@ to_tsquery('simple', ${query})`,
+    ];
+    if (page.before !== undefined) {
+      conditions.push(lt(messages.id, page.before));
+    }
+
+    const rows = await this.db
+      .select()
+      .from(messages)
+      .where(and(...conditions))
+      .orderBy(desc(messages.id))
+      .limit(page.limit + 1);
+    return { messages: rows.slice(0, page.limit), hasMore: rows.length > page.limit };
+  }
+
+  async sendMessage(message: InsertMessage): Promise<Message> {
+    const conversation = await this.getConversationById(message.conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${message.conversationId} not found`);
+    }
+
+    let receiverId: number | null = null;
+    if (!conversation.isGroup) {
+      const participants = await this.getConversationParticipants(conversation.id);
+      receiverId = participants.find(participant => participant.userId !== message.senderId)?.userId ?? null;
+    }
+
+    // The message, the participants' read state and the conversation's
+    // ordering change together or not at all
+    return this.db.transaction(async (tx) => {
+      const [newMessage] = await tx
+        .insert(messages)
+        .values({ ...message, receiverId, read: message.read ?? false })
+        .returning();
+
+      // The sender has read their own message; everyone else has another unread one
+      await tx
+        .update(conversationParticipants)
+        .set({ lastReadMessageId: newMessage.id })
+        .where(and(
+          eq(conversationParticipants.conversationId, conversation.id),
+          eq(conversationParticipants.userId, message.senderId),
+        ));
+      if (newMessage.kind === "text") {
+        await tx
+          .update(conversationParticipants)
+          .set({ archived: false })
+          .where(eq(conversationParticipants.conversationId, conversation.id));
+        await tx
+          .update(conversationParticipants)
+          .set({ unreadCount: sql`${conversationParticipants.unreadCount} + 1` })
+          .where(and(
+            eq(conversationParticipants.conversationId, conversation.id),
+            ne(conversationParticipants.userId, message.senderId),
+          ));
+      }
+      await tx
+        .update(conversations)
+        .set({ lastMessageAt: newMessage.createdAt })
+        .where(eq(conversations.id, conversation.id));
+
+      return newMessage;
+    });
+  }
+
+  async markMessagesAsRead(conversationId: number, userId: number): Promise<Date | null> {
+    const [participant] = await this.db
+      .select()
+      .from(conversationParticipants)
+      .where(and(eq(conversationParticipants.conversationId, conversationId), eq(conversationParticipants.userId, userId)));
+    if (!participant) {
+      return null;
+    }
+
+    const readAt = new Date();
+    const marked = await this.db
+      .update(messages)
+      .set({ read: true, readAt })
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        eq(messages.receiverId, userId),
+        eq(messages.read, false),
+      ))
+      .returning({ id: messages.id });
+
+    // Reset the reader's unread count; the other participants' are untouched
+    const [{ lastMessageId }] = await this.db
+      .select({ lastMessageId: max(messages.id) })
+      .from(messages)
+      .where(eq(messages.conversationId, conversationId));
+    await this.db
+      .update(conversationParticipants)
+      .set({ unreadCount: 0, lastReadMessageId: lastMessageId })
+      .where(eq(conversationParticipants.id, participant.id));
+
+    return marked.length > 0 || lastMessageId !== participant.lastReadMessageId ? readAt : null;
+  }
+
+  async editMessage(id: number, content: string): Promise<Message | undefined> {
+    return this.replaceMessageContent(id, { content, editedAt: new Date() });
+  }
+
+  async deleteMessageForEveryone(id: number): Promise<Message | undefined> {
+    return this.replaceMessageContent(id, { content: "", deletedAt: new Date() });
+  }
+
+  // Moves the current content into the edit history before overwriting it
+  private async replaceMessageContent(id: number, update: Partial<Message>): Promise<Message | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [message] = await tx.select().from(messages).where(eq(messages.id, id)).for("update");
+      if (!message) return undefined;
+
+      await tx.insert(messageEdits).values({ messageId: id, previousContent: message.content });
+      const [updatedMessage] = await tx.update(messages).set(update).where(eq(messages.id, id)).returning();
+      return updatedMessage;
+    });
+  }
+
+  async hideMessage(messageId: number, userId: number): Promise<void> {
+    await this.db.insert(hiddenMessages).values({ messageId, userId }).onConflictDoNothing();
+  }
+
+  async getMessageEdits(messageId: number): Promise<MessageEdit[]> {
+    return this.db
+      .select()
+      .from(messageEdits)
+      .where(eq(messageEdits.messageId, messageId))
+      .orderBy(asc(messageEdits.id));
+  }
+
+  async getMessageReactions(messageIds: number[]): Promise<MessageReaction[]> {
+    if (messageIds.length === 0) return [];
+    return this.db.select().from(messageReactions).where(inArray(messageReactions.messageId, messageIds));
+  }
+
+  async setMessageReaction(messageId: number, userId: number, emoji: MessageReactionEmoji): Promise<MessageReaction> {
+    const [reaction] = await this.db
+      .insert(messageReactions)
+      .values({ messageId, userId, emoji })
+      .onConflictDoUpdate({
+        target: [messageReactions.messageId, messageReactions.userId],
+        set: { emoji, createdAt: new Date() },
+      })
+      .returning();
+    return reaction;
+  }
+
+  async removeMessageReaction(messageId: number, userId: number): Promise<boolean> {
+    const removed = await this.db
+      .delete(messageReactions)
+      .where(and(eq(messageReactions.messageId, messageId), eq(messageReactions.userId, userId)))
+      .returning({ id: messageReactions.id });
+    return removed.length > 0;
+  }
+
+  // Attachment methods
+
+  async createAttachment(attachment: NewAttachment): Promise<Attachment> {
+    const [newAttachment] = await this.db.insert(attachments).values(attachment).returning();
+    return newAttachment;
+  }
+
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    const [attachment] = await this.db.select().from(attachments).where(eq(attachments.id, id));
+    return attachment;
+  }
+
+  async getMessageAttachments(messageIds: number[]): Promise<Attachment[]> {
+    if (messageIds.length === 0) return [];
+    return this.db
+      .select()
+      .from(attachments)
+      .where(inArray(attachments.messageId, messageIds))
+      .orderBy(asc(attachments.id));
+  }
+
+  // Like / pass methods
+
+  async getMatchDecisions(userId: number): Promise<MatchDecision[]> {
+    return this.db.select().from(matchDecisions).where(eq(matchDecisions.userId, userId));
+  }
+
+  async recordMatchDecision(userId: number, targetUserId: number, value: MatchDecisionValue): Promise<MatchDecisionResult> {
+    const [smallerId, largerId] = userId < targetUserId ? [userId, targetUserId] : [targetUserId, userId];
+
+    return this.db.transaction(async (tx) => {
+      const [decision] = await tx
+        .insert(matchDecisions)
+        .values({ userId, targetUserId, decision: value, createdAt: new Date() })
+        .onConflictDoUpdate({
+          target: [matchDecisions.userId, matchDecisions.targetUserId],
+          set: { decision: value, createdAt: new Date() },
+        })
+        .returning();
+
+      const pair = and(eq(mutualMatches.user1Id, smallerId), eq(mutualMatches.user2Id, largerId));
+
+      // Passing on someone undoes a mutual match
+      if (value === "pass") {
+        await tx.delete(mutualMatches).where(pair);
+        return { decision };
+      }
+
+      const [otherDecision] = await tx
+        .select()
+        .from(matchDecisions)
+        .where(and(eq(matchDecisions.userId, targetUserId), eq(matchDecisions.targetUserId, userId)));
+      if (otherDecision?.decision !== "like") {
+        return { decision };
+      }
+
+      // Both sides can like at the same moment; the unique index keeps one row
+      await tx
+        .insert(mutualMatches)
+        .values({ user1Id: smallerId, user2Id: largerId })
+        .onConflictDoNothing();
+      const [mutualMatch] = await tx.select().from(mutualMatches).where(pair);
+      return { decision, mutualMatch };
+    });
+  }
+
+  async getMutualMatch(user1Id: number, user2Id: number): Promise<MutualMatch | undefined> {
+    const [smallerId, largerId] = user1Id < user2Id ? [user1Id, user2Id] : [user2Id, user1Id];
+    const [mutualMatch] = await this.db
+      .select()
+      .from(mutualMatches)
+      .where(and(eq(mutualMatches.user1Id, smallerId), eq(mutualMatches.user2Id, largerId)));
+    return mutualMatch;
+  }
+
+  async getUserMutualMatches(userId: number): Promise<MutualMatch[]> {
+    return this.db
+      .select()
+      .from(mutualMatches)
+      .where(or(eq(mutualMatches.user1Id, userId), eq(mutualMatches.user2Id, userId)));
+  }
+
+  // Block methods
+
+  async blockUser(blockerId: number, blockedId: number): Promise<Block> {
+    await this.db.insert(blocks).values({ blockerId, blockedId }).onConflictDoNothing();
+    const [block] = await this.db
+      .select()
+      .from(blocks)
+      .where(and(eq(blocks.blockerId, blockerId), eq(blocks.blockedId, blockedId)));
+    return block;
+  }
+
+  async unblockUser(blockerId: number, blockedId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(blocks)
+      .where(and(eq(blocks.blockerId, blockerId), eq(blocks.blockedId, blockedId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getBlocksInvolving(userId: number): Promise<Block[]> {
+    return this.db
+      .select()
+      .from(blocks)
+      .where(or(eq(blocks.blockerId, userId), eq(blocks.blockedId, userId)));
+  }
+
+  async isBlocked(user1Id: number, user2Id: number): Promise<boolean> {
+    const [block] = await this.db
+      .select({ id: blocks.id })
+      .from(blocks)
+      .where(or(
+        and(eq(blocks.blockerId, user1Id), eq(blocks.blockedId, user2Id)),
+        and(eq(blocks.blockerId, user2Id), eq(blocks.blockedId, user1Id)),
+      ))
+      .limit(1);
+    return !!block;
+  }
+
+  // Report methods
+
+  async createReport(newReport: NewReport): Promise<Report> {
+    const [report] = await this.db.insert(reports).values(newReport).returning();
+    return report;
+  }
+
+  async getReport(id: number): Promise<Report | undefined> {
+    const [report] = await this.db.select().from(reports).where(eq(reports.id, id));
+    return report;
+  }
+
+  async getReports(status?: ReportStatus): Promise<Report[]> {
+    return this.db
+      .select()
+      .from(reports)
+      .where(status ? eq(reports.status, status) : undefined)
+      .orderBy(asc(reports.createdAt), asc(reports.id));
+  }
+
+  async resolveReport(id: number, resolution: ReportResolution): Promise<Report | undefined> {
+    const [report] = await this.db
+      .update(reports)
+      .set({ ...resolution, reviewedAt: new Date() })
+      .where(eq(reports.id, id))
+      .returning();
+    return report;
+  }
+
+  // Password reset methods
+
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    const [token] = await this.db
+      .insert(passwordResetTokens)
+      .values({ userId, tokenHash, expiresAt })
+      .returning();
+    return token;
+  }
+
+  async usePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return this.db.transaction(async (tx) => {
+      // The conditional update lets only one of two concurrent resets succeed
+      const [token] = await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, new Date()),
+        ))
+        .returning();
+      if (!token) return undefined;
+
+      await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: token.usedAt })
+        .where(and(eq(passwordResetTokens.userId, token.userId), isNull(passwordResetTokens.usedAt)));
+      return token;
+    });
+  }
+
+  // Email verification methods
+
+  async createEmailVerificationToken(userId: number, email: string, tokenHash: string, expiresAt: Date): Promise<EmailVerificationToken> {
+    const [token] = await this.db
+      .insert(emailVerificationTokens)
+      .values({ userId, email, tokenHash, expiresAt })
+      .returning();
+    return token;
+  }
+
+  async useEmailVerificationToken(tokenHash: string): Promise<EmailVerificationToken | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [token] = await tx
+        .update(emailVerificationTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(emailVerificationTokens.tokenHash, tokenHash),
+          isNull(emailVerificationTokens.usedAt),
+          gt(emailVerificationTokens.expiresAt, new Date()),
+        ))
+        .returning();
+      if (!token) return undefined;
+
+      await tx
+        .update(emailVerificationTokens)
+        .set({ usedAt: token.usedAt })
+        .where(and(eq(emailVerificationTokens.userId, token.userId), isNull(emailVerificationTokens.usedAt)));
+      return token;
+    });
+  }
+
+  // Two-factor authentication methods
+
+  async getTotpCredential(userId: number): Promise<TotpCredential | undefined> {
+    const [credential] = await this.db.select().from(totpCredentials).where(eq(totpCredentials.userId, userId));
+    return credential;
+  }
+
+  async enableTotp(userId: number, secret: string, usedStep: number, recoveryCodeHashes: string[]): Promise<TotpCredential> {
+    return this.db.transaction(async (tx) => {
+      const [credential] = await tx
+        .insert(totpCredentials)
+        .values({ userId, secret, lastUsedStep: usedStep })
+        .onConflictDoUpdate({
+          target: totpCredentials.userId,
+          set: { secret, lastUsedStep: usedStep, createdAt: new Date() },
+        })
+        .returning();
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(recoveryCodeHashes.map(codeHash => ({ userId, codeHash })));
+      return credential;
+    });
+  }
+
+  async disableTotp(userId: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(totpCredentials).where(eq(totpCredentials.userId, userId));
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    });
+  }
+
+  async recordTotpStep(userId: number, step: number): Promise<boolean> {
+    // Conditional, so that of two logins racing with the same code only one wins
+    const updated = await this.db
+      .update(totpCredentials)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(totpCredentials.userId, userId),
+        or(isNull(totpCredentials.lastUsedStep), lt(totpCredentials.lastUsedStep, step)),
+      ))
+      .returning({ userId: totpCredentials.userId });
+    return updated.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const updated = await this.db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, codeHash),
+        isNull(recoveryCodes.usedAt),
+      ))
+      .returning({ id: recoveryCodes.id });
+    return updated.length > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: number): Promise<number> {
+    const [row] = await this.db
+      .select({ count: count() })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return row.count;
+  }
+
+  // Session methods
+
+  private ownedBy(userId: number) {
+    return sql`${sessions.sess}->'passport'->>'user' = ${String(userId)}`;
+  }
+
+  async getUserSessions(userId: number): Promise<UserSession[]> {
+    const rows = await this.db
+      .select()
+      .from(sessions)
+      .where(and(this.ownedBy(userId), gt(sessions.expire, new Date())));
+
+    return rows
+      .map(row => toUserSession(row.sid, row.sess, userId))
+      .filter((userSession): userSession is UserSession => userSession !== undefined);
+  }
+
+  async revokeUserSession(userId: number, sid: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(sessions)
+      .where(and(eq(sessions.sid, sid), this.ownedBy(userId)))
+      .returning({ sid: sessions.sid });
+    return deleted.length > 0;
+  }
+
+  async revokeAllUserSessions(userId: number, exceptSid?: string): Promise<number> {
+    const deleted = await this.db
+      .delete(sessions)
+      .where(exceptSid ? and(this.ownedBy(userId), ne(sessions.sid, exceptSid)) : this.ownedBy(userId))
+      .returning({ sid: sessions.sid });
+    console.log(`Revoked ${deleted.length} sessions for user ${userId}`);
+    return deleted.length;
+  }
+}
@@ -0,0 +1,38 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any Drizzle Postgres database built with our schema. DbStorage accepts this
+// rather than the Neon-specific type so it can also run against pglite or a
+// node-postgres pool (e.g. a local Postgres container).
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createDb(connectionString = process.env.DATABASE_URL) {
+  if (!connectionString) {
+    throw new Error("DATABASE_URL must be set. Did you forget to provision a database?");
+  }
+
+  const pool = new Pool({ connectionString });
+  const db = drizzle({ client: pool, schema });
+  return { pool, db };
+}
+
+const PostgresSessionStore = connectPg(session);
+
+// Sessions live in the "session" table defined in shared/schema.ts, so the
+// store must not try to create it. Expired rows are pruned every 15 minutes.
+export function createSessionStore(pool: Pool): session.Store {
+  return new PostgresSessionStore({
+    pool,
+    tableName: "session",
+    createTableIfMissing: false,
+    pruneSessionInterval: 15 * 60,
+    errorLog: (...args: unknown[]) => console.error("Session store error:", ...args),
+  });
+}
@@ -0,0 +1,25 @@
+import { createHash, randomBytes } from "crypto";
+
+// Tokens for the single-use links emailed to users. Only their hash is
+// stored, so the links can't be rebuilt from a copy of the database.
+export function createEmailToken() {
+  const token = randomBytes(32).toString("hex");
+  return { token, tokenHash: hashEmailToken(token) };
+}
+
+export function hashEmailToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Links in emails point at APP_URL, never at the request's Host header, which
+// anyone can set to their own domain to collect the tokens. Only development
+// may leave it unset, and then gets the local dev server.
+const IS_DEVELOPMENT = (process.env.NODE_ENV ?? "development") === "development";
+const APP_URL = process.env.APP_URL ?? (IS_DEVELOPMENT ? "http://localhost:3000" : undefined);
+if (!APP_URL) {
+  throw new Error("APP_URL must be set outside development, so emailed links point at the app");
+}
+
+export function getAppUrl(): string {
+  return APP_URL!.replace(/\/$/, "");
+}
@@ -0,0 +1,90 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { mailer } from "./mailer";
+import { createEmailToken, getAppUrl, hashEmailToken } from "./email-tokens";
+import { toSelfUser } from "./serializers";
+import { updateEmailSchema, verifyEmailSchema, type User } from "@shared/schema";
+
+const EMAIL_VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Emails the user a link that confirms their current address is theirs
+export async function sendVerificationEmail(user: User) {
+  if (!user.email) return;
+
+  const { token, tokenHash } = createEmailToken();
+  const expiresAt = new Date(Date.now() + EMAIL_VERIFICATION_TOKEN_TTL_MS);
+  await storage.createEmailVerificationToken(user.id, user.email, tokenHash, expiresAt);
+
+  const link = `${getAppUrl()}/verify-email?token=${token}`;
+  await mailer.send({
+    to: user.email,
+    subject: "Confirm your RoommateFinder email",
+    text: `Hi ${user.username},\n\nFollow this link within a day to confirm your email address:\n${link}\n\n`
+      + "If you didn't sign up for RoommateFinder, you can ignore this email.",
+  });
+}
+
+// Email verification: users confirm their address by following a link sent
+// to it, which earns them a verified badge
+export function setupEmailVerification(app: Express) {
+  // Add or change the user's email. The new address has to be verified again.
+  app.put("/api/user/email", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const parseResult = updateEmailSchema.safeParse(req.body);
+    if (!parseResult.success) return res.status(400).json(parseResult.error);
+    const { email } = parseResult.data;
+
+    try {
+      if (email === req.user!.email) return res.json(toSelfUser(req.user!));
+
+      if (await storage.getUserByEmail(email)) {
+        return res.status(400).send("An account with this email already exists");
+      }
+
+      const user = await storage.updateUserEmail(req.user!.id, email);
+      await sendVerificationEmail(user!);
+      res.json(toSelfUser(user!));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Send another verification link, e.g. when the first one expired
+  app.post("/api/user/email/verification", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    if (!req.user!.email) {
+      return res.status(400).send("Add an email address first");
+    }
+    if (req.user!.emailVerifiedAt) {
+      return res.status(400).send("Your email is already verified");
+    }
+
+    try {
+      await sendVerificationEmail(req.user!);
+      res.sendStatus(202);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Doesn't need a session: the link may be opened on another device
+  app.post("/api/verify-email", async (req, res, next) => {
+    const parseResult = verifyEmailSchema.safeParse(req.body);
+    if (!parseResult.success) return res.status(400).json(parseResult.error);
+
+    try {
+      const verificationToken = await storage.useEmailVerificationToken(hashEmailToken(parseResult.data.token));
+      // A token sent to an address the user has since replaced verifies nothing
+      const user = verificationToken
+        && await storage.markEmailVerified(verificationToken.userId, verificationToken.email);
+      if (!user) {
+        return res.status(400).send("This verification link is invalid or has expired");
+      }
+      res.sendStatus(204);
+    } catch (err) {
+      next(err);
+    }
+  });
+}
@@ -0,0 +1,29 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { redactForLog } from "./log-redaction";
+
+describe("redactForLog", () => {
+  it("hides credentials at any depth", () => {
+    const logged = JSON.stringify({
+      user: { id: 7, username: "sam", password: "hashed-password", totpSecret: "JBSWY3DPEHPK3PXP" },
+      recoveryCodes: ["k3h9x-7dm2q"],
+      secret: "JBSWY3DPEHPK3PXP",
+      otpauthUri: "otpauth://totp/sam?secret=JBSWY3DPEHPK3PXP",
+    }, redactForLog);
+
+    for (const value of ["hashed-password", "JBSWY3DPEHPK3PXP", "k3h9x-7dm2q"]) {
+      assert.ok(!logged.includes(value), value);
+    }
+    assert.deepEqual(JSON.parse(logged), {
+      user: { id: 7, username: "sam", password: "[redacted]", totpSecret: "[redacted]" },
+      recoveryCodes: "[redacted]",
+      secret: "[redacted]",
+      otpauthUri: "[redacted]",
+    });
+  });
+
+  it("leaves everything else as it is", () => {
+    const body = { id: 1, messages: [{ content: "hi" }], hasMore: false };
+    assert.equal(JSON.stringify(body, redactForLog), JSON.stringify(body));
+  });
+});
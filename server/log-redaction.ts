@@ -0,0 +1,8 @@
+// Some responses have to carry secrets (2FA setup, recovery codes); the
+// request log never shows them
+const REDACTED_LOG_FIELDS = new Set(["password", "secret", "totpSecret", "otpauthUri", "recoveryCodes", "token"]);
+
+// JSON.stringify replacer for response bodies written to the request log
+export function redactForLog(key: string, value: unknown) {
+  return REDACTED_LOG_FIELDS.has(key) ? "[redacted]" : value;
+}
@@ -0,0 +1,122 @@
+import type { Request, Response } from "express";
+import type { AuthErrorBody } from "@shared/schema";
+
+// Brute-force protection for logging in. Failed attempts are counted per
+// account and per IP address; past a number of free attempts each further
+// failure locks the key out for twice as long as the last, up to an hour.
+// Password reset emails are limited the same way, counting every request.
+// Counts live in this process, so they reset when the server restarts.
+
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+// A key's failures are forgotten after this long without a new one
+const FAILURE_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+interface FailureRecord {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number;
+}
+
+class FailureCounter {
+  private records = new Map<string, FailureRecord>();
+
+  constructor(private freeAttempts: number) {}
+
+  // How long until the key may try again; 0 if it may now
+  getRetryAfterMs(key: string, now = Date.now()): number {
+    const record = this.records.get(key);
+    return record ? Math.max(0, record.lockedUntil - now) : 0;
+  }
+
+  recordFailure(key: string, now = Date.now()) {
+    const previous = this.records.get(key);
+    const failures = previous && now - previous.lastFailureAt < FAILURE_MEMORY_MS ? previous.failures + 1 : 1;
+    const lockoutMs = failures > this.freeAttempts
+      ? Math.min(BASE_LOCKOUT_MS * 2 ** (failures - this.freeAttempts - 1), MAX_LOCKOUT_MS)
+      : 0;
+    this.records.set(key, { failures, lastFailureAt: now, lockedUntil: now + lockoutMs });
+  }
+
+  reset(key: string) {
+    this.records.delete(key);
+  }
+
+  forgetStale(now = Date.now()) {
+    for (const [key, record] of Array.from(this.records.entries())) {
+      if (now - record.lastFailureAt >= FAILURE_MEMORY_MS) this.records.delete(key);
+    }
+  }
+}
+
+// An IP gets more free attempts than an account: several people can share one
+const accountFailures = new FailureCounter(5);
+const ipFailures = new FailureCounter(20);
+const resetEmailRequests = new FailureCounter(3);
+const resetIpRequests = new FailureCounter(10);
+
+setInterval(() => {
+  for (const counter of [accountFailures, ipFailures, resetEmailRequests, resetIpRequests]) {
+    counter.forgetStale();
+  }
+}, 60 * 60 * 1000).unref();
+
+// Usernames are looked up exactly, but one account shouldn't get a fresh
+// set of attempts per spelling
+function toAccountKey(username: string) {
+  return username.trim().toLowerCase();
+}
+
+function formatWait(ms: number) {
+  const minutes = Math.ceil(ms / 60000);
+  return ms < 60000 ? `${Math.ceil(ms / 1000)} seconds` : `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+// Responds with 429 and returns true if there is still a wait
+function rejectIfWaiting(res: Response, retryAfterMs: number, what: string): boolean {
+  if (retryAfterMs === 0) return false;
+
+  const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+  const body: AuthErrorBody = {
+    message: `Too many ${what}. Try again in ${formatWait(retryAfterMs)}.`,
+    retryAfterSeconds,
+  };
+  res.set("Retry-After", String(retryAfterSeconds));
+  res.status(429).json(body);
+  return true;
+}
+
+// Responds with 429 and returns true if the IP or the account is locked out
+export function rejectIfLoginThrottled(req: Request, res: Response, username: string): boolean {
+  const retryAfterMs = Math.max(
+    accountFailures.getRetryAfterMs(toAccountKey(username)),
+    ipFailures.getRetryAfterMs(req.ip ?? ""),
+  );
+  return rejectIfWaiting(res, retryAfterMs, "failed login attempts");
+}
+
+// A wrong password, or a wrong 2FA code after the right password
+export function recordLoginFailure(req: Request, username: string) {
+  accountFailures.recordFailure(toAccountKey(username));
+  ipFailures.recordFailure(req.ip ?? "");
+}
+
+// Responds with 429 and returns true if the IP or the email address has asked
+// for too many reset emails. Otherwise counts this request against both.
+export function rejectIfPasswordResetThrottled(req: Request, res: Response, email: string): boolean {
+  const retryAfterMs = Math.max(
+    resetEmailRequests.getRetryAfterMs(toAccountKey(email)),
+    resetIpRequests.getRetryAfterMs(req.ip ?? ""),
+  );
+  if (rejectIfWaiting(res, retryAfterMs, "password reset requests")) return true;
+
+  resetEmailRequests.recordFailure(toAccountKey(email));
+  resetIpRequests.recordFailure(req.ip ?? "");
+  return false;
+}
+
+// After a successful login or password reset. The IP's count is left to
+// expire, so one working account doesn't buy attempts on others.
+export function clearLoginFailures(username: string) {
+  accountFailures.reset(toAccountKey(username));
+}
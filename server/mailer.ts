@@ -0,0 +1,53 @@
+import fs from "fs/promises";
+import path from "path";
+
+export interface Mail {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// How emails leave the server
+export interface Mailer {
+  send(mail: Mail): Promise<void>;
+}
+
+function formatMail(mail: Mail) {
+  return `To: ${mail.to}\nSubject: ${mail.subject}\n\n${mail.text}\n`;
+}
+
+// Prints each email to the server log
+export class ConsoleMailer implements Mailer {
+  async send(mail: Mail): Promise<void> {
+    console.log(`Email:\n${formatMail(mail)}`);
+  }
+}
+
+// Writes each email to its own file under rootDir
+export class FileMailer implements Mailer {
+  constructor(private rootDir: string) {}
+
+  async send(mail: Mail): Promise<void> {
+    await fs.mkdir(this.rootDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${mail.to.replace(/[^a-z0-9@.-]/gi, "_")}.txt`;
+    await fs.writeFile(path.join(this.rootDir, fileName), formatMail(mail));
+  }
+}
+
+// MAILER selects the implementation: "console" (the default) logs emails,
+// "file" writes them to MAIL_DIR, or ./mail when that isn't set. Neither
+// delivers anything; they are for local use.
+function createMailer(): Mailer {
+  const backend = process.env.MAILER ?? "console";
+
+  switch (backend) {
+    case "console":
+      return new ConsoleMailer();
+    case "file":
+      return new FileMailer(path.resolve(process.env.MAIL_DIR ?? "mail"));
+    default:
+      throw new Error(`Unknown MAILER "${backend}", expected "console" or "file"`);
+  }
+}
+
+export const mailer = createMailer();
@@ -0,0 +1,314 @@
+import type { Express, Request, Response } from "express";
+import { storage } from "./storage";
+import { disconnectUser } from "./realtime";
+import { getPublicUser, toSubmittedReport } from "./serializers";
+import { parseIdParam } from "./route-params";
+import {
+  blockUserSchema,
+  insertReportSchema,
+  resolveReportSchema,
+  suspendUserSchema,
+  REPORT_STATUSES,
+} from "@shared/schema";
+import { z } from "zod";
+
+const reportQuerySchema = z.object({
+  status: z.enum(REPORT_STATUSES).optional(),
+});
+
+// Sends the right error and returns false unless the request comes from an admin
+function requireAdmin(req: Request, res: Response): boolean {
+  if (!req.isAuthenticated()) {
+    res.status(401).send("Unauthorized");
+    return false;
+  }
+  if (req.user!.role !== "admin") {
+    res.status(403).send("Forbidden");
+    return false;
+  }
+  return true;
+}
+
+// Suspends a user and signs them out everywhere
+async function suspendUser(userId: number, reason: string) {
+  const user = await storage.setUserSuspension(userId, reason);
+  if (user) {
+    await storage.revokeAllUserSessions(userId);
+    disconnectUser(userId);
+  }
+  return user;
+}
+
+// Blocking, reporting and the admin moderation queue
+export function setupModeration(app: Express) {
+  // Users the current user has blocked
+  app.get("/api/blocks", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+
+    try {
+      const blocks = (await storage.getBlocksInvolving(req.user!.id))
+        .filter(block => block.blockerId === req.user!.id);
+
+      const blockedUsers = await Promise.all(blocks.map(async (block) => ({
+        ...block,
+        blockedUser: await getPublicUser(block.blockedId),
+      })));
+      res.json(blockedUsers);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/blocks", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+
+    const parseResult = blockUserSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json(parseResult.error);
+      return;
+    }
+    const { userId } = parseResult.data;
+
+    if (userId === req.user!.id) {
+      res.status(400).send("You can't block yourself");
+      return;
+    }
+
+    try {
+      if (!(await storage.getUser(userId))) {
+        res.status(404).send("User not found");
+        return;
+      }
+
+      const block = await storage.blockUser(req.user!.id, userId);
+      res.status(201).json(block);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.delete("/api/blocks/:userId", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+    const userId = parseIdParam(req, res, "userId");
+    if (userId === undefined) return;
+
+    try {
+      const unblocked = await storage.unblockUser(req.user!.id, userId);
+      if (!unblocked) {
+        res.status(404).send("Block not found");
+        return;
+      }
+      res.sendStatus(204);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Report a message or a profile. The reported content is snapshotted so it
+  // can still be reviewed if it changes later.
+  app.post("/api/reports", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+
+    const parseResult = insertReportSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json(parseResult.error);
+      return;
+    }
+    const { messageId, reason, details, block } = parseResult.data;
+
+    try {
+      let reportedUserId: number;
+      let snapshot: unknown;
+
+      if (messageId !== undefined) {
+        const message = await storage.getMessage(messageId);
+        // Only the other people in a message's conversation can report it
+        const participants = message ? await storage.getConversationParticipants(message.conversationId) : [];
+        if (
+          !message ||
+          message.kind === "system" ||
+          message.senderId === req.user!.id ||
+          !participants.some(participant => participant.userId === req.user!.id)
+        ) {
+          res.status(404).send("Message not found");
+          return;
+        }
+        reportedUserId = message.senderId;
+        snapshot = { message, edits: await storage.getMessageEdits(message.id) };
+      } else {
+        reportedUserId = parseResult.data.reportedUserId!;
+        const reportedUser = await storage.getUser(reportedUserId);
+        if (!reportedUser) {
+          res.status(404).send("User not found");
+          return;
+        }
+        snapshot = {
+          user: { id: reportedUser.id, username: reportedUser.username, bio: reportedUser.bio },
+          profile: (await storage.getUserProfile(reportedUserId)) ?? null,
+        };
+      }
+
+      if (reportedUserId === req.user!.id) {
+        res.status(400).send("You can't report yourself");
+        return;
+      }
+
+      const report = await storage.createReport({
+        reporterId: req.user!.id,
+        reportedUserId,
+        messageId: messageId ?? null,
+        reason,
+        details: details ?? null,
+        snapshot,
+      });
+
+      if (block) {
+        await storage.blockUser(req.user!.id, reportedUserId);
+      }
+
+      res.status(201).json(toSubmittedReport(report));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Moderation queue, oldest first. Defaults to open reports.
+  app.get("/api/admin/reports", async (req, res, next) => {
+    if (!requireAdmin(req, res)) return;
+
+    const parseResult = reportQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      res.status(400).json(parseResult.error);
+      return;
+    }
+
+    try {
+      const reports = await storage.getReports(parseResult.data.status ?? "open");
+      const enhancedReports = await Promise.all(reports.map(async (report) => {
+        const reporter = await storage.getUser(report.reporterId);
+        const reportedUser = await storage.getUser(report.reportedUserId);
+        return {
+          ...report,
+          reporter: { id: reporter?.id, username: reporter?.username },
+          reportedUser: {
+            id: reportedUser?.id,
+            username: reportedUser?.username,
+            suspendedAt: reportedUser?.suspendedAt ?? null,
+          },
+        };
+      }));
+      res.json(enhancedReports);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/admin/reports/:id/resolve", async (req, res, next) => {
+    if (!requireAdmin(req, res)) return;
+    const reportId = parseIdParam(req, res, "id");
+    if (reportId === undefined) return;
+
+    const parseResult = resolveReportSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json(parseResult.error);
+      return;
+    }
+    const { status, note, suspend } = parseResult.data;
+
+    try {
+      const report = await storage.getReport(reportId);
+      if (!report) {
+        res.status(404).send("Report not found");
+        return;
+      }
+
+      if (suspend) {
+        await suspendUser(report.reportedUserId, note || `Actioned report #${report.id} (${report.reason})`);
+      }
+
+      const resolvedReport = await storage.resolveReport(report.id, {
+        status,
+        reviewedBy: req.user!.id,
+        resolutionNote: note ?? null,
+      });
+      res.json(resolvedReport);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // A message with everything it said before it was edited or deleted
+  app.get("/api/admin/messages/:id", async (req, res, next) => {
+    if (!requireAdmin(req, res)) return;
+    const messageId = parseIdParam(req, res, "id");
+    if (messageId === undefined) return;
+
+    try {
+      const message = await storage.getMessage(messageId);
+      if (!message) {
+        res.status(404).send("Message not found");
+        return;
+      }
+      res.json({ ...message, edits: await storage.getMessageEdits(message.id) });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/admin/users/:id/suspend", async (req, res, next) => {
+    if (!requireAdmin(req, res)) return;
+    const userId = parseIdParam(req, res, "id");
+    if (userId === undefined) return;
+
+    const parseResult = suspendUserSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json(parseResult.error);
+      return;
+    }
+
+    if (userId === req.user!.id) {
+      res.status(400).send("You can't suspend yourself");
+      return;
+    }
+
+    try {
+      const user = await suspendUser(userId, parseResult.data.reason);
+      if (!user) {
+        res.status(404).send("User not found");
+        return;
+      }
+      res.json({ id: user.id, suspendedAt: user.suspendedAt, suspensionReason: user.suspensionReason });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.delete("/api/admin/users/:id/suspend", async (req, res, next) => {
+    if (!requireAdmin(req, res)) return;
+    const userId = parseIdParam(req, res, "id");
+    if (userId === undefined) return;
+
+    try {
+      const user = await storage.setUserSuspension(userId, null);
+      if (!user) {
+        res.status(404).send("User not found");
+        return;
+      }
+      res.json({ id: user.id, suspendedAt: user.suspendedAt, suspensionReason: user.suspensionReason });
+    } catch (err) {
+      next(err);
+    }
+  });
+}
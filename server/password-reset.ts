@@ -0,0 +1,74 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { mailer } from "./mailer";
+import { createEmailToken, getAppUrl, hashEmailToken } from "./email-tokens";
+import { hashPassword } from "./auth";
+import { clearLoginFailures, rejectIfPasswordResetThrottled } from "./login-throttle";
+import { disconnectUser } from "./realtime";
+import { forgotPasswordSchema, resetPasswordSchema, type User } from "@shared/schema";
+
+const PASSWORD_RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+// Emails the user a single-use link for choosing a new password
+async function sendPasswordResetEmail(user: User) {
+  const { token, tokenHash } = createEmailToken();
+  const expiresAt = new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MS);
+  await storage.createPasswordResetToken(user.id, tokenHash, expiresAt);
+
+  const link = `${getAppUrl()}/auth?resetToken=${token}`;
+  await mailer.send({
+    to: user.email!,
+    subject: "Reset your RoommateFinder password",
+    text: `Hi ${user.username},\n\nFollow this link within an hour to choose a new password:\n${link}\n\n`
+      + "If you didn't ask to reset your password, you can ignore this email.",
+  });
+}
+
+// Forgotten passwords: a reset link is emailed to the account's address, and
+// following it lets the user choose a new password once
+export function setupPasswordReset(app: Express) {
+  app.post("/api/forgot-password", async (req, res, next) => {
+    const parseResult = forgotPasswordSchema.safeParse(req.body);
+    if (!parseResult.success) return res.status(400).json(parseResult.error);
+    const { email } = parseResult.data;
+
+    // Counted whether or not the address has an account, so nobody can flood
+    // an inbox and the limit doesn't give accounts away either
+    if (rejectIfPasswordResetThrottled(req, res, email)) return;
+
+    try {
+      const user = await storage.getUserByEmail(email);
+      // Sent in the background, so the response takes as long either way
+      if (user) {
+        sendPasswordResetEmail(user).catch(err => console.error("Failed to send password reset email:", err));
+      }
+      // The same answer either way, so the endpoint doesn't reveal who has an account
+      res.sendStatus(202);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/reset-password", async (req, res, next) => {
+    const parseResult = resetPasswordSchema.safeParse(req.body);
+    if (!parseResult.success) return res.status(400).json(parseResult.error);
+    const { token, password } = parseResult.data;
+
+    try {
+      const resetToken = await storage.usePasswordResetToken(hashEmailToken(token));
+      if (!resetToken) {
+        return res.status(400).send("This reset link is invalid or has expired");
+      }
+
+      const user = await storage.updateUserPassword(resetToken.userId, await hashPassword(password));
+      // Whoever was locked out by failed logins can use the new password now
+      if (user) clearLoginFailures(user.username);
+      // Whoever knew the old password is logged out everywhere
+      await storage.revokeAllUserSessions(resetToken.userId);
+      disconnectUser(resetToken.userId);
+      res.sendStatus(204);
+    } catch (err) {
+      next(err);
+    }
+  });
+}
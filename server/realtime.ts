@@ -0,0 +1,165 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { RequestHandler, Request, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import type { User } from "@shared/schema";
+import { REALTIME_PATH, type Presence, type RealtimeEvent } from "@shared/realtime";
+
+// Dead connections are dropped after missing one ping
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+// Open sockets per user; a user can be connected from several tabs or devices
+const connections = new Map<number, Set<WebSocket>>();
+const alive = new WeakSet<WebSocket>();
+// The login session each socket was opened with
+const socketSessions = new WeakMap<WebSocket, string>();
+
+// Pushes an event to every open socket of the given users
+export function notifyUsers(userIds: number[], event: RealtimeEvent) {
+  const payload = JSON.stringify(event);
+  for (const userId of new Set(userIds)) {
+    for (const socket of connections.get(userId) ?? []) {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(payload);
+      }
+    }
+  }
+}
+
+// Closes every socket of a user, e.g. after they are suspended, except those
+// of the session exceptSid
+export function disconnectUser(userId: number, exceptSid?: string) {
+  for (const socket of connections.get(userId) ?? []) {
+    if (exceptSid === undefined || socketSessions.get(socket) !== exceptSid) {
+      socket.close(4001, "Session ended");
+    }
+  }
+}
+
+// Closes the sockets opened with one of the user's sessions once it has been
+// logged out or revoked
+export function disconnectSession(userId: number, sid: string) {
+  for (const socket of connections.get(userId) ?? []) {
+    if (socketSessions.get(socket) === sid) {
+      socket.close(4001, "Session ended");
+    }
+  }
+}
+
+// A user is online while they have at least one open socket
+export function isOnline(userId: number): boolean {
+  return connections.has(userId);
+}
+
+// The user's presence as the viewer may see it. Users who hide their last
+// seen time, and users on either side of a block, appear offline.
+export async function getPresence(user: User, viewerId: number): Promise<Presence> {
+  if (!user.showLastSeen || await storage.isBlocked(user.id, viewerId)) {
+    return { online: false, lastSeenAt: null };
+  }
+  const online = isOnline(user.id);
+  return {
+    online,
+    lastSeenAt: online || !user.lastSeenAt ? null : new Date(user.lastSeenAt).toISOString(),
+  };
+}
+
+// Tells everyone the user has a conversation with about their current presence
+export async function broadcastPresence(userId: number) {
+  const user = await storage.getUser(userId);
+  if (!user) return;
+
+  const otherUserIds = new Set<number>();
+  for (const conversation of await storage.getUserConversations(userId)) {
+    for (const participant of await storage.getConversationParticipants(conversation.id)) {
+      if (participant.userId !== userId) otherUserIds.add(participant.userId);
+    }
+  }
+  for (const otherUserId of otherUserIds) {
+    if (!isOnline(otherUserId)) continue;
+    notifyUsers([otherUserId], { type: "presence", userId, presence: await getPresence(user, otherUserId) });
+  }
+}
+
+async function goOffline(userId: number) {
+  await storage.setUserLastSeen(userId, new Date());
+  await broadcastPresence(userId);
+}
+
+// Runs the express-session middleware against the upgrade request so the
+// socket is tied to the same login session as the REST API
+function authenticate(req: IncomingMessage, sessionMiddleware: RequestHandler): Promise<{ userId: number; sid: string } | undefined> {
+  return new Promise((resolve) => {
+    sessionMiddleware(req as Request, {} as Response, async () => {
+      const userId = (req as Request).session?.passport?.user;
+      if (typeof userId !== "number") {
+        return resolve(undefined);
+      }
+      const user = await storage.getUser(userId);
+      resolve(user && !user.suspendedAt ? { userId: user.id, sid: (req as Request).sessionID } : undefined);
+    });
+  });
+}
+
+function reject(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+export function setupRealtime(server: Server, sessionMiddleware: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    // Other upgrade requests (such as Vite's HMR socket) are not ours
+    if (pathname !== REALTIME_PATH) return;
+
+    try {
+      const session = await authenticate(req, sessionMiddleware);
+      if (!session) {
+        return reject(socket, "401 Unauthorized");
+      }
+      const { userId, sid } = session;
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const cameOnline = !isOnline(userId);
+        const userSockets = connections.get(userId) ?? new Set();
+        userSockets.add(ws);
+        connections.set(userId, userSockets);
+        alive.add(ws);
+        socketSessions.set(ws, sid);
+        console.log(`Realtime: user ${userId} connected (${userSockets.size} open)`);
+        if (cameOnline) {
+          broadcastPresence(userId).catch(error => console.error("Failed to broadcast presence:", error));
+        }
+
+        ws.on("pong", () => alive.add(ws));
+        ws.on("close", () => {
+          userSockets.delete(ws);
+          if (userSockets.size === 0) {
+            connections.delete(userId);
+            goOffline(userId).catch(error => console.error("Failed to record last seen:", error));
+          }
+        });
+      });
+    } catch (error) {
+      console.error("Realtime upgrade failed:", error);
+      reject(socket, "500 Internal Server Error");
+    }
+  });
+
+  const heartbeat = setInterval(() => {
+    for (const ws of wss.clients) {
+      if (!alive.has(ws)) {
+        ws.terminate();
+        continue;
+      }
+      alive.delete(ws);
+      ws.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  server.on("close", () => clearInterval(heartbeat));
+}
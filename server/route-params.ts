@@ -0,0 +1,16 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+
+// IDs are serial columns, so anything outside a Postgres integer can't match
+const idParamSchema = z.coerce.number().int().positive().max(2 ** 31 - 1);
+
+// Reads a numeric ID from the route path. Sends 400 and returns undefined if
+// it isn't one, so NaN never reaches storage.
+export function parseIdParam(req: Request, res: Response, name: string): number | undefined {
+  const parseResult = idParamSchema.safeParse(req.params[name]);
+  if (!parseResult.success) {
+    res.status(400).send(`Invalid ${name}`);
+    return undefined;
+  }
+  return parseResult.data;
+}
@@ -1,11 +1,199 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
+import { setupModeration } from "./moderation";
+import { setupPasswordReset } from "./password-reset";
+import { setupEmailVerification } from "./email-verification";
+import { setupTwoFactor } from "./two-factor";
+import { setupAttachments, receiveUpload, getAttachmentProblem, storeAttachment, toAttachmentInfo } from "./attachments";
+import {
+  setupGroupConversations,
+  getMessagingRestriction,
+  getConversationRestriction,
+  getMessageRequestRestriction,
+  startDirectConversation,
+  isIncomingRequest,
+  acceptRequestOnReply,
+  getParticipantIds,
+  getMessageRecipientIds,
+  getUserConversation,
+  getDisplayName,
+  toConversationSummary,
+} from "./conversations";
+import { setupRealtime, notifyUsers } from "./realtime";
+import { getPublicUser, toPublicMutualMatchScore, toPublicProfile } from "./serializers";
+import { parseIdParam } from "./route-params";
 import { storage } from "./storage";
-import { insertPropertySchema, insertUserProfileSchema, insertMessageSchema } from "@shared/schema";
+import {
+  insertPropertySchema,
+  insertUserProfileSchema,
+  sendMessageSchema,
+  matchDecisionSchema,
+  messagePageQuerySchema,
+  editMessageSchema,
+  deleteMessageQuerySchema,
+  messageReactionSchema,
+  attachmentMessageSchema,
+  conversationSettingsSchema,
+  messageRequestActionSchema,
+  MESSAGE_DELETE_FOR_EVERYONE_WINDOW_MS,
+  type ChatMessage,
+  type Conversation,
+  type Message,
+  type MutualMatch,
+} from "@shared/schema";
+import {
+  messageSearchQuerySchema,
+  tokenizeSearchQuery,
+  buildSnippet,
+  type MessageSearchPage,
+  type MessageSearchResult,
+} from "@shared/search";
+import { scoreMutualMatch, hasDealbreakerConflict, type MatchCandidate, type MatchPage } from "@shared/matching";
+import { z } from "zod";
+
+const matchQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).default(12),
+  minScore: z.coerce.number().min(0).max(100).default(0),
+  lifestyle: z.string().optional(),
+  cleanliness: z.string().optional(),
+  sort: z.enum(["match", "budget"]).default("match"),
+});
+
+// When set, people who haven't verified their email don't appear in anyone's
+// profiles, matches or mutual matches
+const MATCHES_REQUIRE_VERIFIED_EMAIL = process.env.MATCHES_REQUIRE_VERIFIED_EMAIL === "true";
+
+// The users out of userIds who may appear in feeds: all of them, or only those
+// with a verified email under MATCHES_REQUIRE_VERIFIED_EMAIL
+async function getListableUserIds(userIds: number[]): Promise<Set<number>> {
+  if (!MATCHES_REQUIRE_VERIFIED_EMAIL) return new Set(userIds);
+  const users = await storage.getUsers(userIds);
+  return new Set(users.filter(user => user.emailVerifiedAt).map(user => user.id));
+}
+
+// IDs of everyone who should never appear in the user's feed: people they
+// have passed on, and anyone on either side of a block
+async function getHiddenUserIds(userId: number): Promise<Set<number>> {
+  const decisions = await storage.getMatchDecisions(userId);
+  const blocks = await storage.getBlocksInvolving(userId);
+  return new Set([
+    ...decisions.filter(d => d.decision === "pass").map(d => d.targetUserId),
+    ...blocks.map(block => block.blockerId === userId ? block.blockedId : block.blockerId),
+  ]);
+}
+
+// Attaches reactions, grouped by emoji, and attachments to messages. Messages
+// deleted for everyone lose both along with their content.
+async function toChatMessages(messages: Message[]): Promise<ChatMessage[]> {
+  const messageIds = messages.map(message => message.id);
+  const reactions = await storage.getMessageReactions(messageIds);
+  const attachments = await storage.getMessageAttachments(messageIds);
+  return messages.map(message => {
+    if (message.deletedAt) {
+      return { ...message, reactions: [], attachments: [] };
+    }
+    
+    const grouped: ChatMessage["reactions"] = [];
+    for (const reaction of reactions.filter(reaction => reaction.messageId === message.id)) {
+      const group = grouped.find(existing => existing.emoji === reaction.emoji);
+      if (group) {
+        group.userIds.push(reaction.userId);
+      } else {
+        grouped.push({ emoji: reaction.emoji, userIds: [reaction.userId] });
+      }
+    }
+    return {
+      ...message,
+      reactions: grouped,
+      attachments: attachments
+        .filter(attachment => attachment.messageId === message.id)
+        .map(toAttachmentInfo),
+    };
+  });
+}
+
+// Looks up a message in one of the user's conversations
+async function getOwnMessage(messageId: number, userId: number): Promise<Message | undefined> {
+  const message = await storage.getMessage(messageId);
+  return message && (await getParticipantIds(message.conversationId)).includes(userId) ? message : undefined;
+}
+
+// Finds the conversation a new message goes to: one the user is in, or their
+// one-to-one conversation with receiverId, started if need be. Sends the
+// error and returns undefined if the user can't post there.
+async function getTargetConversation(
+  res: Response,
+  userId: number,
+  target: { conversationId?: number; receiverId?: number },
+  withAttachment = false,
+): Promise<Conversation | undefined> {
+  let conversation: Conversation | undefined;
+  if (target.conversationId !== undefined) {
+    conversation = await getUserConversation(target.conversationId, userId);
+    if (!conversation) {
+      res.status(404).send("Conversation not found");
+      return undefined;
+    }
+  } else {
+    const receiver = await storage.getUser(target.receiverId!);
+    if (!receiver) {
+      res.status(404).send("Recipient not found");
+      return undefined;
+    }
+    if (receiver.id === userId) {
+      res.status(400).send("You can't message yourself");
+      return undefined;
+    }
+    const restriction = await getMessagingRestriction(userId, receiver.id);
+    if (restriction) {
+      res.status(403).send(restriction);
+      return undefined;
+    }
+    conversation = await startDirectConversation(userId, receiver.id);
+  }
+  
+  const restriction = await getConversationRestriction(conversation, userId)
+    ?? await getMessageRequestRestriction(conversation, userId, withAttachment);
+  if (restriction) {
+    res.status(403).send(restriction);
+    return undefined;
+  }
+  return acceptRequestOnReply(conversation, userId);
+}
+
+// Marks the conversation read for the user and tells its members. Looking at
+// a message request doesn't tell the requester it was seen.
+async function markConversationRead(conversation: Conversation, userId: number, participantIds: number[]) {
+  if (isIncomingRequest(conversation, userId)) return;
+  const readAt = await storage.markMessagesAsRead(conversation.id, userId);
+  if (readAt) {
+    notifyUsers(participantIds, { type: "messages:read", conversationId: conversation.id, readerId: userId, readAt: readAt.toISOString() });
+    notifyUsers(participantIds, { type: "conversation:updated", conversationId: conversation.id });
+  }
+}
+
+// Sends the message's latest state to everyone in its conversation who gets
+// its sender's messages
+async function broadcastMessageUpdate(message: Message): Promise<ChatMessage> {
+  const [chatMessage] = await toChatMessages([message]);
+  notifyUsers(await getMessageRecipientIds(message.conversationId, message.senderId), {
+    type: "message:updated",
+    conversationId: message.conversationId,
+    message: chatMessage,
+  });
+  return chatMessage;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  setupAuth(app);
+  const sessionMiddleware = setupAuth(app);
+  setupModeration(app);
+  setupPasswordReset(app);
+  setupEmailVerification(app);
+  setupTwoFactor(app);
+  setupAttachments(app);
+  setupGroupConversations(app);
 
   // User Profile Routes
   app.get("/api/profile", async (req, res) => {
@@ -34,6 +222,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         petPreference: null,
         roommateQualities: [],
         additionalInfo: null,
+        dealbreakers: {},
+        matchImportance: {},
         profileComplete: false
       });
     }
@@ -41,7 +231,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.post("/api/profile", async (req, res) => {
-    console.log("Profile save request, auth status:", req.isAuthenticated(), "user:", req.user);
+    console.log("Profile save request, auth status:", req.isAuthenticated(), "user ID:", req.user?.id);
     console.log("Profile data received:", JSON.stringify(req.body, null, 2));
     
     if (!req.isAuthenticated()) {
@@ -79,8 +269,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return;
     }
 
-    // For partial updates we don't need to validate the entire schema
-    const profile = await storage.updateUserProfile(req.user!.id, req.body);
+    // Any subset of the editable fields; id, userId and profileComplete are
+    // not among them, so they are dropped if sent
+    const parseResult = insertUserProfileSchema.partial().safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json(parseResult.error);
+      return;
+    }
+
+    const profile = await storage.updateUserProfile(req.user!.id, parseResult.data);
     res.json(profile);
   });
 
@@ -92,9 +289,143 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     const profiles = await storage.getAllUserProfiles();
-    // Filter out the current user's profile
-    const otherProfiles = profiles.filter(profile => profile.userId !== req.user!.id);
-    res.json(otherProfiles);
+    const userProfile = profiles.find(profile => profile.userId === req.user!.id);
+    const hiddenUserIds = await getHiddenUserIds(req.user!.id);
+    const listableUserIds = await getListableUserIds(profiles.map(profile => profile.userId));
+    // Filter out the current user's profile, anyone they've passed on or
+    // blocked, unverified users if required, and anyone where either side
+    // hits one of the other's dealbreakers
+    const otherProfiles = profiles.filter(profile =>
+      profile.userId !== req.user!.id &&
+      !hiddenUserIds.has(profile.userId) &&
+      listableUserIds.has(profile.userId) &&
+      !(userProfile && hasDealbreakerConflict(userProfile, profile))
+    );
+    res.json(otherProfiles.map(toPublicProfile));
+  });
+
+  // Ranked, paginated match candidates for the current user
+  app.get("/api/matches", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+
+    const parseResult = matchQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      res.status(400).json(parseResult.error);
+      return;
+    }
+    const { page, pageSize, minScore, lifestyle, cleanliness, sort } = parseResult.data;
+
+    const userProfile = await storage.getUserProfile(req.user!.id);
+    if (!userProfile) {
+      res.status(404).send("Create a profile to see matches");
+      return;
+    }
+
+    const profiles = await storage.getAllUserProfiles();
+    const verifiedUserIds = new Set((await storage.getUsers(profiles.map(profile => profile.userId)))
+      .filter(user => user.emailVerifiedAt)
+      .map(user => user.id));
+    const hiddenUserIds = await getHiddenUserIds(req.user!.id);
+    const decisions = await storage.getMatchDecisions(req.user!.id);
+    const decisionByUserId = new Map(decisions.map(d => [d.targetUserId, d.decision]));
+    const matchedUserIds = new Set((await storage.getUserMutualMatches(req.user!.id))
+      .map(match => match.user1Id === req.user!.id ? match.user2Id : match.user1Id));
+
+    const candidates: MatchCandidate[] = profiles
+      .filter(profile => profile.userId !== req.user!.id)
+      .filter(profile => !hiddenUserIds.has(profile.userId))
+      .filter(profile => !MATCHES_REQUIRE_VERIFIED_EMAIL || verifiedUserIds.has(profile.userId))
+      .filter(profile => !hasDealbreakerConflict(userProfile, profile))
+      .filter(profile => !lifestyle || profile.lifestyle === lifestyle)
+      .filter(profile => !cleanliness || profile.cleanliness === cleanliness)
+      .map(profile => ({
+        profile: toPublicProfile(profile),
+        ...toPublicMutualMatchScore(scoreMutualMatch(userProfile, profile)),
+        liked: decisionByUserId.get(profile.userId) === "like",
+        matched: matchedUserIds.has(profile.userId),
+        verified: verifiedUserIds.has(profile.userId),
+      }))
+      .filter(candidate => candidate.percentage >= minScore)
+      .sort((a, b) => sort === "match"
+        ? b.percentage - a.percentage
+        // Budget sorts lowest first
+        : (a.profile.budget || 0) - (b.profile.budget || 0));
+
+    const result: MatchPage = {
+      matches: candidates.slice((page - 1) * pageSize, page * pageSize),
+      total: candidates.length,
+      page,
+      pageSize,
+    };
+    res.json(result);
+  });
+
+  // Like or pass on a candidate. Liking someone who already liked you
+  // creates a mutual match; passing removes one.
+  app.post("/api/match-decisions", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+
+    const parseResult = matchDecisionSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json(parseResult.error);
+      return;
+    }
+    const { targetUserId, decision } = parseResult.data;
+
+    if (targetUserId === req.user!.id) {
+      res.status(400).send("You can't like or pass on yourself");
+      return;
+    }
+    if (!(await storage.getUser(targetUserId))) {
+      res.status(404).send("User not found");
+      return;
+    }
+
+    const result = await storage.recordMatchDecision(req.user!.id, targetUserId, decision);
+    res.status(201).json(result);
+  });
+
+  // Everyone the current user has a mutual match with, newest first
+  app.get("/api/mutual-matches", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+
+    const getOtherUserId = (mutualMatch: MutualMatch) =>
+      mutualMatch.user1Id === req.user!.id ? mutualMatch.user2Id : mutualMatch.user1Id;
+    const allMutualMatches = await storage.getUserMutualMatches(req.user!.id);
+    const hiddenUserIds = await getHiddenUserIds(req.user!.id);
+    const listableUserIds = await getListableUserIds(allMutualMatches.map(getOtherUserId));
+    const mutualMatches = allMutualMatches.filter(mutualMatch =>
+      !hiddenUserIds.has(getOtherUserId(mutualMatch)) && listableUserIds.has(getOtherUserId(mutualMatch))
+    );
+    const userProfile = await storage.getUserProfile(req.user!.id);
+
+    const enhancedMatches = await Promise.all(mutualMatches.map(async (mutualMatch) => {
+      const otherUserId = getOtherUserId(mutualMatch);
+      const otherUserProfile = await storage.getUserProfile(otherUserId);
+
+      return {
+        ...mutualMatch,
+        otherUser: await getPublicUser(otherUserId),
+        profile: otherUserProfile ? toPublicProfile(otherUserProfile) : null,
+        percentage: userProfile && otherUserProfile
+          ? scoreMutualMatch(userProfile, otherUserProfile).percentage
+          : null,
+      };
+    }));
+
+    enhancedMatches.sort((a, b) =>
+      new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime()
+    );
+    res.json(enhancedMatches);
   });
 
   // Legacy Property Routes - Keeping for backward compatibility
@@ -141,41 +472,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const conversations = await storage.getUserConversations(req.user!.id);
-      console.log("Raw conversations found:", JSON.stringify(conversations, null, 2));
-      
-      // Enhance conversations with user information
-      const enhancedConversations = await Promise.all(conversations.map(async (conversation) => {
-        // Determine which user ID is the other participant (not the current user)
-        const otherUserId = conversation.user1Id === req.user!.id 
-          ? conversation.user2Id 
-          : conversation.user1Id;
-        
-        console.log(`For conversation ${conversation.id}, other user ID is: ${otherUserId}`);
-        
-        // Get the other user's info
-        const otherUser = await storage.getUser(otherUserId);
-        const otherUserProfile = await storage.getUserProfile(otherUserId);
-        
-        console.log(`Other user info for conversation ${conversation.id}:`, 
-          JSON.stringify({ otherUser, otherUserProfile }, null, 2));
-        
-        return {
-          ...conversation,
-          otherUser: {
-            id: otherUser?.id,
-            username: otherUser?.username,
-            fullName: otherUserProfile?.fullName,
-            avatarUrl: otherUser?.avatarUrl,
-          }
-        };
-      }));
+      console.log(`Found ${conversations.length} conversations for user ${req.user!.id}`);
       
-      // Sort by most recent message first
-      const sortedConversations = enhancedConversations.sort((a, b) => {
-        const dateA = new Date(a.lastMessageAt || 0);
-        const dateB = new Date(b.lastMessageAt || 0);
-        return dateB.getTime() - dateA.getTime();
-      });
+      // Enhance conversations with the other members' information
+      const enhancedConversations = await Promise.all(
+        conversations.map(conversation => toConversationSummary(conversation, req.user!.id))
+      );
+      
+      // The archive is listed separately with ?archived=true, and message
+      // requests waiting for the user with ?requests=true. Declined requests
+      // are only listed for the requester.
+      const showArchived = req.query.archived === "true";
+      const showRequests = req.query.requests === "true";
+      const isListed = (conversation: (typeof enhancedConversations)[number]) => {
+        if (isIncomingRequest(conversation, req.user!.id)) return showRequests;
+        if (conversation.requestStatus === "declined" && conversation.createdBy !== req.user!.id) return false;
+        return !showRequests && conversation.archived === showArchived;
+      };
+      
+      // Pinned conversations first, most recently pinned on top; then by most recent message
+      const sortedConversations = enhancedConversations
+        .filter(isListed)
+        .sort((a, b) => {
+          const pinnedA = a.pinnedAt ? new Date(a.pinnedAt).getTime() : 0;
+          const pinnedB = b.pinnedAt ? new Date(b.pinnedAt).getTime() : 0;
+          if (pinnedA !== pinnedB) return pinnedB - pinnedA;
+          const dateA = new Date(a.lastMessageAt || 0);
+          const dateB = new Date(b.lastMessageAt || 0);
+          return dateB.getTime() - dateA.getTime();
+        });
       
       console.log("Enhanced conversations to return:", JSON.stringify(sortedConversations, null, 2));
       res.json(sortedConversations);
@@ -185,48 +510,215 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Get messages for a specific conversation
-  app.get("/api/conversations/:conversationId/messages", async (req, res) => {
+  // Archive, mute or pin a conversation in the user's own list
+  app.patch("/api/conversations/:conversationId/settings", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+    const conversationId = parseIdParam(req, res, "conversationId");
+    if (conversationId === undefined) return;
+    
+    const parseResult = conversationSettingsSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json(parseResult.error);
+      return;
+    }
+    
     try {
-      console.log(`GET /api/conversations/${req.params.conversationId}/messages request`);
-      
-      if (!req.isAuthenticated()) {
-        res.status(401).send("Unauthorized");
+      const conversation = await getUserConversation(conversationId, req.user!.id);
+      if (!conversation) {
+        res.status(404).send("Conversation not found");
         return;
       }
       
-      const conversationId = parseInt(req.params.conversationId);
-      console.log(`Looking for conversation ID: ${conversationId}`);
+      await storage.updateConversationSettings(conversation.id, req.user!.id, parseResult.data);
+      // Keep the user's other tabs and devices in step
+      notifyUsers([req.user!.id], { type: "conversation:updated", conversationId: conversation.id });
+      res.json(await toConversationSummary(conversation, req.user!.id));
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  // Accept, decline or block a message request sent to the user
+  app.post("/api/conversations/:conversationId/request", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+    const conversationId = parseIdParam(req, res, "conversationId");
+    if (conversationId === undefined) return;
+    
+    const parseResult = messageRequestActionSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json(parseResult.error);
+      return;
+    }
+    
+    try {
+      const conversation = await getUserConversation(conversationId, req.user!.id);
+      if (!conversation || !isIncomingRequest(conversation, req.user!.id)) {
+        res.status(404).send("Message request not found");
+        return;
+      }
       
+      const { action } = parseResult.data;
+      if (action === "block") {
+        await storage.blockUser(req.user!.id, conversation.createdBy!);
+      }
+      const updated = await storage.updateConversationRequestStatus(
+        conversation.id,
+        action === "accept" ? "accepted" : "declined",
+      );
+      notifyUsers(await getParticipantIds(conversation.id), { type: "conversation:updated", conversationId: conversation.id });
+      res.json(await toConversationSummary(updated!, req.user!.id));
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  // Get a page of messages for a specific conversation (?before=, ?after=, ?around=, ?limit=)
+  app.get("/api/conversations/:conversationId/messages", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+    const conversationId = parseIdParam(req, res, "conversationId");
+    if (conversationId === undefined) return;
+    
+    const pageResult = messagePageQuerySchema.safeParse(req.query);
+    if (!pageResult.success) {
+      res.status(400).json(pageResult.error);
+      return;
+    }
+    
+    try {
       const conversation = await storage.getConversationById(conversationId);
+      if (!conversation) {
+        res.status(404).send("Conversation not found");
+        return;
+      }
       
+      // Check if the user is part of this conversation
+      const participantIds = await getParticipantIds(conversationId);
+      if (!participantIds.includes(req.user!.id)) {
+        res.status(403).send("Forbidden");
+        return;
+      }
+      
+      const page = await storage.getMessages(conversationId, req.user!.id, pageResult.data);
+      await markConversationRead(conversation, req.user!.id, participantIds);
+      
+      res.json({ ...page, messages: await toChatMessages(page.messages) });
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  // Mark everything in the conversation read, for messages that arrive over
+  // the realtime socket while the user has it open
+  app.post("/api/conversations/:conversationId/read", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+    const conversationId = parseIdParam(req, res, "conversationId");
+    if (conversationId === undefined) return;
+    
+    try {
+      const conversation = await getUserConversation(conversationId, req.user!.id);
       if (!conversation) {
-        console.log(`Conversation ${conversationId} not found`);
-        return res.status(404).send("Conversation not found");
+        res.status(404).send("Conversation not found");
+        return;
+      }
+      
+      await markConversationRead(conversation, req.user!.id, await getParticipantIds(conversation.id));
+      res.sendStatus(204);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  // Search the user's own conversations (?q=, ?before=, ?limit=), newest first
+  app.get("/api/messages/search", async (req, res) => {
+    try {
+      if (!req.isAuthenticated()) {
+        res.status(401).send("Unauthorized");
+        return;
       }
       
-      console.log(`Conversation found:`, JSON.stringify(conversation, null, 2));
+      const result = messageSearchQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        res.status(400).json(result.error);
+        return;
+      }
       
-      // Check if the user is part of this conversation
-      if (conversation.user1Id !== req.user!.id && conversation.user2Id !== req.user!.id) {
-        console.log(`User ${req.user!.id} is not part of conversation ${conversationId}`);
-        return res.status(403).send("Forbidden");
+      const { q, before, limit } = result.data;
+      const terms = tokenizeSearchQuery(q);
+      if (terms.length === 0) {
+        res.json({ results: [], hasMore: false } satisfies MessageSearchPage);
+        return;
       }
       
-      const messages = await storage.getMessages(conversationId);
-      console.log(`Found ${messages.length} messages for conversation ${conversationId}`);
+      const page = await storage.searchMessages(req.user!.id, terms, { before, limit });
       
-      // Mark messages as read if the current user is the recipient
-      await storage.markMessagesAsRead(conversationId, req.user!.id);
+      // Groups go by their name, one-to-one conversations by the other person's
+      const conversationNames = new Map<number, string>();
+      for (const conversationId of new Set(page.messages.map(message => message.conversationId))) {
+        const conversation = await storage.getConversationById(conversationId);
+        const otherUserId = (await getParticipantIds(conversationId)).find(id => id !== req.user!.id);
+        conversationNames.set(conversationId, conversation?.isGroup
+          ? conversation.name ?? ""
+          : otherUserId !== undefined ? await getDisplayName(otherUserId) : "");
+      }
       
-      console.log("Messages to return:", JSON.stringify(messages, null, 2));
-      res.json(messages);
+      const results: MessageSearchResult[] = page.messages.map(message => ({
+        messageId: message.id,
+        conversationId: message.conversationId,
+        conversationName: conversationNames.get(message.conversationId)!,
+        senderId: message.senderId,
+        createdAt: message.createdAt,
+        snippet: buildSnippet(message.content, terms),
+      }));
+      res.json({ results, hasMore: page.hasMore } satisfies MessageSearchPage);
     } catch (error) {
-      console.error(`Error fetching messages for conversation:`, error);
+      console.error("Error searching messages:", error);
       res.status(500).send("Internal server error");
     }
   });
   
+  // Tell the other participants that the user is typing. Nothing is stored;
+  // clients repeat this while the user keeps typing.
+  app.post("/api/conversations/:conversationId/typing", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+    const conversationId = parseIdParam(req, res, "conversationId");
+    if (conversationId === undefined) return;
+    
+    try {
+      const conversation = await getUserConversation(conversationId, req.user!.id);
+      if (!conversation) {
+        res.status(404).send("Conversation not found");
+        return;
+      }
+      
+      const restriction = await getConversationRestriction(conversation, req.user!.id);
+      if (restriction) {
+        res.status(403).send(restriction);
+        return;
+      }
+      
+      const otherUserIds = (await getParticipantIds(conversation.id)).filter(id => id !== req.user!.id);
+      notifyUsers(otherUserIds, { type: "typing", conversationId: conversation.id, userId: req.user!.id });
+      res.sendStatus(204);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
   // Send a message
   app.post("/api/messages", async (req, res) => {
     try {
@@ -237,39 +729,251 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
       
-      const messageData = {
-        ...req.body,
-        senderId: req.user!.id
-      };
-      
-      console.log("Message data with sender ID:", JSON.stringify(messageData, null, 2));
-      
-      const parseResult = insertMessageSchema.safeParse(messageData);
+      const parseResult = sendMessageSchema.safeParse(req.body);
       
       if (!parseResult.success) {
         console.log("Message validation error:", parseResult.error);
         return res.status(400).json(parseResult.error);
       }
       
-      // Validate that the receiver exists
-      const receiver = await storage.getUser(parseResult.data.receiverId);
-      if (!receiver) {
-        console.log(`Recipient user ID ${parseResult.data.receiverId} not found`);
-        return res.status(404).send("Recipient not found");
-      }
+      const conversation = await getTargetConversation(res, req.user!.id, parseResult.data);
+      if (!conversation) return;
       
-      console.log(`Sending message to user ${receiver.username} (ID: ${receiver.id})`);
+      console.log(`Sending message to conversation ${conversation.id}`);
       
-      const message = await storage.sendMessage(parseResult.data);
+      const message = await storage.sendMessage({
+        conversationId: conversation.id,
+        senderId: req.user!.id,
+        content: parseResult.data.content,
+      });
       console.log("Message sent successfully:", JSON.stringify(message, null, 2));
       
-      res.status(201).json(message);
+      // Push the message to the participants' open sockets
+      const chatMessage: ChatMessage = { ...message, reactions: [], attachments: [] };
+      const recipients = await getMessageRecipientIds(conversation.id, message.senderId);
+      notifyUsers(recipients, { type: "message:new", conversationId: message.conversationId, message: chatMessage });
+      notifyUsers(await getParticipantIds(conversation.id), { type: "conversation:updated", conversationId: message.conversationId });
+      
+      res.status(201).json(chatMessage);
     } catch (error) {
       console.error("Error sending message:", error);
       res.status(500).send("Internal server error");
     }
   });
   
+  // Send a message with a file attached (multipart: file, conversationId or
+  // receiverId, and an optional content caption)
+  app.post("/api/messages/attachments", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+    
+    if (!(await receiveUpload(req, res))) return;
+    if (!req.file) {
+      res.status(400).send("A file is required");
+      return;
+    }
+    
+    const parseResult = attachmentMessageSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json(parseResult.error);
+      return;
+    }
+    
+    try {
+      const conversation = await getTargetConversation(res, req.user!.id, parseResult.data, true);
+      if (!conversation) return;
+      
+      const problem = await getAttachmentProblem(req.file);
+      if (problem) {
+        res.status(400).send(problem);
+        return;
+      }
+      
+      // The file and its thumbnail are stored first, so a failure there
+      // doesn't leave an empty message behind
+      const stored = await storeAttachment(req.file, req.user!.id);
+      const message = await storage.sendMessage({
+        conversationId: conversation.id,
+        senderId: req.user!.id,
+        content: parseResult.data.content,
+      });
+      const attachment = await storage.createAttachment({ ...stored, messageId: message.id });
+      
+      const chatMessage: ChatMessage = { ...message, reactions: [], attachments: [toAttachmentInfo(attachment)] };
+      const recipients = await getMessageRecipientIds(conversation.id, message.senderId);
+      notifyUsers(recipients, { type: "message:new", conversationId: message.conversationId, message: chatMessage });
+      notifyUsers(await getParticipantIds(conversation.id), { type: "conversation:updated", conversationId: message.conversationId });
+      
+      res.status(201).json(chatMessage);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  // Edit a message the user sent. The previous content is kept for moderators.
+  app.patch("/api/messages/:id", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+    const messageId = parseIdParam(req, res, "id");
+    if (messageId === undefined) return;
+    
+    const parseResult = editMessageSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json(parseResult.error);
+      return;
+    }
+    
+    try {
+      const message = await getOwnMessage(messageId, req.user!.id);
+      if (!message) {
+        res.status(404).send("Message not found");
+        return;
+      }
+      if (message.senderId !== req.user!.id || message.kind === "system") {
+        res.status(403).send("You can only edit your own messages");
+        return;
+      }
+      if (message.deletedAt) {
+        res.status(400).send("Deleted messages can't be edited");
+        return;
+      }
+      
+      const conversation = await storage.getConversationById(message.conversationId);
+      const restriction = await getConversationRestriction(conversation!, req.user!.id);
+      if (restriction) {
+        res.status(403).send(restriction);
+        return;
+      }
+      
+      if (parseResult.data.content === message.content) {
+        res.json((await toChatMessages([message]))[0]);
+        return;
+      }
+      
+      const editedMessage = await storage.editMessage(message.id, parseResult.data.content);
+      res.json(await broadcastMessageUpdate(editedMessage!));
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  // Delete a message for the user only (?scope=me, the default), or for
+  // everyone in the conversation (?scope=everyone) if the user sent it
+  // recently enough
+  app.delete("/api/messages/:id", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+    const messageId = parseIdParam(req, res, "id");
+    if (messageId === undefined) return;
+    
+    const parseResult = deleteMessageQuerySchema.safeParse(req.query);
+    if (!parseResult.success) {
+      res.status(400).json(parseResult.error);
+      return;
+    }
+    
+    try {
+      const message = await getOwnMessage(messageId, req.user!.id);
+      if (!message) {
+        res.status(404).send("Message not found");
+        return;
+      }
+      
+      if (parseResult.data.scope === "me") {
+        await storage.hideMessage(message.id, req.user!.id);
+        notifyUsers([req.user!.id], { type: "message:hidden", conversationId: message.conversationId, messageId: message.id });
+        res.sendStatus(204);
+        return;
+      }
+      
+      if (message.senderId !== req.user!.id || message.kind === "system") {
+        res.status(403).send("You can only delete your own messages for everyone");
+        return;
+      }
+      if (message.deletedAt) {
+        res.sendStatus(204);
+        return;
+      }
+      const sentAt = message.createdAt ? new Date(message.createdAt).getTime() : 0;
+      if (Date.now() - sentAt > MESSAGE_DELETE_FOR_EVERYONE_WINDOW_MS) {
+        res.status(403).send("Messages can only be deleted for everyone within an hour of sending");
+        return;
+      }
+      
+      const deletedMessage = await storage.deleteMessageForEveryone(message.id);
+      await broadcastMessageUpdate(deletedMessage!);
+      res.sendStatus(204);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  // Set (or replace) the user's reaction to a message
+  app.put("/api/messages/:id/reaction", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+    const messageId = parseIdParam(req, res, "id");
+    if (messageId === undefined) return;
+    
+    const parseResult = messageReactionSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json(parseResult.error);
+      return;
+    }
+    
+    try {
+      const message = await getOwnMessage(messageId, req.user!.id);
+      if (!message || message.deletedAt || message.kind === "system") {
+        res.status(404).send("Message not found");
+        return;
+      }
+      
+      const conversation = await storage.getConversationById(message.conversationId);
+      const restriction = await getConversationRestriction(conversation!, req.user!.id);
+      if (restriction) {
+        res.status(403).send(restriction);
+        return;
+      }
+      
+      await storage.setMessageReaction(message.id, req.user!.id, parseResult.data.emoji);
+      res.json(await broadcastMessageUpdate(message));
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.delete("/api/messages/:id/reaction", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      res.status(401).send("Unauthorized");
+      return;
+    }
+    const messageId = parseIdParam(req, res, "id");
+    if (messageId === undefined) return;
+    
+    try {
+      const message = await getOwnMessage(messageId, req.user!.id);
+      if (!message) {
+        res.status(404).send("Message not found");
+        return;
+      }
+      
+      if (await storage.removeMessageReaction(message.id, req.user!.id)) {
+        await broadcastMessageUpdate(message);
+      }
+      res.sendStatus(204);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
   // Start a new conversation with another user
   app.post("/api/conversations", async (req, res) => {
     try {
@@ -298,25 +1002,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       console.log("Other user found:", otherUser.username);
       
-      const conversation = await storage.createOrUpdateConversation(
+      if (otherUser.id === req.user!.id) {
+        return res.status(400).send("You can't message yourself");
+      }
+      
+      const restriction = await getMessagingRestriction(req.user!.id, otherUser.id);
+      if (restriction) {
+        return res.status(403).send(restriction);
+      }
+      
+      const conversation = await acceptRequestOnReply(
+        await startDirectConversation(req.user!.id, otherUser.id),
         req.user!.id,
-        parseInt(otherUserId)
       );
-      console.log("Conversation created/updated:", JSON.stringify(conversation, null, 2));
-      
-      // Get other user's profile for the response
-      const otherUserProfile = await storage.getUserProfile(parseInt(otherUserId));
-      console.log("Other user profile:", JSON.stringify(otherUserProfile, null, 2));
-      
-      const enhancedConversation = {
-        ...conversation,
-        otherUser: {
-          id: otherUser.id,
-          username: otherUser.username,
-          fullName: otherUserProfile?.fullName,
-          avatarUrl: otherUser.avatarUrl,
-        }
-      };
+      console.log("Conversation found or created:", JSON.stringify(conversation, null, 2));
+      // Going back to an archived conversation brings it out of the archive
+      await storage.updateConversationSettings(conversation.id, req.user!.id, { archived: false });
+      notifyUsers([req.user!.id, otherUser.id], { type: "conversation:updated", conversationId: conversation.id });
+      
+      const enhancedConversation = await toConversationSummary(conversation, req.user!.id);
       
       console.log("Enhanced conversation to return:", JSON.stringify(enhancedConversation, null, 2));
       res.status(200).json(enhancedConversation);
@@ -327,5 +1031,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  setupRealtime(httpServer, sessionMiddleware);
   return httpServer;
 }
@@ -0,0 +1,228 @@
+// Fills the configured storage backend with fake users, profiles and
+// conversations for development and QA.
+//
+//   npm run db:seed -- --users 200 --conversations 5 --messages 12 --seed 42
+//
+// Every generated account uses the password printed at the end. An admin
+// account is only created when SEED_ADMIN_PASSWORD is set, with that password.
+// The seed refuses to run with NODE_ENV=production.
+import "dotenv/config";
+import { parseArgs } from "util";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import {
+  HOBBY_OPTIONS,
+  INTEREST_OPTIONS,
+  ROOMMATE_QUALITY_OPTIONS,
+  LIFESTYLE_OPTIONS,
+  CLEANLINESS_OPTIONS,
+  SMOKING_OPTIONS,
+  PET_OPTIONS,
+} from "@shared/profile-options";
+import type { InsertUserProfile, User } from "@shared/schema";
+
+const SEED_PASSWORD = "password123";
+
+const FIRST_NAMES = [
+  "Alex", "Jordan", "Taylor", "Morgan", "Casey", "Riley", "Jamie", "Avery",
+  "Quinn", "Skyler", "Drew", "Reese", "Sam", "Charlie", "Robin", "Devon",
+  "Priya", "Mateo", "Aisha", "Kenji", "Sofia", "Liam", "Nadia", "Omar",
+];
+
+const LAST_NAMES = [
+  "Smith", "Garcia", "Chen", "Patel", "Johnson", "Nguyen", "Williams", "Kim",
+  "Brown", "Lopez", "Davis", "Martinez", "Wilson", "Anderson", "Okafor", "Rossi",
+];
+
+const OCCUPATIONS = [
+  "Software Engineer", "Nurse", "Graduate Student", "Teacher", "Designer",
+  "Accountant", "Barista", "Marketing Manager", "Researcher", "Chef",
+  "Paralegal", "Data Analyst", "Photographer", "Pharmacist", "Sales Associate",
+];
+
+const LOCATIONS = [
+  "New York, NY", "Brooklyn, NY", "Boston, MA", "Cambridge, MA", "Chicago, IL",
+  "San Francisco, CA", "Oakland, CA", "Los Angeles, CA", "Seattle, WA",
+  "Austin, TX", "Denver, CO", "Portland, OR", "Philadelphia, PA", "Atlanta, GA",
+];
+
+const MESSAGE_LINES = [
+  "Hey! I saw we matched, are you still looking for a place?",
+  "Hi there, what neighbourhoods are you considering?",
+  "I'm hoping to move in around the start of next month.",
+  "What's your budget looking like for rent plus utilities?",
+  "Do you mind if I ask what your usual schedule is like?",
+  "I work from home a couple of days a week, is that okay?",
+  "How do you feel about splitting groceries and cleaning supplies?",
+  "I have a cat, hope that isn't a problem!",
+  "The deposit would be one month's rent, split between us.",
+  "Would you be free to look at a place this weekend?",
+  "Sounds good to me!",
+  "Let me check and get back to you.",
+  "I usually keep the common areas pretty tidy.",
+  "Do you have any references from previous roommates?",
+  "That works, talk soon.",
+];
+
+// Small deterministic PRNG (mulberry32) so the same --seed gives the same data
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  const pick = <T>(items: readonly T[]): T => items[int(0, items.length - 1)];
+  const sample = <T>(items: readonly T[], count: number): T[] => {
+    const pool = [...items];
+    const result: T[] = [];
+    while (result.length < count && pool.length > 0) {
+      result.push(pool.splice(int(0, pool.length - 1), 1)[0]);
+    }
+    return result;
+  };
+  // Returns undefined for roughly the given share of calls, to leave gaps in profiles
+  const maybe = <T>(value: T, missingRate = 0.1): T | undefined => (next() < missingRate ? undefined : value);
+
+  return { next, int, pick, sample, maybe };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+function randomProfile(random: Random, fullName: string): InsertUserProfile {
+  const location = random.pick(LOCATIONS);
+
+  return {
+    fullName,
+    age: random.int(19, 45),
+    occupation: random.maybe(random.pick(OCCUPATIONS)),
+    location,
+    // Most people want to stay where they are; some want to move
+    idealLocation: random.next() < 0.6 ? location : random.pick(LOCATIONS),
+    budget: random.maybe(random.int(12, 60) * 50),
+    hobbies: random.sample(HOBBY_OPTIONS, random.int(1, 5)),
+    interests: random.sample(INTEREST_OPTIONS, random.int(1, 5)),
+    lifestyle: random.maybe(random.pick(LIFESTYLE_OPTIONS)),
+    cleanliness: random.maybe(random.pick(CLEANLINESS_OPTIONS)),
+    smokingPreference: random.maybe(random.pick(SMOKING_OPTIONS)),
+    petPreference: random.maybe(random.pick(PET_OPTIONS)),
+    roommateQualities: random.sample(ROOMMATE_QUALITY_OPTIONS, random.int(0, 4)),
+    additionalInfo: random.maybe(
+      `${random.pick(["Easygoing", "Friendly", "Quiet", "Organized", "Social"])} ${random.pick(OCCUPATIONS).toLowerCase()} looking for a ${random.pick(["respectful", "clean", "fun", "reliable"])} roommate.`,
+      0.3,
+    ),
+  };
+}
+
+async function main() {
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("Refusing to seed with NODE_ENV=production: every seeded account has a known password");
+  }
+
+  const { values } = parseArgs({
+    options: {
+      users: { type: "string", default: "50" },
+      conversations: { type: "string", default: "3" },
+      messages: { type: "string", default: "8" },
+      seed: { type: "string", default: "1" },
+      prefix: { type: "string", default: "seed" },
+    },
+  });
+
+  const userCount = parseInt(values.users!);
+  const conversationsPerUser = parseInt(values.conversations!);
+  const maxMessages = parseInt(values.messages!);
+  const random = createRandom(parseInt(values.seed!));
+
+  if ([userCount, conversationsPerUser, maxMessages].some(n => isNaN(n) || n < 0)) {
+    throw new Error("--users, --conversations and --messages must be non-negative numbers");
+  }
+
+  console.log(`Seeding ${userCount} users with up to ${conversationsPerUser} conversations each...`);
+
+  const password = await hashPassword(SEED_PASSWORD);
+  const seededUsers: User[] = [];
+
+  for (let i = 1; i <= userCount; i++) {
+    const username = `${values.prefix}_user_${String(i).padStart(4, "0")}`;
+    const existing = await storage.getUserByUsername(username);
+    if (existing) {
+      seededUsers.push(existing);
+      continue;
+    }
+
+    // Reset emails for these addresses can be read with MAILER=console or file
+    const user = await storage.createUser({ username, password, email: `${username}@example.com`.toLowerCase() });
+    // Most people verify their email; the rest show up unverified
+    if (random.next() < 0.8) await storage.markEmailVerified(user.id, user.email!);
+    const fullName = `${random.pick(FIRST_NAMES)} ${random.pick(LAST_NAMES)}`;
+    await storage.createUserProfile(user.id, randomProfile(random, fullName));
+    seededUsers.push(user);
+  }
+
+  // A moderator account for trying out the admin moderation queue
+  const adminUsername = `${values.prefix}_admin`;
+  const adminPassword = process.env.SEED_ADMIN_PASSWORD;
+  if (adminPassword) {
+    const existingAdmin = await storage.getUserByUsername(adminUsername);
+    const admin = existingAdmin
+      ? await storage.updateUserPassword(existingAdmin.id, await hashPassword(adminPassword))
+      : await storage.createUser({
+        username: adminUsername,
+        password: await hashPassword(adminPassword),
+        email: `${adminUsername}@example.com`.toLowerCase(),
+      });
+    await storage.setUserRole(admin!.id, "admin");
+  }
+
+  const conversationIds = new Set<number>();
+  let messageCount = 0;
+
+  for (const user of seededUsers) {
+    const partners = random
+      .sample(seededUsers, conversationsPerUser + 1)
+      .filter(partner => partner.id !== user.id)
+      .slice(0, conversationsPerUser);
+
+    for (const partner of partners) {
+      const conversation = await storage.getOrCreateDirectConversation(user.id, partner.id);
+      conversationIds.add(conversation.id);
+
+      const length = random.int(1, Math.max(maxMessages, 1));
+      for (let m = 0; m < length && maxMessages > 0; m++) {
+        // Roughly alternate speakers, with the occasional double message
+        const sender = (m % 2 === 0) !== (random.next() < 0.2) ? user : partner;
+        await storage.sendMessage({
+          conversationId: conversation.id,
+          senderId: sender.id,
+          content: random.pick(MESSAGE_LINES),
+        });
+        messageCount++;
+      }
+
+      // Leave about half of the threads unread for the partner
+      if (random.next() < 0.5) {
+        await storage.markMessagesAsRead(conversation.id, partner.id);
+      }
+    }
+  }
+
+  console.log(`Seeded ${seededUsers.length} users, ${conversationIds.size} conversations and ${messageCount} messages.`);
+  console.log(`Log in as ${values.prefix}_user_0001 (or any other seeded user) with password "${SEED_PASSWORD}".`);
+  if (adminPassword) {
+    console.log(`Log in as ${adminUsername} with SEED_ADMIN_PASSWORD to moderate.`);
+  } else {
+    console.log("Set SEED_ADMIN_PASSWORD to also create an admin account for moderating.");
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Seeding failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,121 @@
+import { describe, it, before } from "node:test";
+import assert from "node:assert/strict";
+import type { Conversation, ConversationParticipant, User, UserProfile } from "@shared/schema";
+import { MATCH_WEIGHTS, scoreMutualMatch } from "@shared/matching";
+
+// serializers reads storage, which picks its backend when first imported
+process.env.STORAGE_BACKEND = "memory";
+let serializers: typeof import("./serializers");
+
+before(async () => {
+  serializers = await import("./serializers");
+});
+
+const user: User = {
+  id: 7,
+  username: "sam",
+  password: "hashed-password",
+  email: "sam@example.com",
+  emailVerifiedAt: new Date("2026-01-01"),
+  avatarUrl: null,
+  bio: "Tidy and quiet",
+  role: "user",
+  suspendedAt: null,
+  suspensionReason: null,
+  lastSeenAt: null,
+  showLastSeen: true,
+};
+
+const profile: UserProfile = {
+  id: 3,
+  userId: 7,
+  fullName: "Sam Jones",
+  age: 30,
+  occupation: null,
+  location: null,
+  idealLocation: null,
+  budget: null,
+  hobbies: [],
+  interests: [],
+  lifestyle: null,
+  cleanliness: null,
+  smokingPreference: null,
+  petPreference: null,
+  roommateQualities: [],
+  additionalInfo: null,
+  dealbreakers: { smokingPreference: ["smoker"] },
+  matchImportance: { cleanliness: 3 },
+  profileComplete: true,
+};
+
+function assertNoPassword(serialized: object) {
+  assert.equal("password" in serialized, false);
+  assert.ok(!JSON.stringify(serialized).includes("hashed-password"));
+}
+
+describe("toSelfUser", () => {
+  it("leaves out the password", () => {
+    const self = serializers.toSelfUser(user);
+    assertNoPassword(self);
+    assert.equal(self.email, "sam@example.com");
+  });
+});
+
+describe("toPublicUser", () => {
+  it("leaves out the password and private details", () => {
+    const publicUser = serializers.toPublicUser(user, profile);
+    assertNoPassword(publicUser);
+    assert.deepEqual(publicUser, { id: 7, username: "sam", fullName: "Sam Jones", avatarUrl: null, verified: true });
+  });
+});
+
+describe("toPublicProfile", () => {
+  it("leaves out the settings that steer the user's own matching", () => {
+    const publicProfile = serializers.toPublicProfile(profile);
+    assert.equal("dealbreakers" in publicProfile, false);
+    assert.equal("matchImportance" in publicProfile, false);
+  });
+});
+
+describe("toConversationView", () => {
+  const conversation: Conversation = {
+    id: 1,
+    isGroup: false,
+    name: null,
+    directKey: "7:8",
+    createdBy: 7,
+    requestStatus: null,
+    lastMessageAt: new Date("2026-01-02"),
+  };
+
+  it("shows the viewer's own settings without the direct key", () => {
+    const viewer = { conversationId: 1, userId: 7, unreadCount: 2, muted: true } as ConversationParticipant;
+    const view = serializers.toConversationView(conversation, viewer);
+    assertNoPassword(view);
+    assert.equal("directKey" in view, false);
+    assert.equal(view.unreadCount, 2);
+    assert.equal(view.muted, true);
+  });
+
+  it("uses the defaults for someone who isn't a participant", () => {
+    const view = serializers.toConversationView(conversation, undefined);
+    assert.equal(view.unreadCount, 0);
+    assert.equal(view.archived, false);
+    assert.equal(view.pinnedAt, null);
+  });
+});
+
+describe("toPublicMutualMatchScore", () => {
+  it("keeps the other user's importance settings out of how well the user fits them", () => {
+    const mine = { ...profile, lifestyle: "quiet", cleanliness: "clean", matchImportance: {} };
+    const theirs = { ...profile, lifestyle: "quiet", cleanliness: "casual", matchImportance: { cleanliness: 3 } };
+    const match = serializers.toPublicMutualMatchScore(scoreMutualMatch(mine, theirs));
+
+    const cleanliness = match.yourFit.categories.find(category => category.key === "cleanliness")!;
+    assert.equal("importance" in cleanliness, false);
+    assert.equal(cleanliness.maxScore, MATCH_WEIGHTS.cleanliness);
+    assert.equal(cleanliness.score, 0.7 * MATCH_WEIGHTS.cleanliness);
+    // The user's own side keeps their settings
+    assert.ok(match.theirFit.categories.every(category => "importance" in category));
+  });
+});
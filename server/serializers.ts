@@ -0,0 +1,123 @@
+import { storage } from "./storage";
+import { MATCH_WEIGHTS, type MatchScore, type MutualMatchScore, type PublicMutualMatchScore } from "@shared/matching";
+import type {
+  Conversation,
+  ConversationParticipant,
+  PublicUser,
+  PublicUserProfile,
+  Report,
+  SelfUser,
+  SubmittedReport,
+  User,
+  UserProfile,
+} from "@shared/schema";
+
+// Every user, profile and conversation the API returns goes through one of
+// these. They copy fields by name, so the password hash, and any column
+// added later, stays on the server until someone adds it here on purpose.
+
+export function toSelfUser(user: User): SelfUser {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    emailVerifiedAt: user.emailVerifiedAt,
+    avatarUrl: user.avatarUrl,
+    bio: user.bio,
+    role: user.role,
+    showLastSeen: user.showLastSeen,
+  };
+}
+
+export function toPublicUser(user: User, profile: UserProfile | undefined): PublicUser {
+  return {
+    id: user.id,
+    username: user.username,
+    fullName: profile?.fullName ?? null,
+    avatarUrl: user.avatarUrl,
+    verified: Boolean(user.emailVerifiedAt),
+  };
+}
+
+// Users are never deleted, but an ID that matches nobody still serializes,
+// with an empty username
+export async function getPublicUser(userId: number): Promise<PublicUser> {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    return { id: userId, username: "", fullName: null, avatarUrl: null, verified: false };
+  }
+  return toPublicUser(user, await storage.getUserProfile(userId));
+}
+
+// Users get their own profile back whole; this is how everyone else sees it
+export function toPublicProfile(profile: UserProfile): PublicUserProfile {
+  return {
+    id: profile.id,
+    userId: profile.userId,
+    fullName: profile.fullName,
+    age: profile.age,
+    occupation: profile.occupation,
+    location: profile.location,
+    idealLocation: profile.idealLocation,
+    budget: profile.budget,
+    hobbies: profile.hobbies,
+    interests: profile.interests,
+    lifestyle: profile.lifestyle,
+    cleanliness: profile.cleanliness,
+    smokingPreference: profile.smokingPreference,
+    petPreference: profile.petPreference,
+    roommateQualities: profile.roommateQualities,
+    additionalInfo: profile.additionalInfo,
+    profileComplete: profile.profileComplete,
+  };
+}
+
+export function toSubmittedReport(report: Report): SubmittedReport {
+  return {
+    id: report.id,
+    reportedUserId: report.reportedUserId,
+    messageId: report.messageId,
+    reason: report.reason,
+    details: report.details,
+    status: report.status,
+    createdAt: report.createdAt,
+  };
+}
+
+// A match score for the user who asked for it. How well they fit the other
+// person depends on that person's importance settings, so each category is
+// scaled back to its default weight and the importance levels are left out.
+export function toPublicMutualMatchScore(match: MutualMatchScore): PublicMutualMatchScore {
+  return {
+    percentage: match.percentage,
+    theirFit: match.theirFit,
+    yourFit: {
+      percentage: match.yourFit.percentage,
+      categories: match.yourFit.categories.map(category => ({
+        key: category.key,
+        category: category.category,
+        score: category.maxScore > 0 ? (category.score / category.maxScore) * MATCH_WEIGHTS[category.key] : 0,
+        maxScore: MATCH_WEIGHTS[category.key],
+        tooltip: category.tooltip,
+        conflict: category.conflict,
+      })),
+    },
+  };
+}
+
+// A conversation with the viewer's own settings for it. directKey is only
+// for storage to find one-to-one conversations.
+export function toConversationView(conversation: Conversation, viewer: ConversationParticipant | undefined) {
+  return {
+    id: conversation.id,
+    isGroup: conversation.isGroup,
+    name: conversation.name,
+    createdBy: conversation.createdBy,
+    requestStatus: conversation.requestStatus,
+    lastMessageAt: conversation.lastMessageAt,
+    unreadCount: viewer?.unreadCount ?? 0,
+    archived: viewer?.archived ?? false,
+    muted: viewer?.muted ?? false,
+    pinnedAt: viewer?.pinnedAt ?? null,
+  };
+}
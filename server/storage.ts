@@ -7,18 +7,80 @@ import {
   InsertUserProfile,
   Message,
   InsertMessage,
+  MessagePage,
+  MessagePageQuery,
+  MessageEdit,
+  MessageReaction,
+  MessageReactionEmoji,
+  Attachment,
   Conversation,
-  InsertConversation
+  ConversationParticipant,
+  ConversationSettings,
+  PasswordResetToken,
+  EmailVerificationToken,
+  TotpCredential,
+  RecoveryCode,
+  MessageRequestStatus,
+  MatchDecision,
+  MatchDecisionValue,
+  MutualMatch,
+  Block,
+  Report,
+  ReportStatus,
+  UserRole,
+  PrivacySettings,
+  toDirectKey
 } from "@shared/schema";
+import { matchesSearchTerms } from "@shared/search";
 import session from "express-session";
 import createMemoryStore from "memorystore";
+import { createDb, createSessionStore } from "./db";
+import { DbStorage } from "./db-storage";
+import { toUserSession, type UserSession } from "./user-sessions";
 
 const MemoryStore = createMemoryStore(session);
 
+// Result of a like or pass; mutualMatch is set when the decision completes
+// (or already had) a mutual match
+export interface MatchDecisionResult {
+  decision: MatchDecision;
+  mutualMatch?: MutualMatch;
+}
+
+export type NewReport = Pick<Report, "reporterId" | "reportedUserId" | "messageId" | "reason" | "details" | "snapshot">;
+
+export type NewAttachment = Omit<Attachment, "id" | "createdAt">;
+
+export interface MessageSearchPageQuery {
+  before?: number;
+  limit: number;
+}
+
+export interface ReportResolution {
+  status: Exclude<ReportStatus, "open">;
+  reviewedBy: number;
+  resolutionNote: string | null;
+}
+
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
+  getUsers(ids: number[]): Promise<User[]>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  // Emails are stored lower-cased, so look them up that way
+  getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  // Takes the already hashed password
+  updateUserPassword(userId: number, password: string): Promise<User | undefined>;
+  // Pass the email lower-cased. The new address starts out unverified.
+  updateUserEmail(userId: number, email: string): Promise<User | undefined>;
+  // Does nothing, returning undefined, if the user's email is no longer the
+  // one that was verified
+  markEmailVerified(userId: number, email: string): Promise<User | undefined>;
+  setUserRole(userId: number, role: UserRole): Promise<User | undefined>;
+  // Pass null to lift a suspension
+  setUserSuspension(userId: number, reason: string | null): Promise<User | undefined>;
+  setUserLastSeen(userId: number, lastSeenAt: Date): Promise<void>;
+  updatePrivacySettings(userId: number, settings: PrivacySettings): Promise<User | undefined>;
   
   getUserProfile(userId: number): Promise<UserProfile | undefined>;
   createUserProfile(userId: number, profile: InsertUserProfile): Promise<UserProfile>;
@@ -31,14 +93,98 @@ export interface IStorage {
   createProperty(userId: number, property: InsertProperty): Promise<Property>;
   
   // Messaging methods
-  getConversation(user1Id: number, user2Id: number): Promise<Conversation | undefined>;
+  getDirectConversation(user1Id: number, user2Id: number): Promise<Conversation | undefined>;
   getConversationById(id: number): Promise<Conversation | undefined>;
   getUserConversations(userId: number): Promise<Conversation[]>;
-  createOrUpdateConversation(user1Id: number, user2Id: number): Promise<Conversation>;
+  // A new conversation is a pending message request from the initiator if asRequest is set
+  getOrCreateDirectConversation(initiatorId: number, otherUserId: number, asRequest?: boolean): Promise<Conversation>;
+  // memberIds should not include the creator
+  createGroupConversation(creatorId: number, name: string, memberIds: number[]): Promise<Conversation>;
+  renameConversation(id: number, name: string): Promise<Conversation | undefined>;
+  updateConversationRequestStatus(id: number, requestStatus: MessageRequestStatus): Promise<Conversation | undefined>;
+  getConversationParticipants(conversationId: number): Promise<ConversationParticipant[]>;
+  // Returns the participants that were added; existing members are skipped
+  addConversationParticipants(conversationId: number, userIds: number[]): Promise<ConversationParticipant[]>;
+  removeConversationParticipant(conversationId: number, userId: number): Promise<boolean>;
+  // Archive, mute or pin the conversation for one member; undefined if they aren't one
+  updateConversationSettings(conversationId: number, userId: number, settings: ConversationSettings): Promise<ConversationParticipant | undefined>;
   
-  getMessages(conversationId: number): Promise<Message[]>;
+  getMessage(id: number): Promise<Message | undefined>;
+  // Text messages the user has sent in the conversation, including deleted ones
+  countUserMessages(conversationId: number, senderId: number): Promise<number>;
+  // Messages the viewer deleted for themselves are left out
+  getMessages(conversationId: number, viewerId: number, page: MessagePageQuery): Promise<MessagePage<Message>>;
+  // Newest first; matches the search terms against the start of words in
+  // messages from the user's conversations, leaving out deleted and hidden ones
+  searchMessages(userId: number, terms: string[], page: MessageSearchPageQuery): Promise<MessagePage<Message>>;
+  // Counts towards the other participants' unread messages and brings the
+  // conversation back out of everyone's archive, unless it is a system message
   sendMessage(message: InsertMessage): Promise<Message>;
-  markMessagesAsRead(conversationId: number, userId: number): Promise<void>;
+  // Returns the read time, or null if the user had nothing unread
+  markMessagesAsRead(conversationId: number, userId: number): Promise<Date | null>;
+  // Editing and deleting for everyone keep the previous content in the edit history
+  editMessage(id: number, content: string): Promise<Message | undefined>;
+  deleteMessageForEveryone(id: number): Promise<Message | undefined>;
+  hideMessage(messageId: number, userId: number): Promise<void>;
+  getMessageEdits(messageId: number): Promise<MessageEdit[]>;
+  getMessageReactions(messageIds: number[]): Promise<MessageReaction[]>;
+  setMessageReaction(messageId: number, userId: number, emoji: MessageReactionEmoji): Promise<MessageReaction>;
+  removeMessageReaction(messageId: number, userId: number): Promise<boolean>;
+  
+  // Attachment methods
+  createAttachment(attachment: NewAttachment): Promise<Attachment>;
+  getAttachment(id: number): Promise<Attachment | undefined>;
+  getMessageAttachments(messageIds: number[]): Promise<Attachment[]>;
+  
+  // Like / pass methods
+  getMatchDecisions(userId: number): Promise<MatchDecision[]>;
+  recordMatchDecision(userId: number, targetUserId: number, decision: MatchDecisionValue): Promise<MatchDecisionResult>;
+  getMutualMatch(user1Id: number, user2Id: number): Promise<MutualMatch | undefined>;
+  getUserMutualMatches(userId: number): Promise<MutualMatch[]>;
+  
+  // Block methods
+  blockUser(blockerId: number, blockedId: number): Promise<Block>;
+  unblockUser(blockerId: number, blockedId: number): Promise<boolean>;
+  // Blocks the user made or received
+  getBlocksInvolving(userId: number): Promise<Block[]>;
+  // True when either user has blocked the other
+  isBlocked(user1Id: number, user2Id: number): Promise<boolean>;
+  
+  // Report methods
+  createReport(report: NewReport): Promise<Report>;
+  getReport(id: number): Promise<Report | undefined>;
+  getReports(status?: ReportStatus): Promise<Report[]>;
+  resolveReport(id: number, resolution: ReportResolution): Promise<Report | undefined>;
+  
+  // Password reset methods; tokens are looked up by their hash
+  createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken>;
+  // Marks the token used, along with the user's other outstanding tokens.
+  // Returns undefined if the token doesn't exist, was used or has expired.
+  usePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+
+  // Email verification methods; tokens are looked up by their hash
+  createEmailVerificationToken(userId: number, email: string, tokenHash: string, expiresAt: Date): Promise<EmailVerificationToken>;
+  // Same rules as usePasswordResetToken
+  useEmailVerificationToken(tokenHash: string): Promise<EmailVerificationToken | undefined>;
+
+  // Two-factor authentication methods
+  getTotpCredential(userId: number): Promise<TotpCredential | undefined>;
+  // Turns 2FA on. usedStep is the time step of the code that confirmed the
+  // setup, so that code can't be used again to log in.
+  enableTotp(userId: number, secret: string, usedStep: number, recoveryCodeHashes: string[]): Promise<TotpCredential>;
+  // Also deletes the user's recovery codes
+  disableTotp(userId: number): Promise<void>;
+  // Returns false if a code for this or a later step was already accepted
+  recordTotpStep(userId: number, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  // Returns false if the user has no such unused code
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: number): Promise<number>;
+  
+  // Session methods
+  getUserSessions(userId: number): Promise<UserSession[]>;
+  revokeUserSession(userId: number, sid: string): Promise<boolean>;
+  revokeAllUserSessions(userId: number, exceptSid?: string): Promise<number>;
   
   sessionStore: session.Store;
 }
@@ -52,12 +198,37 @@ export class MemStorage implements IStorage {
   private userIdToProfileIdMap: Map<number, number>; // Maps user ID to their profile ID
   private properties: Map<number, Property>;
   private messages: Map<number, Message>;
+  private conversationMessageIds: Map<number, number[]>; // Message IDs per conversation, ascending
   private conversations: Map<number, Conversation>;
+  private conversationParticipants: Map<number, ConversationParticipant[]>; // Keyed by conversation ID
+  private matchDecisions: Map<string, MatchDecision>; // Keyed by "userId:targetUserId"
+  private mutualMatches: Map<number, MutualMatch>;
+  private blocks: Map<number, Block>;
+  private reports: Map<number, Report>;
+  private messageEdits: Map<number, MessageEdit>;
+  private hiddenMessages: Set<string>; // "messageId:userId"
+  private messageReactions: Map<string, MessageReaction>; // Keyed by "messageId:userId"
+  private attachments: Map<number, Attachment>;
+  private passwordResetTokens: Map<string, PasswordResetToken>; // Keyed by token hash
+  private emailVerificationTokens: Map<string, EmailVerificationToken>; // Keyed by token hash
+  private totpCredentials: Map<number, TotpCredential>; // Keyed by user ID
+  private recoveryCodes: Map<number, RecoveryCode>;
   private currentUserId: number;
   private currentPropertyId: number;
   private currentProfileId: number;
   private currentMessageId: number;
   private currentConversationId: number;
+  private currentParticipantId: number;
+  private currentMatchDecisionId: number;
+  private currentMutualMatchId: number;
+  private currentBlockId: number;
+  private currentReportId: number;
+  private currentMessageEditId: number;
+  private currentMessageReactionId: number;
+  private currentAttachmentId: number;
+  private currentPasswordResetTokenId: number;
+  private currentEmailVerificationTokenId: number;
+  private currentRecoveryCodeId: number;
   sessionStore: session.Store;
 
   constructor() {
@@ -67,12 +238,37 @@ export class MemStorage implements IStorage {
     this.userIdToProfileIdMap = new Map(); // Added this map to track which profile belongs to which user
     this.properties = new Map();
     this.messages = new Map();
+    this.conversationMessageIds = new Map();
     this.conversations = new Map();
+    this.conversationParticipants = new Map();
+    this.matchDecisions = new Map();
+    this.mutualMatches = new Map();
+    this.blocks = new Map();
+    this.reports = new Map();
+    this.messageEdits = new Map();
+    this.hiddenMessages = new Set();
+    this.messageReactions = new Map();
+    this.attachments = new Map();
+    this.passwordResetTokens = new Map();
+    this.emailVerificationTokens = new Map();
+    this.totpCredentials = new Map();
+    this.recoveryCodes = new Map();
     this.currentUserId = 1;
     this.currentPropertyId = 1;
     this.currentProfileId = 1;
     this.currentMessageId = 1;
     this.currentConversationId = 1;
+    this.currentParticipantId = 1;
+    this.currentMatchDecisionId = 1;
+    this.currentMutualMatchId = 1;
+    this.currentBlockId = 1;
+    this.currentReportId = 1;
+    this.currentMessageEditId = 1;
+    this.currentMessageReactionId = 1;
+    this.currentAttachmentId = 1;
+    this.currentPasswordResetTokenId = 1;
+    this.currentEmailVerificationTokenId = 1;
+    this.currentRecoveryCodeId = 1;
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000,
     });
@@ -91,25 +287,102 @@ export class MemStorage implements IStorage {
     return this.users.get(id);
   }
 
+  async getUsers(ids: number[]): Promise<User[]> {
+    return ids
+      .map(id => this.users.get(id))
+      .filter((user): user is User => user !== undefined);
+  }
+
   async getUserByUsername(username: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(
       (user) => user.username === username,
     );
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.email === email);
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
     const user: User = {
       id,
       username: insertUser.username,
       password: insertUser.password,
+      email: insertUser.email ?? null,
+      emailVerifiedAt: null,
       avatarUrl: insertUser.avatarUrl ?? null,
       bio: insertUser.bio ?? null,
+      role: "user",
+      suspendedAt: null,
+      suspensionReason: null,
+      lastSeenAt: null,
+      showLastSeen: true,
     };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUserPassword(userId: number, password: string): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    const updatedUser: User = { ...user, password };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUserEmail(userId: number, email: string): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    const updatedUser: User = { ...user, email, emailVerifiedAt: null };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async markEmailVerified(userId: number, email: string): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user || user.email !== email) return undefined;
+    const updatedUser: User = { ...user, emailVerifiedAt: user.emailVerifiedAt ?? new Date() };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async setUserRole(userId: number, role: UserRole): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    const updatedUser: User = { ...user, role };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async setUserSuspension(userId: number, reason: string | null): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    const updatedUser: User = {
+      ...user,
+      suspendedAt: reason === null ? null : new Date(),
+      suspensionReason: reason,
+    };
+    this.users.set(userId, updatedUser);
+    console.log(reason === null ? `Lifted suspension of user ${userId}` : `Suspended user ${userId}: ${reason}`);
+    return updatedUser;
+  }
+
+  async setUserLastSeen(userId: number, lastSeenAt: Date): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, { ...user, lastSeenAt });
+    }
+  }
+
+  async updatePrivacySettings(userId: number, settings: PrivacySettings): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    const updatedUser: User = { ...user, ...settings };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
   async getUserProfile(userId: number): Promise<UserProfile | undefined> {
     // Look up the profile ID from the user ID mapping
     const profileId = this.userIdToProfileIdMap.get(userId);
@@ -148,6 +421,8 @@ export class MemStorage implements IStorage {
       petPreference: insertProfile.petPreference ?? null,
       roommateQualities,
       additionalInfo: insertProfile.additionalInfo ?? null,
+      dealbreakers: insertProfile.dealbreakers ?? {},
+      matchImportance: insertProfile.matchImportance ?? {},
       profileComplete: insertProfile.fullName !== null && 
                       interests.length > 0 && 
                       hobbies.length > 0,
@@ -251,21 +526,15 @@ export class MemStorage implements IStorage {
 
   // Messaging methods
   
-  async getConversation(user1Id: number, user2Id: number): Promise<Conversation | undefined> {
-    console.log(`getConversation called for users ${user1Id} and ${user2Id}`);
+  async getDirectConversation(user1Id: number, user2Id: number): Promise<Conversation | undefined> {
+    console.log(`getDirectConversation called for users ${user1Id} and ${user2Id}`);
     
-    // Make sure we have a consistent order for user IDs to avoid duplicate conversations
-    const [smallerId, largerId] = user1Id < user2Id ? [user1Id, user2Id] : [user2Id, user1Id];
-    console.log(`Normalized user IDs: smaller=${smallerId}, larger=${largerId}`);
-    
-    // Find a conversation with these two users
-    const conversation = Array.from(this.conversations.values()).find(
-      conv => (conv.user1Id === smallerId && conv.user2Id === largerId)
-    );
+    const directKey = toDirectKey(user1Id, user2Id);
+    const conversation = Array.from(this.conversations.values()).find(conv => conv.directKey === directKey);
     
     console.log(conversation 
       ? `Found existing conversation: ${JSON.stringify(conversation, null, 2)}` 
-      : `No conversation found between users ${smallerId} and ${largerId}`);
+      : `No conversation found between users ${user1Id} and ${user2Id}`);
     
     return conversation;
   }
@@ -286,48 +555,28 @@ export class MemStorage implements IStorage {
     console.log(`Total conversations in storage: ${allConversations.length}`);
     
     const userConversations = allConversations.filter(
-      conv => conv.user1Id === userId || conv.user2Id === userId
+      conv => this.isParticipant(conv.id, userId)
     );
     
     console.log(`Found ${userConversations.length} conversations for user ${userId}`);
     return userConversations;
   }
   
-  async createOrUpdateConversation(user1Id: number, user2Id: number): Promise<Conversation> {
-    console.log(`createOrUpdateConversation called for users ${user1Id} and ${user2Id}`);
-    
-    // Make sure we have a consistent order for user IDs to avoid duplicate conversations
-    const [smallerId, largerId] = user1Id < user2Id ? [user1Id, user2Id] : [user2Id, user1Id];
-    console.log(`Normalized user IDs: smaller=${smallerId}, larger=${largerId}`);
-    
-    // Check if a conversation already exists
-    const existingConversation = await this.getConversation(smallerId, largerId);
+  async getOrCreateDirectConversation(initiatorId: number, otherUserId: number, asRequest = false): Promise<Conversation> {
+    console.log(`getOrCreateDirectConversation called for users ${initiatorId} and ${otherUserId}`);
     
+    const existingConversation = await this.getDirectConversation(initiatorId, otherUserId);
     if (existingConversation) {
-      console.log(`Updating existing conversation ID ${existingConversation.id}`);
-      // Update the last message timestamp
-      const updatedConversation: Conversation = {
-        ...existingConversation,
-        lastMessageAt: new Date(),
-      };
-      this.conversations.set(existingConversation.id, updatedConversation);
-      console.log(`Updated conversation: ${JSON.stringify(updatedConversation, null, 2)}`);
-      return updatedConversation;
+      return existingConversation;
     }
     
-    // Create a new conversation
-    const id = this.currentConversationId++;
-    console.log(`Creating new conversation with ID ${id}`);
-    
-    const newConversation: Conversation = {
-      id,
-      user1Id: smallerId,
-      user2Id: largerId,
-      lastMessageAt: new Date(),
-      unreadCount: 0,
-    };
-    
-    this.conversations.set(id, newConversation);
+    const newConversation = this.insertConversation({
+      isGroup: false,
+      name: null,
+      directKey: toDirectKey(initiatorId, otherUserId),
+      createdBy: initiatorId,
+      requestStatus: asRequest ? "pending" : null,
+    }, [initiatorId, otherUserId]);
     console.log(`Created new conversation: ${JSON.stringify(newConversation, null, 2)}`);
     
     // Log all current conversations after this update
@@ -336,121 +585,249 @@ export class MemStorage implements IStorage {
     return newConversation;
   }
   
-  async getMessages(conversationId: number): Promise<Message[]> {
-    console.log(`getMessages called for conversation ${conversationId}`);
+  async createGroupConversation(creatorId: number, name: string, memberIds: number[]): Promise<Conversation> {
+    const newConversation = this.insertConversation({
+      isGroup: true,
+      name,
+      directKey: null,
+      createdBy: creatorId,
+      requestStatus: null,
+    }, [creatorId, ...memberIds]);
+    console.log(`Created group conversation: ${JSON.stringify(newConversation, null, 2)}`);
+    return newConversation;
+  }
+  
+  async renameConversation(id: number, name: string): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    if (!conversation) return undefined;
     
-    const conversation = await this.getConversationById(conversationId);
-    if (!conversation) {
-      console.log(`No conversation found with ID ${conversationId}, returning empty message array`);
-      return [];
-    }
+    const updatedConversation: Conversation = { ...conversation, name };
+    this.conversations.set(id, updatedConversation);
+    return updatedConversation;
+  }
+  
+  async updateConversationRequestStatus(id: number, requestStatus: MessageRequestStatus): Promise<Conversation | undefined> {
+    const conversation = this.conversations.get(id);
+    if (!conversation) return undefined;
     
-    console.log(`Found conversation: ${JSON.stringify(conversation)}`);
-    console.log(`Looking for messages between users ${conversation.user1Id} and ${conversation.user2Id}`);
+    const updatedConversation: Conversation = { ...conversation, requestStatus };
+    this.conversations.set(id, updatedConversation);
+    return updatedConversation;
+  }
+  
+  async getConversationParticipants(conversationId: number): Promise<ConversationParticipant[]> {
+    return this.conversationParticipants.get(conversationId) ?? [];
+  }
+  
+  async addConversationParticipants(conversationId: number, userIds: number[]): Promise<ConversationParticipant[]> {
+    return this.insertParticipants(conversationId, userIds);
+  }
+  
+  async removeConversationParticipant(conversationId: number, userId: number): Promise<boolean> {
+    const participants = this.conversationParticipants.get(conversationId) ?? [];
+    const remaining = participants.filter(participant => participant.userId !== userId);
+    this.conversationParticipants.set(conversationId, remaining);
+    return remaining.length < participants.length;
+  }
+  
+  async updateConversationSettings(conversationId: number, userId: number, settings: ConversationSettings): Promise<ConversationParticipant | undefined> {
+    const participants = this.conversationParticipants.get(conversationId) ?? [];
+    const participant = participants.find(participant => participant.userId === userId);
+    if (!participant) return undefined;
     
-    const allMessages = Array.from(this.messages.values());
-    console.log(`Total messages in storage: ${allMessages.length}`);
+    const updatedParticipant: ConversationParticipant = {
+      ...participant,
+      archived: settings.archived ?? participant.archived,
+      muted: settings.muted ?? participant.muted,
+      pinnedAt: settings.pinned === undefined
+        ? participant.pinnedAt
+        : settings.pinned ? participant.pinnedAt ?? new Date() : null,
+    };
+    this.conversationParticipants.set(conversationId, participants.map(existing =>
+      existing.userId === userId ? updatedParticipant : existing
+    ));
+    return updatedParticipant;
+  }
+  
+  private isParticipant(conversationId: number, userId: number) {
+    return (this.conversationParticipants.get(conversationId) ?? []).some(participant => participant.userId === userId);
+  }
+  
+  private insertConversation(fields: Omit<Conversation, "id" | "lastMessageAt">, userIds: number[]): Conversation {
+    const id = this.currentConversationId++;
+    const newConversation: Conversation = { id, ...fields, lastMessageAt: new Date() };
+    this.conversations.set(id, newConversation);
+    this.insertParticipants(id, userIds);
+    return newConversation;
+  }
+  
+  private insertParticipants(conversationId: number, userIds: number[]): ConversationParticipant[] {
+    const participants = this.conversationParticipants.get(conversationId) ?? [];
+    // New members have read everything sent before they joined
+    const lastReadMessageId = this.conversationMessageIds.get(conversationId)?.at(-1) ?? null;
     
-    // Log message IDs for debugging
-    if (allMessages.length > 0) {
-      console.log('All message IDs in storage:', allMessages.map(m => m.id).join(', '));
+    const added: ConversationParticipant[] = [];
+    for (const userId of new Set(userIds)) {
+      if (participants.some(participant => participant.userId === userId)) continue;
+      added.push({
+        id: this.currentParticipantId++,
+        conversationId,
+        userId,
+        unreadCount: 0,
+        lastReadMessageId,
+        joinedAt: new Date(),
+        archived: false,
+        muted: false,
+        pinnedAt: null,
+      });
     }
     
-    const conversationMessages = allMessages
-      .filter(message => {
-        const isConversationMessage = (
-          (message.senderId === conversation.user1Id && message.receiverId === conversation.user2Id) ||
-          (message.senderId === conversation.user2Id && message.receiverId === conversation.user1Id)
-        );
-        
-        if (isConversationMessage) {
-          console.log(`Message ${message.id} belongs to conversation ${conversationId}:`, JSON.stringify(message));
-        }
-        
-        return isConversationMessage;
-      })
-      .sort((a, b) => new Date(a.createdAt || Date.now()).getTime() - new Date(b.createdAt || Date.now()).getTime());
-    
-    console.log(`Found ${conversationMessages.length} messages for conversation ${conversationId}`);
-    
-    if (conversationMessages.length > 0) {
-      console.log('Returning the following sorted messages:');
-      conversationMessages.forEach(message => {
-        console.log(`- Message ID ${message.id}: from user ${message.senderId} to ${message.receiverId}: "${message.content}" at ${message.createdAt}`);
-      });
+    this.conversationParticipants.set(conversationId, [...participants, ...added]);
+    console.log(`Added users ${added.map(participant => participant.userId).join(", ")} to conversation ${conversationId}`);
+    return added;
+  }
+  
+  async getMessage(id: number): Promise<Message | undefined> {
+    return this.messages.get(id);
+  }
+  
+  async countUserMessages(conversationId: number, senderId: number): Promise<number> {
+    return (this.conversationMessageIds.get(conversationId) ?? [])
+      .map(id => this.messages.get(id)!)
+      .filter(message => message.senderId === senderId && message.kind === "text")
+      .length;
+  }
+  
+  async getMessages(conversationId: number, viewerId: number, page: MessagePageQuery): Promise<MessagePage<Message>> {
+    console.log(`getMessages called for conversation ${conversationId} with page ${JSON.stringify(page)}`);
+    
+    const ids = (this.conversationMessageIds.get(conversationId) ?? [])
+      .filter(id => !this.hiddenMessages.has(`${id}:${viewerId}`));
+    
+    // IDs are stored in ascending order, so the cursors map to slice bounds
+    let pageIds: number[];
+    let hasMore: boolean;
+    let hasNewer: boolean | undefined;
+    if (page.around !== undefined) {
+      // Half the page before the message, and the message and the rest after it
+      const middle = ids.findIndex(id => id >= page.around!);
+      const split = middle === -1 ? ids.length : middle;
+      const olderLimit = Math.floor(page.limit / 2);
+      const start = Math.max(0, split - olderLimit);
+      const end = split + page.limit - olderLimit;
+      pageIds = ids.slice(start, end);
+      hasMore = start > 0;
+      hasNewer = end < ids.length;
+    } else if (page.after !== undefined) {
+      const start = ids.findIndex(id => id > page.after!);
+      const newer = start === -1 ? [] : ids.slice(start);
+      pageIds = newer.slice(0, page.limit);
+      hasMore = newer.length > page.limit;
+    } else {
+      const end = page.before !== undefined ? ids.findIndex(id => id >= page.before!) : -1;
+      const older = end === -1 ? ids : ids.slice(0, end);
+      pageIds = older.slice(-page.limit);
+      hasMore = older.length > page.limit;
     }
     
-    return conversationMessages;
+    const conversationMessages = pageIds.map(id => this.messages.get(id)!);
+    console.log(`Returning ${conversationMessages.length} of ${ids.length} messages for conversation ${conversationId} (hasMore: ${hasMore})`);
+    
+    return hasNewer === undefined
+      ? { messages: conversationMessages, hasMore }
+      : { messages: conversationMessages, hasMore, hasNewer };
+  }
+  
+  async searchMessages(userId: number, terms: string[], page: MessageSearchPageQuery): Promise<MessagePage<Message>> {
+    console.log(`searchMessages called for user ${userId} with terms ${JSON.stringify(terms)}`);
+    
+    const matches = Array.from(this.conversations.values())
+      .filter(conversation => this.isParticipant(conversation.id, userId))
+      .flatMap(conversation => this.conversationMessageIds.get(conversation.id) ?? [])
+      .filter(id => page.before === undefined || id < page.before)
+      .filter(id => !this.hiddenMessages.has(`${id}:${userId}`))
+      .map(id => this.messages.get(id)!)
+      .filter(message => message.kind === "text" && !message.deletedAt && matchesSearchTerms(message.content, terms))
+      .sort((a, b) => b.id - a.id);
+    
+    return { messages: matches.slice(0, page.limit), hasMore: matches.length > page.limit };
   }
   
   async sendMessage(message: InsertMessage): Promise<Message> {
     console.log(`sendMessage called with data: ${JSON.stringify(message, null, 2)}`);
     
-    // Ensure we have a conversation between these users
-    const conversation = await this.createOrUpdateConversation(
-      message.senderId, 
-      message.receiverId
-    );
-    console.log(`Message will be added to conversation ID ${conversation.id}`);
+    const conversation = this.conversations.get(message.conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation ${message.conversationId} not found`);
+    }
+    const participants = this.conversationParticipants.get(conversation.id) ?? [];
     
     // Create the message
     const id = this.currentMessageId++;
     const newMessage: Message = {
       id,
+      conversationId: conversation.id,
       senderId: message.senderId,
-      receiverId: message.receiverId,
+      receiverId: conversation.isGroup
+        ? null
+        : participants.find(participant => participant.userId !== message.senderId)?.userId ?? null,
       content: message.content,
+      kind: message.kind ?? "text",
       read: message.read ?? false,
+      readAt: null,
       createdAt: new Date(),
+      editedAt: null,
+      deletedAt: null,
     };
     
     console.log(`Created new message with ID ${id}: ${JSON.stringify(newMessage, null, 2)}`);
     
-    // Update the conversation's last message time and unread count
-    const updatedConversation: Conversation = {
-      ...conversation,
-      lastMessageAt: newMessage.createdAt,
-      unreadCount: (conversation.unreadCount || 0) + 1,
-    };
+    // The sender has read their own message; everyone else has another unread one
+    this.conversationParticipants.set(conversation.id, participants.map(participant => {
+      if (newMessage.kind !== "text") {
+        return participant.userId === message.senderId ? { ...participant, lastReadMessageId: id } : participant;
+      }
+      if (participant.userId === message.senderId) {
+        return { ...participant, lastReadMessageId: id, archived: false };
+      }
+      return { ...participant, unreadCount: participant.unreadCount + 1, archived: false };
+    }));
     
     this.messages.set(id, newMessage);
-    this.conversations.set(conversation.id, updatedConversation);
+    this.conversationMessageIds.set(conversation.id, [...(this.conversationMessageIds.get(conversation.id) ?? []), id]);
+    this.conversations.set(conversation.id, { ...conversation, lastMessageAt: newMessage.createdAt });
     
-    console.log(`Updated conversation: ${JSON.stringify(updatedConversation, null, 2)}`);
     console.log(`Total messages in storage after adding: ${this.messages.size}`);
     
     return newMessage;
   }
   
-  async markMessagesAsRead(conversationId: number, userId: number): Promise<void> {
+  async markMessagesAsRead(conversationId: number, userId: number): Promise<Date | null> {
     console.log(`markMessagesAsRead called for conversation ${conversationId} and user ${userId}`);
     
-    const conversation = await this.getConversationById(conversationId);
-    if (!conversation) {
-      console.log(`No conversation found with ID ${conversationId}, cannot mark messages as read`);
-      return;
+    const participants = this.conversationParticipants.get(conversationId) ?? [];
+    const participant = participants.find(existing => existing.userId === userId);
+    if (!participant) {
+      console.log(`User ${userId} is not in conversation ${conversationId}, cannot mark messages as read`);
+      return null;
     }
     
-    // Update messages
-    const allMessages = Array.from(this.messages.values());
-    console.log(`Total messages in storage: ${allMessages.length}`);
-    
-    const messagesToMark = allMessages.filter(message => 
-      // Mark as read if the user is the receiver of the message
-      message.receiverId === userId &&
-      // and if the message belongs to this conversation
-      ((message.senderId === conversation.user1Id && message.receiverId === conversation.user2Id) ||
-       (message.senderId === conversation.user2Id && message.receiverId === conversation.user1Id))
-    );
+    // Mark the messages in this conversation that the user received
+    const messageIds = this.conversationMessageIds.get(conversationId) ?? [];
+    const messagesToMark = messageIds
+      .map(id => this.messages.get(id)!)
+      .filter(message => message.receiverId === userId);
     
     console.log(`Found ${messagesToMark.length} messages to mark as read`);
     
     let markedCount = 0;
+    const readAt = new Date();
     messagesToMark.forEach(message => {
       if (!message.read) {
         const updatedMessage: Message = {
           ...message,
-          read: true
+          read: true,
+          readAt,
         };
         this.messages.set(message.id, updatedMessage);
         markedCount++;
@@ -459,15 +836,405 @@ export class MemStorage implements IStorage {
     
     console.log(`Marked ${markedCount} messages as read`);
     
-    // Reset unread count on the conversation
-    const updatedConversation: Conversation = {
-      ...conversation,
-      unreadCount: 0,
-    };
+    // Reset the reader's unread count; the other participants' are untouched
+    const lastReadMessageId = messageIds.at(-1) ?? null;
+    this.conversationParticipants.set(conversationId, participants.map(existing =>
+      existing === participant ? { ...existing, unreadCount: 0, lastReadMessageId } : existing));
+    console.log(`Updated unread count of user ${userId} to 0 in conversation ${conversationId}`);
+    
+    return markedCount > 0 || lastReadMessageId !== participant.lastReadMessageId ? readAt : null;
+  }
+
+  async editMessage(id: number, content: string): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    if (!message) return undefined;
+    
+    this.recordMessageEdit(message);
+    const updatedMessage: Message = { ...message, content, editedAt: new Date() };
+    this.messages.set(id, updatedMessage);
+    console.log(`Edited message ${id}`);
+    return updatedMessage;
+  }
+  
+  async deleteMessageForEveryone(id: number): Promise<Message | undefined> {
+    const message = this.messages.get(id);
+    if (!message) return undefined;
     
-    this.conversations.set(conversationId, updatedConversation);
-    console.log(`Updated conversation unread count to 0: ${JSON.stringify(updatedConversation, null, 2)}`);
+    this.recordMessageEdit(message);
+    const updatedMessage: Message = { ...message, content: "", deletedAt: new Date() };
+    this.messages.set(id, updatedMessage);
+    console.log(`Deleted message ${id} for everyone`);
+    return updatedMessage;
+  }
+  
+  private recordMessageEdit(message: Message) {
+    const edit: MessageEdit = {
+      id: this.currentMessageEditId++,
+      messageId: message.id,
+      previousContent: message.content,
+      createdAt: new Date(),
+    };
+    this.messageEdits.set(edit.id, edit);
+  }
+  
+  async hideMessage(messageId: number, userId: number): Promise<void> {
+    this.hiddenMessages.add(`${messageId}:${userId}`);
+  }
+  
+  async getMessageEdits(messageId: number): Promise<MessageEdit[]> {
+    return Array.from(this.messageEdits.values()).filter(edit => edit.messageId === messageId);
+  }
+  
+  async getMessageReactions(messageIds: number[]): Promise<MessageReaction[]> {
+    const ids = new Set(messageIds);
+    return Array.from(this.messageReactions.values()).filter(reaction => ids.has(reaction.messageId));
+  }
+  
+  async setMessageReaction(messageId: number, userId: number, emoji: MessageReactionEmoji): Promise<MessageReaction> {
+    const key = `${messageId}:${userId}`;
+    const reaction: MessageReaction = {
+      id: this.messageReactions.get(key)?.id ?? this.currentMessageReactionId++,
+      messageId,
+      userId,
+      emoji,
+      createdAt: new Date(),
+    };
+    this.messageReactions.set(key, reaction);
+    return reaction;
+  }
+  
+  async removeMessageReaction(messageId: number, userId: number): Promise<boolean> {
+    return this.messageReactions.delete(`${messageId}:${userId}`);
+  }
+
+  // Attachment methods
+
+  async createAttachment(attachment: NewAttachment): Promise<Attachment> {
+    const newAttachment: Attachment = { ...attachment, id: this.currentAttachmentId++, createdAt: new Date() };
+    this.attachments.set(newAttachment.id, newAttachment);
+    console.log(`Stored attachment ${newAttachment.id} (${attachment.mimeType}, ${attachment.size} bytes) for message ${attachment.messageId}`);
+    return newAttachment;
+  }
+
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    return this.attachments.get(id);
+  }
+
+  async getMessageAttachments(messageIds: number[]): Promise<Attachment[]> {
+    const ids = new Set(messageIds);
+    return Array.from(this.attachments.values()).filter(attachment => ids.has(attachment.messageId));
+  }
+
+  // Like / pass methods
+
+  async getMatchDecisions(userId: number): Promise<MatchDecision[]> {
+    return Array.from(this.matchDecisions.values()).filter(decision => decision.userId === userId);
+  }
+
+  async recordMatchDecision(userId: number, targetUserId: number, value: MatchDecisionValue): Promise<MatchDecisionResult> {
+    console.log(`recordMatchDecision: user ${userId} chose "${value}" for user ${targetUserId}`);
+
+    const key = `${userId}:${targetUserId}`;
+    const existing = this.matchDecisions.get(key);
+    const decision: MatchDecision = {
+      id: existing?.id ?? this.currentMatchDecisionId++,
+      userId,
+      targetUserId,
+      decision: value,
+      createdAt: new Date(),
+    };
+    this.matchDecisions.set(key, decision);
+
+    const [smallerId, largerId] = userId < targetUserId ? [userId, targetUserId] : [targetUserId, userId];
+    const existingMatch = await this.getMutualMatch(smallerId, largerId);
+
+    // Passing on someone undoes a mutual match
+    if (value === "pass") {
+      if (existingMatch) {
+        console.log(`Removing mutual match ${existingMatch.id}`);
+        this.mutualMatches.delete(existingMatch.id);
+      }
+      return { decision };
+    }
+
+    if (existingMatch) {
+      return { decision, mutualMatch: existingMatch };
+    }
+
+    const otherDecision = this.matchDecisions.get(`${targetUserId}:${userId}`);
+    if (otherDecision?.decision !== "like") {
+      return { decision };
+    }
+
+    const mutualMatch: MutualMatch = {
+      id: this.currentMutualMatchId++,
+      user1Id: smallerId,
+      user2Id: largerId,
+      createdAt: new Date(),
+    };
+    this.mutualMatches.set(mutualMatch.id, mutualMatch);
+    console.log(`Created mutual match: ${JSON.stringify(mutualMatch, null, 2)}`);
+    return { decision, mutualMatch };
+  }
+
+  async getMutualMatch(user1Id: number, user2Id: number): Promise<MutualMatch | undefined> {
+    const [smallerId, largerId] = user1Id < user2Id ? [user1Id, user2Id] : [user2Id, user1Id];
+    return Array.from(this.mutualMatches.values()).find(
+      match => match.user1Id === smallerId && match.user2Id === largerId
+    );
+  }
+
+  async getUserMutualMatches(userId: number): Promise<MutualMatch[]> {
+    return Array.from(this.mutualMatches.values()).filter(
+      match => match.user1Id === userId || match.user2Id === userId
+    );
+  }
+
+  // Block methods
+
+  async blockUser(blockerId: number, blockedId: number): Promise<Block> {
+    const existing = Array.from(this.blocks.values()).find(
+      block => block.blockerId === blockerId && block.blockedId === blockedId
+    );
+    if (existing) return existing;
+
+    const block: Block = { id: this.currentBlockId++, blockerId, blockedId, createdAt: new Date() };
+    this.blocks.set(block.id, block);
+    console.log(`User ${blockerId} blocked user ${blockedId}`);
+    return block;
+  }
+
+  async unblockUser(blockerId: number, blockedId: number): Promise<boolean> {
+    const existing = Array.from(this.blocks.values()).find(
+      block => block.blockerId === blockerId && block.blockedId === blockedId
+    );
+    if (!existing) return false;
+    this.blocks.delete(existing.id);
+    console.log(`User ${blockerId} unblocked user ${blockedId}`);
+    return true;
+  }
+
+  async getBlocksInvolving(userId: number): Promise<Block[]> {
+    return Array.from(this.blocks.values()).filter(
+      block => block.blockerId === userId || block.blockedId === userId
+    );
+  }
+
+  async isBlocked(user1Id: number, user2Id: number): Promise<boolean> {
+    return Array.from(this.blocks.values()).some(block =>
+      (block.blockerId === user1Id && block.blockedId === user2Id) ||
+      (block.blockerId === user2Id && block.blockedId === user1Id)
+    );
+  }
+
+  // Report methods
+
+  async createReport(newReport: NewReport): Promise<Report> {
+    const report: Report = {
+      ...newReport,
+      id: this.currentReportId++,
+      status: "open",
+      reviewedBy: null,
+      reviewedAt: null,
+      resolutionNote: null,
+      createdAt: new Date(),
+    };
+    this.reports.set(report.id, report);
+    console.log(`Created report ${report.id} against user ${report.reportedUserId}`);
+    return report;
+  }
+
+  async getReport(id: number): Promise<Report | undefined> {
+    return this.reports.get(id);
+  }
+
+  async getReports(status?: ReportStatus): Promise<Report[]> {
+    return Array.from(this.reports.values())
+      .filter(report => !status || report.status === status)
+      .sort((a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime());
+  }
+
+  async resolveReport(id: number, resolution: ReportResolution): Promise<Report | undefined> {
+    const report = this.reports.get(id);
+    if (!report) return undefined;
+    const resolvedReport: Report = { ...report, ...resolution, reviewedAt: new Date() };
+    this.reports.set(id, resolvedReport);
+    return resolvedReport;
+  }
+
+  // Password reset methods
+
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    const token: PasswordResetToken = {
+      id: this.currentPasswordResetTokenId++,
+      userId,
+      tokenHash,
+      expiresAt,
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    this.passwordResetTokens.set(tokenHash, token);
+    return token;
+  }
+
+  async usePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const token = this.passwordResetTokens.get(tokenHash);
+    if (!token || token.usedAt || token.expiresAt <= new Date()) {
+      return undefined;
+    }
+
+    const usedAt = new Date();
+    for (const [hash, other] of Array.from(this.passwordResetTokens.entries())) {
+      if (other.userId === token.userId && !other.usedAt) {
+        this.passwordResetTokens.set(hash, { ...other, usedAt });
+      }
+    }
+    return { ...token, usedAt };
+  }
+
+  // Email verification methods
+
+  async createEmailVerificationToken(userId: number, email: string, tokenHash: string, expiresAt: Date): Promise<EmailVerificationToken> {
+    const token: EmailVerificationToken = {
+      id: this.currentEmailVerificationTokenId++,
+      userId,
+      email,
+      tokenHash,
+      expiresAt,
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    this.emailVerificationTokens.set(tokenHash, token);
+    return token;
+  }
+
+  async useEmailVerificationToken(tokenHash: string): Promise<EmailVerificationToken | undefined> {
+    const token = this.emailVerificationTokens.get(tokenHash);
+    if (!token || token.usedAt || token.expiresAt <= new Date()) {
+      return undefined;
+    }
+
+    const usedAt = new Date();
+    for (const [hash, other] of Array.from(this.emailVerificationTokens.entries())) {
+      if (other.userId === token.userId && !other.usedAt) {
+        this.emailVerificationTokens.set(hash, { ...other, usedAt });
+      }
+    }
+    return { ...token, usedAt };
+  }
+
+  // Two-factor authentication methods
+
+  async getTotpCredential(userId: number): Promise<TotpCredential | undefined> {
+    return this.totpCredentials.get(userId);
+  }
+
+  async enableTotp(userId: number, secret: string, usedStep: number, recoveryCodeHashes: string[]): Promise<TotpCredential> {
+    const credential: TotpCredential = {
+      userId,
+      secret,
+      lastUsedStep: usedStep,
+      createdAt: new Date(),
+    };
+    this.totpCredentials.set(userId, credential);
+    await this.replaceRecoveryCodes(userId, recoveryCodeHashes);
+    return credential;
+  }
+
+  async disableTotp(userId: number): Promise<void> {
+    this.totpCredentials.delete(userId);
+    await this.replaceRecoveryCodes(userId, []);
+  }
+
+  async recordTotpStep(userId: number, step: number): Promise<boolean> {
+    const credential = this.totpCredentials.get(userId);
+    if (!credential || (credential.lastUsedStep !== null && credential.lastUsedStep >= step)) {
+      return false;
+    }
+    this.totpCredentials.set(userId, { ...credential, lastUsedStep: step });
+    return true;
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    for (const [id, code] of Array.from(this.recoveryCodes.entries())) {
+      if (code.userId === userId) this.recoveryCodes.delete(id);
+    }
+    for (const codeHash of codeHashes) {
+      const id = this.currentRecoveryCodeId++;
+      this.recoveryCodes.set(id, { id, userId, codeHash, usedAt: null, createdAt: new Date() });
+    }
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const code = Array.from(this.recoveryCodes.values())
+      .find(code => code.userId === userId && code.codeHash === codeHash && !code.usedAt);
+    if (!code) return false;
+    this.recoveryCodes.set(code.id, { ...code, usedAt: new Date() });
+    return true;
+  }
+
+  async countUnusedRecoveryCodes(userId: number): Promise<number> {
+    return Array.from(this.recoveryCodes.values())
+      .filter(code => code.userId === userId && !code.usedAt)
+      .length;
+  }
+
+  // Session methods
+
+  async getUserSessions(userId: number): Promise<UserSession[]> {
+    const all = await new Promise<Record<string, session.SessionData>>((resolve, reject) => {
+      this.sessionStore.all!((err, sessions) => {
+        if (err) return reject(err);
+        resolve((sessions ?? {}) as Record<string, session.SessionData>);
+      });
+    });
+
+    return Object.entries(all)
+      .map(([sid, data]) => toUserSession(sid, data, userId))
+      .filter((userSession): userSession is UserSession => userSession !== undefined);
+  }
+
+  async revokeUserSession(userId: number, sid: string): Promise<boolean> {
+    const sessions = await this.getUserSessions(userId);
+    if (!sessions.some(userSession => userSession.sid === sid)) {
+      return false;
+    }
+    await this.destroySession(sid);
+    return true;
+  }
+
+  async revokeAllUserSessions(userId: number, exceptSid?: string): Promise<number> {
+    const sessions = await this.getUserSessions(userId);
+    const toRevoke = sessions.filter(userSession => userSession.sid !== exceptSid);
+    for (const userSession of toRevoke) {
+      await this.destroySession(userSession.sid);
+    }
+    console.log(`Revoked ${toRevoke.length} sessions for user ${userId}`);
+    return toRevoke.length;
+  }
+
+  private destroySession(sid: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.sessionStore.destroy(sid, (err) => (err ? reject(err) : resolve()));
+    });
+  }
+}
+
+// STORAGE_BACKEND selects the implementation: "postgres" (the default) uses
+// DATABASE_URL, "memory" keeps everything in process and is meant for tests.
+function createStorage(): IStorage {
+  const backend = process.env.STORAGE_BACKEND ?? "postgres";
+
+  switch (backend) {
+    case "memory":
+      return new MemStorage();
+    case "postgres": {
+      const { pool, db } = createDb();
+      return new DbStorage(db, createSessionStore(pool));
+    }
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}", expected "postgres" or "memory"`);
   }
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+export const storage = createStorage();
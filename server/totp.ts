@@ -0,0 +1,89 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { TOTP_CODE_LENGTH } from "@shared/schema";
+
+// RFC 6238 time-based one-time passwords, with the parameters every
+// authenticator app supports: HMAC-SHA1 and 30-second steps
+const STEP_SECONDS = 30;
+// Codes from the step before and after the current one are accepted too,
+// to allow for clock drift and slow typing
+const DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(bytes: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of Array.from(bytes)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(text: string) {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of text.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character "${char}"`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// 160 bits, the key size RFC 4226 recommends for HMAC-SHA1
+export function generateTotpSecret() {
+  return base32Encode(randomBytes(20));
+}
+
+// What authenticator apps scan from a QR code or open as a link
+export function getTotpUri(secret: string, accountName: string, issuer: string) {
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_CODE_LENGTH),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}?${params}`;
+}
+
+export function getTotpStep(time = Date.now()) {
+  return Math.floor(time / 1000 / STEP_SECONDS);
+}
+
+export function getTotpCode(secret: string, step = getTotpStep()) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_CODE_LENGTH).padStart(TOTP_CODE_LENGTH, "0");
+}
+
+// The time step the code belongs to, or undefined if it isn't valid now.
+// Callers must still reject steps that were already used.
+export function verifyTotp(secret: string, code: string, time = Date.now()): number | undefined {
+  if (!/^\d+$/.test(code) || code.length !== TOTP_CODE_LENGTH) return undefined;
+
+  const currentStep = getTotpStep(time);
+  for (let step = currentStep - DRIFT_STEPS; step <= currentStep + DRIFT_STEPS; step++) {
+    if (timingSafeEqual(Buffer.from(getTotpCode(secret, step)), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return undefined;
+}
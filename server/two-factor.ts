@@ -0,0 +1,215 @@
+import type { Express, Request, Response } from "express";
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import { comparePasswords, recordSessionDetails } from "./auth";
+import { generateTotpSecret, getTotpUri, verifyTotp } from "./totp";
+import { toSelfUser } from "./serializers";
+import { rejectIfLoginThrottled, recordLoginFailure, clearLoginFailures } from "./login-throttle";
+import {
+  enableTwoFactorSchema,
+  twoFactorLoginSchema,
+  twoFactorReauthSchema,
+  type AuthErrorBody,
+  type TwoFactorSetup,
+  type TwoFactorStatus,
+} from "@shared/schema";
+
+const TOTP_ISSUER = "RoommateFinder";
+const RECOVERY_CODE_COUNT = 10;
+// Wrong codes allowed per password login before the password is asked for again
+const MAX_TWO_FACTOR_LOGIN_ATTEMPTS = 5;
+
+// Recovery codes look like "k3h9x-7dm2q" but are compared without the dash
+// and case-insensitively, however the user types them
+function generateRecoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString("hex");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+function hashRecoveryCode(code: string) {
+  const normalized = code.replace(/[\s-]/g, "").toLowerCase();
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+// Checks a code from the user's authenticator app or one of their recovery
+// codes. Either works only once.
+export async function verifySecondFactor(userId: number, code: string): Promise<boolean> {
+  const credential = await storage.getTotpCredential(userId);
+  if (!credential) return false;
+
+  const step = verifyTotp(credential.secret, code);
+  if (step !== undefined) {
+    return storage.recordTotpStep(userId, step);
+  }
+  return storage.useRecoveryCode(userId, hashRecoveryCode(code));
+}
+
+// Checks the password and code again before a change to two-factor settings.
+// Wrong guesses count towards the login throttle, and the response doesn't
+// say which one was wrong. Responds and returns false unless both are right.
+async function confirmReauth(req: Request, res: Response, password: string, code: string): Promise<boolean> {
+  const user = req.user!;
+  if (rejectIfLoginThrottled(req, res, user.username)) return false;
+
+  if (!(await comparePasswords(password, user.password)) || !(await verifySecondFactor(user.id, code))) {
+    recordLoginFailure(req, user.username);
+    res.status(403).send("Incorrect password or code");
+    return false;
+  }
+  clearLoginFailures(user.username);
+  return true;
+}
+
+// Opt-in TOTP two-factor authentication. Once on, logging in takes a code
+// from an authenticator app, or a recovery code, after the password.
+export function setupTwoFactor(app: Express) {
+  // Second step of POST /api/login
+  app.post("/api/login/2fa", async (req, res, next) => {
+    const parseResult = twoFactorLoginSchema.safeParse(req.body);
+    if (!parseResult.success) return res.status(400).json(parseResult.error);
+
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt <= Date.now()) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ message: "Your login has expired. Enter your password again." } satisfies AuthErrorBody);
+    }
+
+    try {
+      const user = await storage.getUser(pending.userId);
+      if (!user || user.suspendedAt) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "This account has been suspended" } satisfies AuthErrorBody);
+      }
+      // Wrong codes count against the account like wrong passwords, so
+      // entering the password again doesn't buy unlimited guesses
+      if (rejectIfLoginThrottled(req, res, user.username)) return;
+
+      if (!(await verifySecondFactor(user.id, parseResult.data.code))) {
+        recordLoginFailure(req, user.username);
+        pending.attempts++;
+        if (pending.attempts >= MAX_TWO_FACTOR_LOGIN_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Too many incorrect codes. Enter your password again." } satisfies AuthErrorBody);
+        }
+        return res.status(401).json({ message: "Incorrect code" } satisfies AuthErrorBody);
+      }
+
+      delete req.session.pendingTwoFactor;
+      clearLoginFailures(user.username);
+      req.login(user, (err: any) => {
+        if (err) return next(err);
+        recordSessionDetails(req);
+        res.json(toSelfUser(user));
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get("/api/user/2fa", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const status: TwoFactorStatus = {
+        enabled: Boolean(await storage.getTotpCredential(req.user!.id)),
+        recoveryCodesRemaining: await storage.countUnusedRecoveryCodes(req.user!.id),
+      };
+      res.json(status);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Start turning 2FA on: the user adds the secret to their app, then
+  // confirms with a code from it
+  app.post("/api/user/2fa/setup", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      if (await storage.getTotpCredential(req.user!.id)) {
+        return res.status(400).send("Two-factor authentication is already on");
+      }
+
+      const secret = generateTotpSecret();
+      req.session.pendingTotpSecret = secret;
+      const setup: TwoFactorSetup = {
+        secret,
+        otpauthUri: getTotpUri(secret, req.user!.username, TOTP_ISSUER),
+      };
+      res.json(setup);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Responds with the recovery codes, the only time they can be seen
+  app.post("/api/user/2fa/enable", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const parseResult = enableTwoFactorSchema.safeParse(req.body);
+    if (!parseResult.success) return res.status(400).json(parseResult.error);
+
+    const secret = req.session.pendingTotpSecret;
+    if (!secret) {
+      return res.status(400).send("Start setting up two-factor authentication first");
+    }
+
+    const step = verifyTotp(secret, parseResult.data.code);
+    if (step === undefined) {
+      return res.status(400).send("That code isn't right. Check that your device's clock is correct and try again.");
+    }
+
+    try {
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.enableTotp(req.user!.id, secret, step, recoveryCodes.map(hashRecoveryCode));
+      delete req.session.pendingTotpSecret;
+      res.status(201).json({ recoveryCodes });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Replaces all recovery codes, used or not
+  app.post("/api/user/2fa/recovery-codes", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const parseResult = twoFactorReauthSchema.safeParse(req.body);
+    if (!parseResult.success) return res.status(400).json(parseResult.error);
+
+    try {
+      if (!(await storage.getTotpCredential(req.user!.id))) {
+        return res.status(400).send("Two-factor authentication is off");
+      }
+      if (!(await confirmReauth(req, res, parseResult.data.password, parseResult.data.code))) return;
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(req.user!.id, recoveryCodes.map(hashRecoveryCode));
+      res.status(201).json({ recoveryCodes });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Someone with only an open session can't turn 2FA off: it takes the
+  // password and a code again
+  app.post("/api/user/2fa/disable", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    const parseResult = twoFactorReauthSchema.safeParse(req.body);
+    if (!parseResult.success) return res.status(400).json(parseResult.error);
+
+    try {
+      if (!(await storage.getTotpCredential(req.user!.id))) {
+        return res.status(400).send("Two-factor authentication is off");
+      }
+      if (!(await confirmReauth(req, res, parseResult.data.password, parseResult.data.code))) return;
+
+      await storage.disableTotp(req.user!.id);
+      res.sendStatus(204);
+    } catch (err) {
+      next(err);
+    }
+  });
+}
@@ -0,0 +1,21 @@
+// A login session as listed to its owner
+export interface UserSession {
+  sid: string;
+  expiresAt: Date | null;
+  loginAt: string | null;
+  userAgent: string | null;
+}
+
+// Converts raw express-session data into a UserSession, or returns undefined
+// if the session does not belong to the given user
+export function toUserSession(sid: string, data: any, userId: number): UserSession | undefined {
+  if (data?.passport?.user !== userId) {
+    return undefined;
+  }
+  return {
+    sid,
+    expiresAt: data.cookie?.expires ? new Date(data.cookie.expires) : null,
+    loginAt: data.loginAt ?? null,
+    userAgent: data.userAgent ?? null,
+  };
+}
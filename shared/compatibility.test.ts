@@ -0,0 +1,119 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { COMPATIBILITY_MATRICES, HARD_CONFLICT, getCompatibility, type CompatibilityAttribute } from "./compatibility";
+import { CONFLICT_PERCENTAGE_CAP, MATCH_WEIGHTS, scoreMatch, scoreMutualMatch } from "./matching";
+import type { UserProfile } from "./schema";
+
+function makeProfile(overrides: Partial<UserProfile> = {}): UserProfile {
+  return {
+    id: 1,
+    userId: 1,
+    fullName: "Sam",
+    age: 30,
+    occupation: null,
+    location: null,
+    idealLocation: null,
+    budget: null,
+    hobbies: [],
+    interests: [],
+    lifestyle: null,
+    cleanliness: null,
+    smokingPreference: null,
+    petPreference: null,
+    roommateQualities: [],
+    additionalInfo: null,
+    dealbreakers: {},
+    matchImportance: {},
+    profileComplete: true,
+    ...overrides,
+  };
+}
+
+const attributes = Object.keys(COMPATIBILITY_MATRICES) as CompatibilityAttribute[];
+
+describe("getCompatibility", () => {
+  it("gives the same value in both directions", () => {
+    for (const attribute of attributes) {
+      const values = Object.keys(COMPATIBILITY_MATRICES[attribute]);
+      for (const a of values) {
+        for (const b of values) {
+          assert.equal(getCompatibility(attribute, a, b), getCompatibility(attribute, b, a), `${attribute}: ${a} / ${b}`);
+        }
+      }
+    }
+  });
+
+  it("lists every pair of known values", () => {
+    for (const attribute of attributes) {
+      const matrix = COMPATIBILITY_MATRICES[attribute];
+      const values = Object.keys(matrix);
+      for (const a of values) {
+        assert.deepEqual(Object.keys(matrix[a]).sort(), [...values].sort(), `${attribute}: ${a}`);
+      }
+    }
+  });
+
+  it("grades pairs between full credit and none", () => {
+    assert.equal(getCompatibility("cleanliness", "clean", "clean"), 1);
+    assert.equal(getCompatibility("cleanliness", "clean", "casual"), 0.7);
+    assert.equal(getCompatibility("lifestyle", "night-owl", "early-bird"), 0.2);
+    assert.equal(getCompatibility("smokingPreference", "smoker", "non-smoker"), HARD_CONFLICT);
+  });
+
+  it("falls back to exact matching for unknown values", () => {
+    assert.equal(getCompatibility("lifestyle", "nomad", "nomad"), 1);
+    assert.equal(getCompatibility("lifestyle", "nomad", "quiet"), 0);
+    assert.equal(getCompatibility("petPreference", "no-pets", "reptiles-only"), 0);
+  });
+});
+
+describe("scoring", () => {
+  it("scores a category by its weight times the compatibility", () => {
+    const user = makeProfile({ cleanliness: "clean" });
+    const other = makeProfile({ cleanliness: "casual" });
+    const category = scoreMatch(user, other).categories.find(c => c.key === "cleanliness")!;
+    assert.equal(category.maxScore, MATCH_WEIGHTS.cleanliness);
+    assert.equal(category.score, 0.7 * MATCH_WEIGHTS.cleanliness);
+  });
+
+  it("gives a hard conflict no points and caps the percentage", () => {
+    const user = makeProfile({ smokingPreference: "non-smoker", lifestyle: "quiet", hobbies: ["Chess"] });
+    const other = makeProfile({ smokingPreference: "smoker", lifestyle: "quiet", hobbies: ["Chess"] });
+    const match = scoreMatch(user, other);
+    const smoking = match.categories.find(c => c.key === "smoking")!;
+    assert.equal(smoking.conflict, true);
+    assert.equal(smoking.score, 0);
+    assert.equal(match.percentage, CONFLICT_PERCENTAGE_CAP);
+  });
+
+  it("scales each category by how much the user cares about it", () => {
+    const other = makeProfile({ lifestyle: "quiet", cleanliness: "messy" });
+    const cares = (importance: number) => scoreMatch(
+      makeProfile({ lifestyle: "quiet", cleanliness: "clean", matchImportance: { cleanliness: importance } }),
+      other,
+    );
+
+    assert.equal(cares(3).categories.find(c => c.key === "cleanliness")!.maxScore, 2 * MATCH_WEIGHTS.cleanliness);
+    assert.equal(cares(1).categories.find(c => c.key === "cleanliness")!.maxScore, 0.5 * MATCH_WEIGHTS.cleanliness);
+    // Not caring leaves the category out, so only the lifestyle match counts
+    assert.equal(cares(0).categories.some(c => c.key === "cleanliness"), false);
+    assert.equal(cares(0).percentage, 100);
+    assert.ok(cares(3).percentage < cares(1).percentage);
+  });
+
+  it("forces the mutual percentage to 0 when either side has a dealbreaker", () => {
+    const user = makeProfile({ lifestyle: "quiet", dealbreakers: { petPreference: ["has-pets"] } });
+    const other = makeProfile({ lifestyle: "quiet", petPreference: "has-pets" });
+    assert.equal(scoreMatch(user, other).percentage, 100);
+    assert.equal(scoreMutualMatch(user, other).percentage, 0);
+    assert.equal(scoreMutualMatch(other, user).percentage, 0);
+  });
+
+  it("combines both directions with a geometric mean", () => {
+    const user = makeProfile({ lifestyle: "quiet", cleanliness: "clean", matchImportance: { cleanliness: 0 } });
+    const other = makeProfile({ lifestyle: "quiet", cleanliness: "messy" });
+    const match = scoreMutualMatch(user, other);
+    assert.equal(match.theirFit.percentage, 100);
+    assert.equal(match.percentage, Math.round(Math.sqrt(100 * match.yourFit.percentage)));
+  });
+});
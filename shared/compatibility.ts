@@ -0,0 +1,85 @@
+// Pairwise compatibility between profile attribute values.
+//
+// Each matrix maps a pair of values to the share of the category's points the
+// pair earns (1 = perfect fit, 0 = no credit). HARD_CONFLICT marks pairs that
+// are very unlikely to work out at all, such as a smoker and a non-smoker.
+// Matrices are symmetric: only one direction of each pair is listed.
+
+export const HARD_CONFLICT = -1;
+
+export type CompatibilityAttribute = "lifestyle" | "cleanliness" | "smokingPreference" | "petPreference";
+
+type PairList = Array<[string, string, number]>;
+type CompatibilityMatrix = Record<string, Record<string, number>>;
+
+function symmetricMatrix(pairs: PairList): CompatibilityMatrix {
+  const matrix: CompatibilityMatrix = {};
+  for (const [a, b, value] of pairs) {
+    (matrix[a] ??= {})[b] = value;
+    (matrix[b] ??= {})[a] = value;
+  }
+  return matrix;
+}
+
+// Lifestyle mixes two axes (sleep schedule and sociability), so it is scored
+// by hand rather than by distance
+const LIFESTYLE_MATRIX = symmetricMatrix([
+  ["early-bird", "early-bird", 1],
+  ["early-bird", "night-owl", 0.2],
+  ["early-bird", "social", 0.6],
+  ["early-bird", "quiet", 0.8],
+  ["night-owl", "night-owl", 1],
+  ["night-owl", "social", 0.7],
+  ["night-owl", "quiet", 0.4],
+  ["social", "social", 1],
+  ["social", "quiet", 0.3],
+  ["quiet", "quiet", 1],
+]);
+
+// Cleanliness is ordinal: each step apart loses credit, and the two ends of
+// the scale conflict outright
+const CLEANLINESS_MATRIX = symmetricMatrix([
+  ["very-clean", "very-clean", 1],
+  ["very-clean", "clean", 0.7],
+  ["very-clean", "casual", 0.3],
+  ["very-clean", "messy", HARD_CONFLICT],
+  ["clean", "clean", 1],
+  ["clean", "casual", 0.7],
+  ["clean", "messy", 0.3],
+  ["casual", "casual", 1],
+  ["casual", "messy", 0.7],
+  ["messy", "messy", 1],
+]);
+
+const SMOKING_MATRIX = symmetricMatrix([
+  ["non-smoker", "non-smoker", 1],
+  ["non-smoker", "outside-only", 0.6],
+  ["non-smoker", "smoker", HARD_CONFLICT],
+  ["outside-only", "outside-only", 1],
+  ["outside-only", "smoker", 0.5],
+  ["smoker", "smoker", 1],
+]);
+
+const PET_MATRIX = symmetricMatrix([
+  ["no-pets", "no-pets", 1],
+  ["no-pets", "has-pets", HARD_CONFLICT],
+  ["no-pets", "pet-friendly", 0.7],
+  ["has-pets", "has-pets", 0.9],
+  ["has-pets", "pet-friendly", 1],
+  ["pet-friendly", "pet-friendly", 1],
+]);
+
+export const COMPATIBILITY_MATRICES: Record<CompatibilityAttribute, CompatibilityMatrix> = {
+  lifestyle: LIFESTYLE_MATRIX,
+  cleanliness: CLEANLINESS_MATRIX,
+  smokingPreference: SMOKING_MATRIX,
+  petPreference: PET_MATRIX,
+};
+
+// Returns the share of points for a pair of values, or HARD_CONFLICT.
+// Values missing from the matrix fall back to exact matching.
+export function getCompatibility(attribute: CompatibilityAttribute, a: string, b: string): number {
+  const value = COMPATIBILITY_MATRICES[attribute][a]?.[b];
+  if (value !== undefined) return value;
+  return a === b ? 1 : 0;
+}
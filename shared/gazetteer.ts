@@ -0,0 +1,190 @@
+// A small local gazetteer used to normalise the free-text locations people
+// type on their profile, so that "NYC", "New York" and "New York, NY" all
+// resolve to the same place.
+//
+// Places are cities or neighbourhoods. Neighbourhoods (and boroughs) point at
+// their city, and cities that share a commuter area point at the same metro.
+
+export interface Place {
+  id: string;
+  name: string;
+  city: string;   // id of the city this place belongs to (itself for cities)
+  metro: string;  // id of the wider metro area
+  aliases: string[];
+}
+
+interface CityEntry {
+  id: string;
+  name: string;
+  state: string;
+  metro?: string;
+  aliases?: string[];
+  neighbourhoods?: Array<{ id: string; name: string; aliases?: string[] }>;
+}
+
+const CITIES: CityEntry[] = [
+  {
+    id: "new-york", name: "New York", state: "NY",
+    aliases: ["nyc", "new york city", "ny", "the big apple"],
+    neighbourhoods: [
+      { id: "manhattan", name: "Manhattan" },
+      { id: "brooklyn", name: "Brooklyn", aliases: ["bk"] },
+      { id: "queens", name: "Queens" },
+      { id: "bronx", name: "The Bronx", aliases: ["bronx"] },
+      { id: "staten-island", name: "Staten Island" },
+      { id: "harlem", name: "Harlem" },
+      { id: "williamsburg", name: "Williamsburg" },
+      { id: "astoria", name: "Astoria" },
+    ],
+  },
+  { id: "jersey-city", name: "Jersey City", state: "NJ", metro: "new-york", aliases: ["jc"] },
+  { id: "hoboken", name: "Hoboken", state: "NJ", metro: "new-york" },
+  {
+    id: "boston", name: "Boston", state: "MA",
+    neighbourhoods: [
+      { id: "back-bay", name: "Back Bay" },
+      { id: "south-end", name: "South End" },
+      { id: "jamaica-plain", name: "Jamaica Plain", aliases: ["jp"] },
+      { id: "allston", name: "Allston" },
+      { id: "dorchester", name: "Dorchester" },
+    ],
+  },
+  { id: "cambridge", name: "Cambridge", state: "MA", metro: "boston" },
+  { id: "somerville", name: "Somerville", state: "MA", metro: "boston" },
+  {
+    id: "chicago", name: "Chicago", state: "IL", aliases: ["chi", "chitown"],
+    neighbourhoods: [
+      { id: "lincoln-park", name: "Lincoln Park" },
+      { id: "wicker-park", name: "Wicker Park" },
+      { id: "logan-square", name: "Logan Square" },
+      { id: "hyde-park", name: "Hyde Park" },
+    ],
+  },
+  { id: "evanston", name: "Evanston", state: "IL", metro: "chicago" },
+  {
+    id: "san-francisco", name: "San Francisco", state: "CA", aliases: ["sf", "san fran", "frisco"],
+    neighbourhoods: [
+      { id: "mission", name: "Mission District", aliases: ["the mission", "mission"] },
+      { id: "soma", name: "SoMa", aliases: ["south of market"] },
+      { id: "sunset", name: "Sunset District", aliases: ["the sunset", "sunset"] },
+      { id: "richmond-sf", name: "Richmond District", aliases: ["inner richmond", "outer richmond"] },
+    ],
+  },
+  { id: "oakland", name: "Oakland", state: "CA", metro: "san-francisco" },
+  { id: "berkeley", name: "Berkeley", state: "CA", metro: "san-francisco" },
+  { id: "san-jose", name: "San Jose", state: "CA", metro: "san-francisco" },
+  {
+    id: "los-angeles", name: "Los Angeles", state: "CA", aliases: ["la", "l a"],
+    neighbourhoods: [
+      { id: "hollywood", name: "Hollywood" },
+      { id: "silver-lake", name: "Silver Lake" },
+      { id: "koreatown", name: "Koreatown", aliases: ["k town", "ktown"] },
+      { id: "venice", name: "Venice" },
+    ],
+  },
+  { id: "santa-monica", name: "Santa Monica", state: "CA", metro: "los-angeles" },
+  { id: "pasadena", name: "Pasadena", state: "CA", metro: "los-angeles" },
+  {
+    id: "seattle", name: "Seattle", state: "WA",
+    neighbourhoods: [
+      { id: "capitol-hill", name: "Capitol Hill" },
+      { id: "ballard", name: "Ballard" },
+      { id: "fremont", name: "Fremont" },
+    ],
+  },
+  { id: "bellevue", name: "Bellevue", state: "WA", metro: "seattle" },
+  { id: "austin", name: "Austin", state: "TX", aliases: ["atx"] },
+  { id: "denver", name: "Denver", state: "CO" },
+  { id: "boulder", name: "Boulder", state: "CO", metro: "denver" },
+  { id: "portland", name: "Portland", state: "OR", aliases: ["pdx"] },
+  { id: "philadelphia", name: "Philadelphia", state: "PA", aliases: ["philly"] },
+  { id: "atlanta", name: "Atlanta", state: "GA", aliases: ["atl"] },
+  { id: "washington", name: "Washington", state: "DC", aliases: ["washington dc", "dc", "d c"] },
+  { id: "miami", name: "Miami", state: "FL" },
+];
+
+// Lowercases and strips punctuation and extra whitespace
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[.,/#!$%^&*;:{}=_`~()'"-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+const PLACES = new Map<string, Place>();
+const PLACE_BY_ALIAS = new Map<string, Place>();
+
+function addPlace(place: Place, state: string) {
+  PLACES.set(place.id, place);
+  const stateName = state.toLowerCase();
+  for (const alias of [place.name, ...place.aliases]) {
+    const normalized = normalizeText(alias);
+    // City names are often written with their state ("Boston, MA")
+    for (const key of [normalized, `${normalized} ${stateName}`]) {
+      if (!PLACE_BY_ALIAS.has(key)) {
+        PLACE_BY_ALIAS.set(key, place);
+      }
+    }
+  }
+}
+
+for (const city of CITIES) {
+  const metro = city.metro ?? city.id;
+  addPlace({ id: city.id, name: city.name, city: city.id, metro, aliases: city.aliases ?? [] }, city.state);
+
+  for (const neighbourhood of city.neighbourhoods ?? []) {
+    addPlace({
+      id: neighbourhood.id,
+      name: neighbourhood.name,
+      city: city.id,
+      metro,
+      aliases: neighbourhood.aliases ?? [],
+    }, city.state);
+  }
+}
+
+// Resolves free text such as "Brooklyn, NY" or "nyc" to a known place
+export function resolvePlace(text: string | null | undefined): Place | undefined {
+  if (!text) return undefined;
+  const normalized = normalizeText(text);
+  if (!normalized) return undefined;
+
+  const direct = PLACE_BY_ALIAS.get(normalized);
+  if (direct) return direct;
+
+  // "Williamsburg, Brooklyn" or "Mission, San Francisco, CA": prefer the most
+  // specific part we recognise
+  const parts = text.split(",").map(normalizeText).filter(Boolean);
+  for (const part of parts) {
+    const place = PLACE_BY_ALIAS.get(part);
+    if (place) return place;
+  }
+  return undefined;
+}
+
+// How close two locations are, from 0 (unrelated) to 1 (same place).
+// Unknown locations only count when their normalised text is identical.
+export function locationProximity(a: string | null | undefined, b: string | null | undefined): number {
+  if (!a || !b) return 0;
+
+  const placeA = resolvePlace(a);
+  const placeB = resolvePlace(b);
+
+  if (!placeA || !placeB) {
+    return normalizeText(a) === normalizeText(b) ? 1 : 0;
+  }
+
+  if (placeA.id === placeB.id) return 1;
+  // A city and one of its neighbourhoods, or two neighbourhoods of a city
+  if (placeA.city === placeB.city) {
+    return placeA.id === placeA.city || placeB.id === placeB.city ? 0.9 : 0.75;
+  }
+  if (placeA.metro === placeB.metro) return 0.5;
+  return 0;
+}
+
+// True when two locations refer to the same city
+export function isSameArea(a: string | null | undefined, b: string | null | undefined): boolean {
+  return locationProximity(a, b) >= 0.75;
+}
@@ -0,0 +1,440 @@
+import {
+  DEALBREAKER_ATTRIBUTES,
+  type DealbreakerAttribute,
+  type MatchCategoryKey,
+  type MatchImportance,
+  type PublicUserProfile,
+  type UserProfile,
+} from "./schema";
+import { getCompatibility, HARD_CONFLICT, type CompatibilityAttribute } from "./compatibility";
+import { locationProximity } from "./gazetteer";
+
+// Compatibility scoring shared by the server (GET /api/matches) and the
+// client components that display a match breakdown.
+
+export type { MatchCategoryKey };
+
+export interface MatchCategoryScore {
+  key: MatchCategoryKey;
+  category: string;
+  score: number;
+  maxScore: number;
+  tooltip: string;
+  // How much the scoring user cares about this category (0-3)
+  importance: number;
+  // Set when the pair of values is a hard conflict (see shared/compatibility.ts)
+  conflict?: boolean;
+}
+
+export interface MatchScore {
+  percentage: number;
+  categories: MatchCategoryScore[];
+}
+
+// Which way a score is read: "theirs" is how well the other person fits the
+// current user, "yours" is how well the current user fits them
+export type MatchPerspective = "mutual" | "theirs" | "yours";
+
+export interface MutualMatchScore {
+  // Combines both directions and both sides' dealbreakers
+  percentage: number;
+  theirFit: MatchScore;
+  yourFit: MatchScore;
+}
+
+// How well the current user fits someone else, as the API shows it. The other
+// person's importance settings are private, so categories come at their
+// default weights and without an importance level.
+export interface PublicMatchScore {
+  percentage: number;
+  categories: (Omit<MatchCategoryScore, "importance"> & { importance?: number })[];
+}
+
+export interface PublicMutualMatchScore {
+  percentage: number;
+  theirFit: MatchScore;
+  yourFit: PublicMatchScore;
+}
+
+// A ranked candidate as returned by GET /api/matches
+export interface MatchCandidate extends PublicMutualMatchScore {
+  profile: PublicUserProfile;
+  // Whether the current user has liked this candidate, and whether the like
+  // is returned
+  liked: boolean;
+  matched: boolean;
+  // Whether the candidate has verified their email
+  verified: boolean;
+}
+
+export interface MatchPage {
+  matches: MatchCandidate[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export const MATCH_WEIGHTS: Record<MatchCategoryKey, number> = {
+  lifestyle: 20,
+  cleanliness: 15,
+  smoking: 15,
+  pets: 10,
+  hobbies: 20,
+  interests: 20,
+  qualities: 10,
+  location: 15,
+  budget: 15,
+};
+
+// Multiplier applied to a category's weight for each importance level
+export const IMPORTANCE_MULTIPLIERS = [0, 0.5, 1, 2];
+export const DEFAULT_IMPORTANCE = 2;
+
+export const IMPORTANCE_LABELS = ["Doesn't matter", "Nice to have", "Important", "Very important"];
+
+// A match with any hard conflict never shows as better than this percentage
+export const CONFLICT_PERCENTAGE_CAP = 40;
+
+// Scorers below work with the default weights; scoreMatch applies importance
+type BaseCategoryScore = Omit<MatchCategoryScore, "importance">;
+
+// Case-insensitive intersection, keeping the user's spelling
+function commonItems(userItems: string[], otherItems: string[]): string[] {
+  return userItems.filter(item =>
+    otherItems.some(otherItem => otherItem.toLowerCase() === item.toLowerCase())
+  );
+}
+
+function describeCommon(count: number, items: string[], noun: string): string {
+  return `You share ${count} ${noun} including: ${items.slice(0, 3).join(", ")}${count > 3 ? "..." : ""}`;
+}
+
+interface AttributeMessages {
+  match: string;
+  partial: string;
+  mismatch: string;
+  conflict: string;
+}
+
+// Scores one of the single-choice attributes through its compatibility matrix
+function scoreAttribute(
+  key: MatchCategoryKey,
+  attribute: CompatibilityAttribute,
+  category: string,
+  user: UserProfile,
+  other: UserProfile,
+  messages: AttributeMessages,
+): BaseCategoryScore {
+  const userValue = user[attribute];
+  const otherValue = other[attribute];
+
+  if (!userValue || !otherValue) {
+    return { key, category, score: 0, maxScore: 0, tooltip: "" };
+  }
+
+  const maxScore = MATCH_WEIGHTS[key];
+  const compatibility = getCompatibility(attribute, userValue, otherValue);
+
+  if (compatibility === HARD_CONFLICT) {
+    return { key, category, score: 0, maxScore, tooltip: messages.conflict, conflict: true };
+  }
+
+  return {
+    key,
+    category,
+    score: compatibility * maxScore,
+    maxScore,
+    tooltip: compatibility >= 1 ? messages.match
+      : compatibility >= 0.5 ? messages.partial
+      : messages.mismatch,
+  };
+}
+
+function scoreLifestyle(user: UserProfile, other: UserProfile): BaseCategoryScore {
+  return scoreAttribute("lifestyle", "lifestyle", "Lifestyle Compatibility", user, other, {
+    match: "You both have similar lifestyle preferences!",
+    partial: "Your lifestyles should fit together with a little give and take",
+    mismatch: "Your lifestyles may require some adjustment",
+    conflict: "Your lifestyles are likely to clash",
+  });
+}
+
+function scoreCleanliness(user: UserProfile, other: UserProfile): BaseCategoryScore {
+  return scoreAttribute("cleanliness", "cleanliness", "Cleanliness Standards", user, other, {
+    match: "You share similar cleanliness preferences",
+    partial: "Your cleanliness standards are close",
+    mismatch: "You may have different cleaning expectations",
+    conflict: "Your cleanliness standards are at opposite ends",
+  });
+}
+
+function scoreSmoking(user: UserProfile, other: UserProfile): BaseCategoryScore {
+  return scoreAttribute("smoking", "smokingPreference", "Smoking Compatibility", user, other, {
+    match: "You have compatible smoking preferences",
+    partial: "Your smoking preferences can work with some ground rules",
+    mismatch: "You have different smoking preferences",
+    conflict: "A smoker and a non-smoker rarely share a home comfortably",
+  });
+}
+
+function scorePets(user: UserProfile, other: UserProfile): BaseCategoryScore {
+  return scoreAttribute("pets", "petPreference", "Pet Compatibility", user, other, {
+    match: "You both have compatible pet preferences",
+    partial: "Your pet preferences are mostly compatible",
+    mismatch: "You have different views on pets",
+    conflict: "One of you has pets and the other wants none",
+  });
+}
+
+function scoreHobbies(user: UserProfile, other: UserProfile): BaseCategoryScore {
+  const userHobbies = user.hobbies ?? [];
+  const otherHobbies = other.hobbies ?? [];
+
+  if (userHobbies.length === 0 || otherHobbies.length === 0) {
+    return {
+      key: "hobbies",
+      category: "Shared Hobbies",
+      score: 0,
+      maxScore: 0,
+      tooltip: "Not enough data to calculate hobby compatibility",
+    };
+  }
+
+  const common = commonItems(userHobbies, otherHobbies);
+
+  return {
+    key: "hobbies",
+    category: "Shared Hobbies",
+    score: (common.length / userHobbies.length) * MATCH_WEIGHTS.hobbies,
+    maxScore: MATCH_WEIGHTS.hobbies,
+    tooltip: common.length > 0
+      ? describeCommon(common.length, common, "hobbies")
+      : "You don't share any hobbies in common",
+  };
+}
+
+function scoreInterests(user: UserProfile, other: UserProfile): BaseCategoryScore {
+  const userInterests = user.interests ?? [];
+  const otherInterests = other.interests ?? [];
+
+  if (userInterests.length === 0 || otherInterests.length === 0) {
+    return {
+      key: "interests",
+      category: "Shared Interests",
+      score: 0,
+      maxScore: 0,
+      tooltip: "Not enough data to calculate interest compatibility",
+    };
+  }
+
+  const common = commonItems(userInterests, otherInterests);
+
+  return {
+    key: "interests",
+    category: "Shared Interests",
+    score: (common.length / userInterests.length) * MATCH_WEIGHTS.interests,
+    maxScore: MATCH_WEIGHTS.interests,
+    tooltip: common.length > 0
+      ? describeCommon(common.length, common, "interests")
+      : "You don't share any interests in common",
+  };
+}
+
+// Checks whether the qualities the user is looking for are mentioned in the
+// other person's additional info
+function scoreQualities(user: UserProfile, other: UserProfile): BaseCategoryScore {
+  const desiredQualities = user.roommateQualities ?? [];
+
+  if (desiredQualities.length === 0) {
+    return {
+      key: "qualities",
+      category: "Desired Qualities",
+      score: 0,
+      maxScore: 0,
+      tooltip: "You haven't specified roommate qualities you're looking for",
+    };
+  }
+
+  const additionalInfo = other.additionalInfo?.toLowerCase() || "";
+  const matchedQualities = desiredQualities.filter(quality =>
+    additionalInfo.includes(quality.toLowerCase())
+  ).length;
+
+  return {
+    key: "qualities",
+    category: "Desired Qualities",
+    score: Math.min(MATCH_WEIGHTS.qualities, (matchedQualities / desiredQualities.length) * MATCH_WEIGHTS.qualities),
+    maxScore: MATCH_WEIGHTS.qualities,
+    tooltip: matchedQualities > 0
+      ? `This person may have ${matchedQualities} qualities you're looking for`
+      : "We couldn't determine if this person has qualities you're looking for",
+  };
+}
+
+// Each budget is treated as a range around the stated amount, since people
+// can usually stretch a little either way
+const BUDGET_FLEXIBILITY = 0.15;
+
+function budgetRange(budget: number): [number, number] {
+  return [budget * (1 - BUDGET_FLEXIBILITY), budget * (1 + BUDGET_FLEXIBILITY)];
+}
+
+// Rewards overlapping budget ranges, relative to the narrower of the two
+function scoreBudget(user: UserProfile, other: UserProfile): BaseCategoryScore {
+  if (!user.budget || !other.budget) {
+    return {
+      key: "budget",
+      category: "Budget",
+      score: 0,
+      maxScore: 0,
+      tooltip: "Budget information is missing",
+    };
+  }
+
+  const [userLow, userHigh] = budgetRange(user.budget);
+  const [otherLow, otherHigh] = budgetRange(other.budget);
+  const overlap = Math.max(0, Math.min(userHigh, otherHigh) - Math.max(userLow, otherLow));
+  const narrowest = Math.min(userHigh - userLow, otherHigh - otherLow);
+  const overlapRatio = narrowest > 0 ? Math.min(1, overlap / narrowest) : 0;
+
+  return {
+    key: "budget",
+    category: "Budget",
+    score: overlapRatio * MATCH_WEIGHTS.budget,
+    maxScore: MATCH_WEIGHTS.budget,
+    tooltip: overlapRatio >= 0.75 ? "Your budgets line up well"
+      : overlapRatio > 0 ? `Your budgets partly overlap ($${user.budget} vs $${other.budget})`
+      : `Your budgets are far apart ($${user.budget} vs $${other.budget})`,
+  };
+}
+
+// Compares where each person is and where they want to live, resolving
+// names through the gazetteer so that "NYC" and "New York, NY" match
+function scoreLocation(user: UserProfile, other: UserProfile): BaseCategoryScore {
+  const userTarget = user.idealLocation || user.location;
+  const otherTarget = other.idealLocation || other.location;
+
+  if (!userTarget || !otherTarget) {
+    return {
+      key: "location",
+      category: "Location",
+      score: 0,
+      maxScore: 0,
+      tooltip: "Location information is missing",
+    };
+  }
+
+  const options: Array<{ proximity: number; tooltip: string }> = [
+    {
+      proximity: locationProximity(userTarget, otherTarget),
+      tooltip: "You're both looking to live in the same area",
+    },
+    {
+      proximity: locationProximity(user.location, other.location),
+      tooltip: "You are both currently in the same location!",
+    },
+    {
+      proximity: locationProximity(user.idealLocation, other.location),
+      tooltip: `${other.fullName} is already in your ideal location.`,
+    },
+    {
+      proximity: locationProximity(user.location, other.idealLocation),
+      tooltip: `You're in ${other.fullName}'s ideal location.`,
+    },
+  ];
+  const best = options.reduce((a, b) => (b.proximity > a.proximity ? b : a));
+
+  return {
+    key: "location",
+    category: "Location",
+    score: best.proximity * MATCH_WEIGHTS.location,
+    maxScore: MATCH_WEIGHTS.location,
+    tooltip: best.proximity >= 0.75 ? best.tooltip
+      : best.proximity > 0 ? "You're looking in nearby areas"
+      : "Your locations don't match",
+  };
+}
+
+// Returns the dealbreaker attributes of userProfile that otherProfile violates
+export function findDealbreakers(userProfile: UserProfile, otherProfile: UserProfile): DealbreakerAttribute[] {
+  const dealbreakers = userProfile.dealbreakers ?? {};
+  return DEALBREAKER_ATTRIBUTES.filter(attribute => {
+    const value = otherProfile[attribute];
+    return !!value && (dealbreakers[attribute] ?? []).includes(value);
+  });
+}
+
+export function violatesDealbreakers(userProfile: UserProfile, otherProfile: UserProfile): boolean {
+  return findDealbreakers(userProfile, otherProfile).length > 0;
+}
+
+// True when either person hits one of the other's dealbreakers
+export function hasDealbreakerConflict(a: UserProfile, b: UserProfile): boolean {
+  return violatesDealbreakers(a, b) || violatesDealbreakers(b, a);
+}
+
+function getImportance(importance: MatchImportance | null, key: MatchCategoryKey): number {
+  const level = importance?.[key];
+  return level === undefined ? DEFAULT_IMPORTANCE : level;
+}
+
+// Scores how well otherProfile fits userProfile, weighted by how much
+// userProfile cares about each category. Categories without enough data on
+// either side, or that the user doesn't care about, are left out rather than
+// counted as a mismatch, and a hard conflict in any category caps the
+// overall percentage.
+export function scoreMatch(userProfile: UserProfile, otherProfile: UserProfile): MatchScore {
+  const categories = [
+    scoreLifestyle(userProfile, otherProfile),
+    scoreCleanliness(userProfile, otherProfile),
+    scoreSmoking(userProfile, otherProfile),
+    scorePets(userProfile, otherProfile),
+    scoreHobbies(userProfile, otherProfile),
+    scoreInterests(userProfile, otherProfile),
+    scoreQualities(userProfile, otherProfile),
+    scoreLocation(userProfile, otherProfile),
+    scoreBudget(userProfile, otherProfile),
+  ]
+    .map((category): MatchCategoryScore => {
+      const importance = getImportance(userProfile.matchImportance, category.key);
+      const multiplier = IMPORTANCE_MULTIPLIERS[importance];
+      return {
+        ...category,
+        score: category.score * multiplier,
+        maxScore: category.maxScore * multiplier,
+        importance,
+      };
+    })
+    .filter(category => category.maxScore > 0);
+
+  const totalScore = categories.reduce((sum, category) => sum + category.score, 0);
+  const totalMaxScore = categories.reduce((sum, category) => sum + category.maxScore, 0);
+  let percentage = totalMaxScore > 0 ? Math.round((totalScore / totalMaxScore) * 100) : 0;
+
+  if (categories.some(category => category.conflict)) {
+    percentage = Math.min(percentage, CONFLICT_PERCENTAGE_CAP);
+  }
+
+  return { percentage, categories };
+}
+
+// Scores the pair from both sides. The mutual percentage is the geometric mean
+// of the two one-way percentages, so a pair where only one side is happy ranks
+// below a pair where both are, and it is zero if either side has a dealbreaker.
+export function scoreMutualMatch(userProfile: UserProfile, otherProfile: UserProfile): MutualMatchScore {
+  const theirFit = scoreMatch(userProfile, otherProfile);
+  const yourFit = scoreMatch(otherProfile, userProfile);
+  const percentage = hasDealbreakerConflict(userProfile, otherProfile)
+    ? 0
+    : Math.round(Math.sqrt(theirFit.percentage * yourFit.percentage));
+
+  return { percentage, theirFit, yourFit };
+}
+
+export function perspectivePercentage(match: PublicMutualMatchScore, perspective: MatchPerspective): number {
+  switch (perspective) {
+    case "theirs": return match.theirFit.percentage;
+    case "yours": return match.yourFit.percentage;
+    default: return match.percentage;
+  }
+}
@@ -0,0 +1,68 @@
+import type { DealbreakerAttribute, MatchCategoryKey } from "./schema";
+
+// Options offered on the profile page. Shared so that the seed script
+// generates profiles with the same values real users can pick.
+
+export const HOBBY_OPTIONS = [
+  "Reading", "Gaming", "Cooking", "Baking", "Hiking", "Biking", 
+  "Photography", "Painting", "Drawing", "Playing Music", "Dancing",
+  "Yoga", "Meditation", "Gardening", "DIY Projects", "Watching Movies",
+  "Sports", "Traveling", "Writing", "Woodworking", "Knitting"
+];
+
+export const INTEREST_OPTIONS = [
+  "Technology", "Science", "History", "Politics", "Philosophy",
+  "Art", "Music", "Film", "Literature", "Theater", "Fashion",
+  "Food & Drink", "Health & Fitness", "Environment", "Animals",
+  "Education", "Business", "Economics", "Psychology", "Sociology"
+];
+
+export const ROOMMATE_QUALITY_OPTIONS = [
+  "Respectful", "Clean", "Organized", "Communicative", "Considerate",
+  "Reliable", "Responsible", "Trustworthy", "Easygoing", "Quiet",
+  "Fun", "Social", "Friendly", "Financially stable", "Mature",
+  "Non-judgmental", "Adaptable", "Open-minded", "Supportive", "Independent"
+];
+
+export const LIFESTYLE_OPTIONS = ["early-bird", "night-owl", "social", "quiet"];
+export const CLEANLINESS_OPTIONS = ["very-clean", "clean", "casual", "messy"];
+export const SMOKING_OPTIONS = ["non-smoker", "outside-only", "smoker"];
+export const PET_OPTIONS = ["no-pets", "has-pets", "pet-friendly"];
+
+// Display labels for the single-choice values above
+export const PREFERENCE_LABELS: Record<string, string> = {
+  "early-bird": "Early Bird",
+  "night-owl": "Night Owl",
+  "social": "Social",
+  "quiet": "Quiet",
+  "very-clean": "Very Clean",
+  "clean": "Clean",
+  "casual": "Casual",
+  "messy": "Messy",
+  "non-smoker": "Non-Smoker",
+  "outside-only": "Outside Only",
+  "smoker": "Smoker",
+  "no-pets": "No Pets",
+  "has-pets": "Has Pets",
+  "pet-friendly": "Pet Friendly",
+};
+
+// Choices offered for each dealbreaker attribute on the profile page
+export const DEALBREAKER_OPTIONS: Record<DealbreakerAttribute, { label: string; values: string[] }> = {
+  lifestyle: { label: "Lifestyle", values: LIFESTYLE_OPTIONS },
+  cleanliness: { label: "Cleanliness", values: CLEANLINESS_OPTIONS },
+  smokingPreference: { label: "Smoking", values: SMOKING_OPTIONS },
+  petPreference: { label: "Pets", values: PET_OPTIONS },
+};
+
+export const MATCH_CATEGORY_LABELS: Record<MatchCategoryKey, string> = {
+  lifestyle: "Lifestyle",
+  cleanliness: "Cleanliness",
+  smoking: "Smoking",
+  pets: "Pets",
+  hobbies: "Shared hobbies",
+  interests: "Shared interests",
+  qualities: "Desired qualities",
+  location: "Location",
+  budget: "Budget",
+};
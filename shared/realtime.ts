@@ -0,0 +1,36 @@
+import type { ChatMessage } from "./schema";
+
+// Events pushed to signed-in clients over the WebSocket at REALTIME_PATH.
+// The socket only carries server-to-client notifications; everything the
+// client does still goes through the REST API.
+
+export const REALTIME_PATH = "/ws";
+
+// Clients report typing at most this often while the user keeps typing, and
+// drop the indicator if no new report arrives within TYPING_TIMEOUT_MS
+export const TYPING_REPORT_INTERVAL_MS = 3000;
+export const TYPING_TIMEOUT_MS = 6000;
+
+// What another user may see of someone's presence. Both fields are hidden
+// (false / null) when that person has turned off showLastSeen.
+export interface Presence {
+  online: boolean;
+  // ISO time the user was last online; null while online or when hidden
+  lastSeenAt: string | null;
+}
+
+export type RealtimeEvent =
+  // A message was sent in one of the user's conversations (by them or to them)
+  | { type: "message:new"; conversationId: number; message: ChatMessage }
+  // A message was edited, deleted for everyone or reacted to
+  | { type: "message:updated"; conversationId: number; message: ChatMessage }
+  // The user deleted a message for themselves (sent to their other devices)
+  | { type: "message:hidden"; conversationId: number; messageId: number }
+  // A conversation was created or its last-message time or unread count changed
+  | { type: "conversation:updated"; conversationId: number }
+  // readerId read the messages sent to them in the conversation at readAt (ISO time)
+  | { type: "messages:read"; conversationId: number; readerId: number; readAt: string }
+  // Someone the user has a conversation with came online or went offline
+  | { type: "presence"; userId: number; presence: Presence }
+  // userId is composing a message in the conversation
+  | { type: "typing"; conversationId: number; userId: number };
@@ -1,13 +1,52 @@
-import { pgTable, text, serial, integer, boolean, json, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, json, timestamp, varchar, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Categories a match is scored on (see shared/matching.ts)
+export const MATCH_CATEGORY_KEYS = [
+  "lifestyle", "cleanliness", "smoking", "pets", "hobbies",
+  "interests", "qualities", "location", "budget",
+] as const;
+export type MatchCategoryKey = (typeof MATCH_CATEGORY_KEYS)[number];
+
+// How much a user cares about each category: 0 = doesn't matter,
+// 1 = nice to have, 2 = important (the default), 3 = very important
+export const matchImportanceSchema = z.record(
+  z.enum(MATCH_CATEGORY_KEYS),
+  z.number().int().min(0).max(3),
+);
+export type MatchImportance = z.infer<typeof matchImportanceSchema>;
+
+// Attribute values a user never wants to be matched with,
+// e.g. { smokingPreference: ["smoker"] }
+export const DEALBREAKER_ATTRIBUTES = ["lifestyle", "cleanliness", "smokingPreference", "petPreference"] as const;
+export type DealbreakerAttribute = (typeof DEALBREAKER_ATTRIBUTES)[number];
+export const dealbreakersSchema = z.record(z.enum(DEALBREAKER_ATTRIBUTES), z.array(z.string()));
+export type Dealbreakers = z.infer<typeof dealbreakersSchema>;
+
+export const USER_ROLES = ["user", "admin"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  // Stored lower-cased; accounts created before emails were collected have none
+  email: text("email").unique(),
+  // Set once the user follows a verification link sent to their email;
+  // cleared when the email changes
+  emailVerifiedAt: timestamp("email_verified_at"),
   avatarUrl: text("avatar_url"),
   bio: text("bio"),
+  role: text("role").$type<UserRole>().notNull().default("user"),
+  // Set by a moderator; suspended users can't log in
+  suspendedAt: timestamp("suspended_at"),
+  suspensionReason: text("suspension_reason"),
+  // When the user's last realtime connection closed
+  lastSeenAt: timestamp("last_seen_at"),
+  // Privacy: when false, nobody sees whether the user is online or when they last were
+  showLastSeen: boolean("show_last_seen").notNull().default(true),
 });
 
 export const userProfiles = pgTable("user_profiles", {
@@ -27,6 +66,8 @@ export const userProfiles = pgTable("user_profiles", {
   petPreference: text("pet_preference"), // e.g., "no-pets", "has-pets", "pet-friendly"
   roommateQualities: text("roommate_qualities").array(), // desired roommate qualities
   additionalInfo: text("additional_info"),
+  dealbreakers: json("dealbreakers").$type<Dealbreakers>().default({}),
+  matchImportance: json("match_importance").$type<MatchImportance>().default({}),
   profileComplete: boolean("profile_complete").default(false),
 });
 
@@ -47,49 +88,506 @@ export const properties = pgTable("properties", {
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  email: true,
   avatarUrl: true,
   bio: true,
 });
 
-export const insertUserProfileSchema = createInsertSchema(userProfiles).omit({
+// Links sent to reset a forgotten password. Only a hash of the token is
+// stored; each can be used once, before it expires.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("password_reset_tokens_user_id_idx").on(table.userId),
+]);
+
+// Links sent to confirm that an email address belongs to the user. The token
+// is tied to the address it was sent to, so it stops working if the user
+// changes their email in the meantime.
+export const emailVerificationTokens = pgTable("email_verification_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  email: text("email").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("email_verification_tokens_user_id_idx").on(table.userId),
+]);
+
+// TOTP two-factor authentication. A user has 2FA on while they have a row.
+export const totpCredentials = pgTable("totp_credentials", {
+  userId: integer("user_id").primaryKey(),
+  // Base32, the way authenticator apps take it
+  secret: text("secret").notNull(),
+  // The last 30-second time step a code was accepted for, so that a code
+  // can't be used twice
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Codes for logging in when the authenticator app is lost. Only hashes are
+// stored, and each code works once.
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("recovery_codes_user_id_idx").on(table.userId),
+]);
+
+export const PASSWORD_MIN_LENGTH = 8;
+// scrypt would take any length; this only stops absurdly large request bodies
+export const PASSWORD_MAX_LENGTH = 128;
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 30;
+
+// Emails are compared and stored lower-cased
+export const emailSchema = z.string().trim().toLowerCase().email("Enter a valid email address");
+
+export const passwordSchema = z.string()
+  .min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`)
+  .max(PASSWORD_MAX_LENGTH, `Password can be at most ${PASSWORD_MAX_LENGTH} characters`);
+
+// Rules for new accounts. Older accounts may not meet them, so logging in
+// doesn't check them.
+export const registerUserSchema = insertUserSchema.extend({
+  username: z.string()
+    .trim()
+    .min(USERNAME_MIN_LENGTH, `Username must be at least ${USERNAME_MIN_LENGTH} characters`)
+    .max(USERNAME_MAX_LENGTH, `Username can be at most ${USERNAME_MAX_LENGTH} characters`)
+    .regex(/^[a-zA-Z0-9_.-]+$/, "Username can only contain letters, numbers, dots, dashes and underscores"),
+  password: passwordSchema,
+  // Optional; the register form sends an empty string when left blank
+  email: z.union([z.literal(""), emailSchema]).nullish(),
+  avatarUrl: z.string().url().max(2048).nullish(),
+  bio: z.string().max(500, "Bio can be at most 500 characters").nullish(),
+});
+
+// The JSON error body of the register and login endpoints. fieldErrors maps
+// form fields to what's wrong with them; message sums it up.
+export interface AuthErrorBody {
+  message: string;
+  fieldErrors?: Record<string, string>;
+  // When too many logins failed: how long until the next attempt is allowed
+  retryAfterSeconds?: number;
+}
+
+export const forgotPasswordSchema = z.object({
+  email: emailSchema,
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: passwordSchema,
+});
+
+export const updateEmailSchema = z.object({
+  email: emailSchema,
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+export const TOTP_CODE_LENGTH = 6;
+
+export const enableTwoFactorSchema = z.object({
+  code: z.string().trim().regex(
+    new RegExp(`^\\d{${TOTP_CODE_LENGTH}}$`),
+    `Enter the ${TOTP_CODE_LENGTH}-digit code from your authenticator app`,
+  ),
+});
+
+// Wherever a second factor is asked for, a recovery code works in place of
+// the authenticator app's code
+const twoFactorCodeSchema = z.string().trim().min(1, "Enter a code");
+
+export const twoFactorLoginSchema = z.object({
+  code: twoFactorCodeSchema,
+});
+
+// Turning 2FA off or replacing the recovery codes asks for both factors again
+export const twoFactorReauthSchema = z.object({
+  password: z.string().min(1, "Enter your password"),
+  code: twoFactorCodeSchema,
+});
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// Returned by POST /api/user/2fa/setup for the user to add to their app
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+// Returned by POST /api/login in place of the user when the password was
+// right but a code is still needed, from POST /api/login/2fa
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+}
+
+export const insertUserProfileSchema = createInsertSchema(userProfiles, {
+  dealbreakers: dealbreakersSchema.nullish(),
+  matchImportance: matchImportanceSchema.nullish(),
+}).omit({
   id: true,
   userId: true,
   profileComplete: true,
 });
 
+// System messages record changes to a group ("Alex added Sam"); their
+// sender is the member who made the change
+export const MESSAGE_KINDS = ["text", "system"] as const;
+export type MessageKind = (typeof MESSAGE_KINDS)[number];
+
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").notNull(),
   senderId: integer("sender_id").notNull(),
-  receiverId: integer("receiver_id").notNull(),
+  // The other participant of a one-to-one conversation; null in groups
+  receiverId: integer("receiver_id"),
   content: text("content").notNull(),
+  kind: text("kind").$type<MessageKind>().notNull().default("text"),
   read: boolean("read").default(false),
+  // When the receiver first opened the message; drives "seen" receipts
+  readAt: timestamp("read_at"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+  // Set when the sender last edited the message
+  editedAt: timestamp("edited_at"),
+  // Set when the sender deleted the message for everyone; content is then empty
+  deletedAt: timestamp("deleted_at"),
+}, (table) => [
+  // History is paged by message ID within a conversation
+  index("messages_conversation_id_idx").on(table.conversationId, table.id),
+  // Full-text message search (see shared/search.ts); queries must use the same expression
+  index("messages_content_search_idx").using("gin", sql`to_tsvector('simple', ${table.content})`),
+]);
+
+// Content a message had before each edit, or before it was deleted for
+// everyone. Only moderators can see it.
+export const messageEdits = pgTable("message_edits", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull(),
+  previousContent: text("previous_content").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("message_edits_message_id_idx").on(table.messageId),
+]);
+
+// Messages a participant deleted for themselves only
+export const hiddenMessages = pgTable("hidden_messages", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull(),
+  userId: integer("user_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("hidden_messages_message_user_idx").on(table.messageId, table.userId),
+]);
+
+export const MESSAGE_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🙏"] as const;
+export type MessageReactionEmoji = (typeof MESSAGE_REACTIONS)[number];
+
+// Each participant can have one reaction per message; reacting again replaces it
+export const messageReactions = pgTable("message_reactions", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull(),
+  userId: integer("user_id").notNull(),
+  emoji: text("emoji").$type<MessageReactionEmoji>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("message_reactions_message_user_idx").on(table.messageId, table.userId),
+]);
+
+export const ATTACHMENT_MIME_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp", "application/pdf"] as const;
+export type AttachmentMimeType = (typeof ATTACHMENT_MIME_TYPES)[number];
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// A file sent with a message. The bytes live in the blob store under
+// storageKey; images also get a thumbnail there.
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull(),
+  uploaderId: integer("uploader_id").notNull(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").$type<AttachmentMimeType>().notNull(),
+  size: integer("size").notNull(),
+  storageKey: text("storage_key").notNull(),
+  thumbnailKey: text("thumbnail_key"),
+  // Pixel dimensions, for images only
+  width: integer("width"),
+  height: integer("height"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("attachments_message_id_idx").on(table.messageId),
+]);
+
+// How long after sending a message its sender can still delete it for everyone
+export const MESSAGE_DELETE_FOR_EVERYONE_WINDOW_MS = 60 * 60 * 1000;
+
+// Groups can have at most this many members, including their creator
+export const MAX_GROUP_MEMBERS = 10;
+
+// A one-to-one conversation started by someone without a mutual match is a
+// message request: it waits in the other person's requests folder, and the
+// requester can only send a few messages, until it is accepted
+export const MESSAGE_REQUEST_STATUSES = ["pending", "accepted", "declined"] as const;
+export type MessageRequestStatus = (typeof MESSAGE_REQUEST_STATUSES)[number];
+export const MESSAGE_REQUEST_ACTIONS = ["accept", "decline", "block"] as const;
+export const MESSAGE_REQUEST_MESSAGE_LIMIT = 3;
 
+// A one-to-one conversation or a named group. Who is in it is kept in
+// conversationParticipants.
 export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
-  user1Id: integer("user1_id").notNull(),
-  user2Id: integer("user2_id").notNull(),
+  isGroup: boolean("is_group").notNull().default(false),
+  // Groups only
+  name: text("name"),
+  // "smallerUserId:largerUserId" for one-to-one conversations, so each pair
+  // of users has only one; null for groups
+  directKey: text("direct_key").unique(),
+  // The member who created a group, or who started a one-to-one
+  // conversation. Only a group's creator can remove other members.
+  createdBy: integer("created_by"),
+  // Null unless the conversation started as a message request from createdBy
+  requestStatus: text("request_status").$type<MessageRequestStatus>(),
   lastMessageAt: timestamp("last_message_at").defaultNow(),
-  unreadCount: integer("unread_count").default(0),
 });
 
+// The directKey of the one-to-one conversation between two users
+export function toDirectKey(user1Id: number, user2Id: number) {
+  const [smallerId, largerId] = user1Id < user2Id ? [user1Id, user2Id] : [user2Id, user1Id];
+  return `${smallerId}:${largerId}`;
+}
+
+// Members of a conversation and how far each has read
+export const conversationParticipants = pgTable("conversation_participants", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").notNull(),
+  userId: integer("user_id").notNull(),
+  unreadCount: integer("unread_count").notNull().default(0),
+  // The latest message the member has seen
+  lastReadMessageId: integer("last_read_message_id"),
+  joinedAt: timestamp("joined_at").defaultNow(),
+  // The member's own list settings. Archived conversations are hidden until
+  // a new message arrives; muted ones show no unread badge; pinned ones are
+  // listed first, most recently pinned on top.
+  archived: boolean("archived").notNull().default(false),
+  muted: boolean("muted").notNull().default(false),
+  pinnedAt: timestamp("pinned_at"),
+}, (table) => [
+  uniqueIndex("conversation_participants_conversation_user_idx").on(table.conversationId, table.userId),
+  index("conversation_participants_user_id_idx").on(table.userId),
+]);
+
+export const MATCH_DECISIONS = ["like", "pass"] as const;
+export type MatchDecisionValue = (typeof MATCH_DECISIONS)[number];
+
+// A user's like or pass on a candidate; one row per (user, target) pair,
+// overwritten when the user changes their mind
+export const matchDecisions = pgTable("match_decisions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  targetUserId: integer("target_user_id").notNull(),
+  decision: text("decision").$type<MatchDecisionValue>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("match_decisions_user_target_idx").on(table.userId, table.targetUserId),
+]);
+
+// Created when two users have liked each other. Like conversations, the
+// smaller user ID is stored first.
+export const mutualMatches = pgTable("mutual_matches", {
+  id: serial("id").primaryKey(),
+  user1Id: integer("user1_id").notNull(),
+  user2Id: integer("user2_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("mutual_matches_users_idx").on(table.user1Id, table.user2Id),
+]);
+
+// blockerId never sees blockedId again and neither can message the other
+export const blocks = pgTable("blocks", {
+  id: serial("id").primaryKey(),
+  blockerId: integer("blocker_id").notNull(),
+  blockedId: integer("blocked_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("blocks_blocker_blocked_idx").on(table.blockerId, table.blockedId),
+]);
+
+export const REPORT_REASONS = ["harassment", "spam", "inappropriate", "fake-profile", "other"] as const;
+export const REPORT_STATUSES = ["open", "dismissed", "actioned"] as const;
+export type ReportStatus = (typeof REPORT_STATUSES)[number];
+
+// A user report about another user. The reported message or profile is
+// copied into snapshot so moderators see it as it was when reported.
+export const reports = pgTable("reports", {
+  id: serial("id").primaryKey(),
+  reporterId: integer("reporter_id").notNull(),
+  reportedUserId: integer("reported_user_id").notNull(),
+  messageId: integer("message_id"),
+  reason: text("reason").$type<(typeof REPORT_REASONS)[number]>().notNull(),
+  details: text("details"),
+  snapshot: json("snapshot"),
+  status: text("status").$type<ReportStatus>().notNull().default("open"),
+  reviewedBy: integer("reviewed_by"),
+  reviewedAt: timestamp("reviewed_at"),
+  resolutionNote: text("resolution_note"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("reports_status_idx").on(table.status),
+]);
+
+// Session table in the layout connect-pg-simple expects
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
 export const insertPropertySchema = createInsertSchema(properties).omit({
   id: true,
   userId: true,
 });
 
-export const insertMessageSchema = createInsertSchema(messages).omit({
+export const insertMessageSchema = createInsertSchema(messages, {
+  kind: z.enum(MESSAGE_KINDS).optional(),
+}).omit({
   id: true,
+  receiverId: true,
+  readAt: true,
   createdAt: true,
+  editedAt: true,
+  deletedAt: true,
 });
 
 export const insertConversationSchema = createInsertSchema(conversations).omit({
   id: true,
   lastMessageAt: true,
-  unreadCount: true,
 });
 
+// A new message goes to an existing conversation, or to the user's
+// one-to-one conversation with receiverId (started if need be)
+const messageTargetSchema = z.object({
+  conversationId: z.coerce.number().int().positive().optional(),
+  receiverId: z.coerce.number().int().positive().optional(),
+});
+const hasOneMessageTarget = (target: z.infer<typeof messageTargetSchema>) =>
+  (target.conversationId === undefined) !== (target.receiverId === undefined);
+const messageTargetError = { message: "Exactly one of conversationId and receiverId is required", path: ["conversationId"] };
+
+export const sendMessageSchema = messageTargetSchema.extend({
+  content: z.string().trim().min(1),
+}).refine(hasOneMessageTarget, messageTargetError);
+
+export const createGroupSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  memberIds: z.array(z.number().int().positive()).min(1).max(MAX_GROUP_MEMBERS - 1),
+});
+
+export const renameGroupSchema = createGroupSchema.pick({ name: true });
+
+export const addGroupMembersSchema = z.object({
+  userIds: z.array(z.number().int().positive()).min(1).max(MAX_GROUP_MEMBERS - 1),
+});
+
+// A member's own settings for a conversation in their list
+export const conversationSettingsSchema = z.object({
+  archived: z.boolean(),
+  muted: z.boolean(),
+  pinned: z.boolean(),
+}).partial().refine(settings => Object.keys(settings).length > 0, {
+  message: "Nothing to update",
+});
+
+export const messageRequestActionSchema = z.object({
+  action: z.enum(MESSAGE_REQUEST_ACTIONS),
+});
+
+export const matchDecisionSchema = z.object({
+  targetUserId: z.number().int().positive(),
+  decision: z.enum(MATCH_DECISIONS),
+});
+
+export const blockUserSchema = z.object({
+  userId: z.number().int().positive(),
+});
+
+// Either messageId or reportedUserId must be given; a message report is
+// always about the message's sender
+export const insertReportSchema = z.object({
+  reportedUserId: z.number().int().positive().optional(),
+  messageId: z.number().int().positive().optional(),
+  reason: z.enum(REPORT_REASONS),
+  details: z.string().max(2000).optional(),
+  // Also block the reported user
+  block: z.boolean().optional(),
+}).refine(report => report.messageId !== undefined || report.reportedUserId !== undefined, {
+  message: "Either messageId or reportedUserId is required",
+  path: ["reportedUserId"],
+});
+
+export const resolveReportSchema = z.object({
+  status: z.enum(["dismissed", "actioned"]),
+  note: z.string().max(2000).optional(),
+  // Suspend the reported user as part of the resolution
+  suspend: z.boolean().optional(),
+});
+
+export const suspendUserSchema = z.object({
+  reason: z.string().min(1).max(2000),
+});
+
+// Form fields sent alongside the file when uploading an attachment
+export const attachmentMessageSchema = messageTargetSchema.extend({
+  content: z.string().trim().default(""),
+}).refine(hasOneMessageTarget, messageTargetError);
+
+export const editMessageSchema = z.object({
+  content: z.string().trim().min(1),
+});
+
+export const deleteMessageQuerySchema = z.object({
+  scope: z.enum(["me", "everyone"]).default("me"),
+});
+
+export const messageReactionSchema = z.object({
+  emoji: z.enum(MESSAGE_REACTIONS),
+});
+
+// Cursor pagination for a conversation's history. Cursors are message IDs:
+// "before" pages back into older history, "after" fetches anything newer.
+// With neither, the latest messages are returned.
+export const messagePageQuerySchema = z.object({
+  before: z.coerce.number().int().positive().optional(),
+  after: z.coerce.number().int().positive().optional(),
+  // The page with this message in the middle, for jumping to it
+  around: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+}).refine(query => [query.before, query.after, query.around].filter(cursor => cursor !== undefined).length <= 1, {
+  message: "Use only one of before, after and around",
+});
+export type MessagePageQuery = z.infer<typeof messagePageQuerySchema>;
+
+export const privacySettingsSchema = z.object({
+  showLastSeen: z.boolean(),
+});
+export type PrivacySettings = z.infer<typeof privacySettingsSchema>;
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type UserProfile = typeof userProfiles.$inferSelect;
@@ -98,5 +596,70 @@ export type Property = typeof properties.$inferSelect;
 export type InsertProperty = z.infer<typeof insertPropertySchema>;
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type MessageEdit = typeof messageEdits.$inferSelect;
+export type MessageReaction = typeof messageReactions.$inferSelect;
+export type Attachment = typeof attachments.$inferSelect;
+
+// What participants see of an attachment; the file itself is served from
+// /api/attachments/:id and the thumbnail from /api/attachments/:id/thumbnail
+export type AttachmentInfo = Pick<Attachment, "id" | "fileName" | "mimeType" | "size" | "width" | "height"> & {
+  hasThumbnail: boolean;
+};
 export type Conversation = typeof conversations.$inferSelect;
+export type ConversationParticipant = typeof conversationParticipants.$inferSelect;
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type EmailVerificationToken = typeof emailVerificationTokens.$inferSelect;
+export type TotpCredential = typeof totpCredentials.$inferSelect;
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+export type ConversationSettings = z.infer<typeof conversationSettingsSchema>;
+export type MatchDecision = typeof matchDecisions.$inferSelect;
+export type MutualMatch = typeof mutualMatches.$inferSelect;
+export type Block = typeof blocks.$inferSelect;
+export type Report = typeof reports.$inferSelect;
+export type InsertReport = z.infer<typeof insertReportSchema>;
+
+// The logged-in user as the API shows them to themselves. Credentials never
+// leave the server.
+export type SelfUser = Pick<
+  User,
+  "id" | "username" | "email" | "emailVerifiedAt" | "avatarUrl" | "bio" | "role" | "showLastSeen"
+>;
+
+// Anyone else as the API shows them
+export interface PublicUser {
+  id: number;
+  username: string;
+  fullName: string | null;
+  avatarUrl: string | null;
+  // Whether they have verified their email
+  verified: boolean;
+}
+
+// Someone else's profile, without the settings that only steer their own
+// matching
+export type PublicUserProfile = Omit<UserProfile, "dealbreakers" | "matchImportance">;
+
+// A report as the reporter sees it once sent. The snapshot and the review are
+// for moderators only.
+export type SubmittedReport = Pick<
+  Report,
+  "id" | "reportedUserId" | "messageId" | "reason" | "details" | "status" | "createdAt"
+>;
+
+// A message as the API returns it, with its reactions grouped by emoji and
+// its attachments
+export interface ChatMessage extends Message {
+  reactions: { emoji: MessageReactionEmoji; userIds: number[] }[];
+  attachments: AttachmentInfo[];
+}
+
+// A page of messages, oldest first. hasMore says whether more messages exist
+// past the page in the direction that was requested.
+export interface MessagePage<T extends Message = ChatMessage> {
+  messages: T[];
+  hasMore: boolean;
+  // Only set on pages fetched with around, where hasMore tells whether there
+  // are older messages and this whether there are newer ones
+  hasNewer?: boolean;
+}
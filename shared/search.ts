@@ -0,0 +1,95 @@
+import { z } from "zod";
+
+// Message search matches whole search terms against the start of words, so
+// "depo" finds "Deposit". The memory backend matches with the helpers below
+// and Postgres with a prefix tsquery over the same words.
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const MAX_SEARCH_TERMS = 10;
+const SNIPPET_LENGTH = 140;
+// Characters of context kept before the first match in a snippet
+const SNIPPET_LEAD = 40;
+
+export const messageSearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  // Cursor: only return messages with a smaller ID
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+// A piece of a snippet; match marks the words that matched the search
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface MessageSearchResult {
+  messageId: number;
+  conversationId: number;
+  // The group's name, or the other person's in a one-to-one conversation
+  conversationName: string;
+  senderId: number;
+  createdAt: Date | null;
+  snippet: SnippetPart[];
+}
+
+export interface MessageSearchPage {
+  results: MessageSearchResult[];
+  hasMore: boolean;
+}
+
+// Lower-cased words of the query, without duplicates
+export function tokenizeSearchQuery(query: string): string[] {
+  const words = query.toLowerCase().match(WORD_PATTERN) ?? [];
+  return Array.from(new Set(words)).slice(0, MAX_SEARCH_TERMS);
+}
+
+function matchesTerm(word: string, terms: string[]) {
+  const lowerWord = word.toLowerCase();
+  return terms.some(term => lowerWord.startsWith(term));
+}
+
+// True if every term starts some word of the content
+export function matchesSearchTerms(content: string, terms: string[]): boolean {
+  const words = content.match(WORD_PATTERN) ?? [];
+  return terms.length > 0 && terms.every(term => words.some(word => word.toLowerCase().startsWith(term)));
+}
+
+// An excerpt of the content around its first matching word, split into
+// matching and non-matching parts
+export function buildSnippet(content: string, terms: string[]): SnippetPart[] {
+  const firstMatch = Array.from(content.matchAll(WORD_PATTERN)).find(word => matchesTerm(word[0], terms));
+
+  let start = 0;
+  if (firstMatch && firstMatch.index! > SNIPPET_LEAD) {
+    start = firstMatch.index! - SNIPPET_LEAD;
+    // Don't start in the middle of a word
+    const nextSpace = content.indexOf(" ", start);
+    if (nextSpace !== -1 && nextSpace < firstMatch.index!) start = nextSpace + 1;
+  }
+  const end = Math.min(content.length, start + SNIPPET_LENGTH);
+  const excerpt = content.slice(start, end);
+
+  const parts: SnippetPart[] = [];
+  const push = (text: string, match: boolean) => {
+    const last = parts[parts.length - 1];
+    if (last && last.match === match) {
+      last.text += text;
+    } else if (text) {
+      parts.push({ text, match });
+    }
+  };
+
+  if (start > 0) push("…", false);
+  let position = 0;
+  for (const word of excerpt.matchAll(WORD_PATTERN)) {
+    if (!matchesTerm(word[0], terms)) continue;
+    push(excerpt.slice(position, word.index!), false);
+    push(word[0], true);
+    position = word.index! + word[0].length;
+  }
+  push(excerpt.slice(position), false);
+  if (end < content.length) push("…", false);
+
+  return parts;
+}